@@ -0,0 +1,100 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { DEFAULT_PERSONAS, DEFAULT_PERSONA_ID } from './constants';
+import { Fixture, FixtureConfig, fixtureKeys } from './services/fixtures';
+
+const MODEL = DEFAULT_PERSONAS.find(p => p.id === DEFAULT_PERSONA_ID)!.model;
+
+/** A streamed reply to `prompt`, served by prompt match whatever else the request holds. */
+const streamFixture = (prompt: string, deltas: string[]): Fixture => {
+  const request = { model: MODEL, contents: [{ role: 'user' as const, text: prompt }], config: {} };
+  let text = '';
+  return {
+    version: 1,
+    kind: 'stream',
+    ...fixtureKeys('stream', request),
+    request,
+    chunks: deltas.map(delta => ({ delta, text: (text += delta) })),
+    recordedAt: new Date(0).toISOString(),
+  };
+};
+
+const FIXTURES = [
+  streamFixture('Hello', ['Hi ', 'there!']),
+  streamFixture('Tell a story', ['Once ', 'upon ', 'a ', 'time ', 'there ', 'was ', 'a ', 'fox.']),
+];
+
+/**
+ * Renders a fresh App, with its own engine and an empty database, answering from `FIXTURES`.
+ * Modules are reloaded so no conversation carries over from the previous test.
+ */
+const renderApp = async (config: Partial<FixtureConfig> = {}) => {
+  vi.resetModules();
+  const fixtures = await import('./services/fixtures');
+  fixtures.setFixtureStore(fixtures.createMemoryFixtureStore(FIXTURES));
+  fixtures.setFixtureConfig({ mode: 'replay', latencyMs: 0, chunkDelayMs: 0, failures: new Map(), ...config });
+  const { default: App } = await import('./App');
+  const { t } = await import('./services/i18n');
+  render(<App />);
+  // Sending is possible once the stored conversations have loaded and the welcome is shown
+  await screen.findByText(/NikiViti Solaris Spectrum/);
+  const input = screen.getByPlaceholderText(t('composer.placeholder'));
+  const send = (text: string) => {
+    fireEvent.change(input, { target: { value: text } });
+    fireEvent.submit(input.closest('form')!);
+  };
+  return { t, send, fixtures };
+};
+
+describe('App', () => {
+  it('streams a reply to a sent prompt', async () => {
+    const { send } = await renderApp({ chunkDelayMs: 5 });
+    send('Hello');
+
+    expect(await screen.findByText('Hi there!')).toBeTruthy();
+    // The prompt names the channel as well as showing in it
+    expect(screen.getAllByText('Hello').length).toBeGreaterThan(1);
+  });
+
+  it('offers a retry after a failed reply and answers on the retry', async () => {
+    // 401 is not retried automatically, so the first call fails the turn
+    const { t, send } = await renderApp({ failures: new Map([[1, { kind: 401, midStream: false }]]) });
+    send('Hello');
+
+    expect(await screen.findByText(t('error.auth'))).toBeTruthy();
+    fireEvent.click(screen.getByText(t('chat.retryFailed')));
+
+    expect(await screen.findByText('Hi there!')).toBeTruthy();
+    expect(screen.queryByText(t('error.auth'))).toBeNull();
+  });
+
+  it('keeps the part of a reply that arrived before Stop', async () => {
+    const { t, send } = await renderApp({ chunkDelayMs: 50 });
+    send('Tell a story');
+
+    await screen.findByText(/Once upon/);
+    fireEvent.click(screen.getByTitle(t('composer.stop')));
+
+    // The send button comes back once the reply has settled
+    await vi.waitFor(() => expect(screen.queryByTitle(t('composer.stop'))).toBeNull());
+    const partial = screen.getByText(/Once upon/).textContent!;
+    expect(partial).not.toContain('fox.');
+    await act(() => new Promise(resolve => setTimeout(resolve, 200)));
+    expect(screen.getByText(/Once upon/).textContent).toBe(partial);
+  });
+
+  it('counts injected failures from the latest configuration', async () => {
+    const { t, send, fixtures } = await renderApp();
+    send('Hello');
+    await screen.findByText('Hi there!');
+
+    // Reconfiguring starts the call count over, so the next send is call 1 again
+    fixtures.setFixtureConfig({ mode: 'replay', latencyMs: 0, chunkDelayMs: 0, failures: new Map([[1, { kind: 'blocked', midStream: false }]]) });
+    send('Hello');
+
+    expect(await screen.findByText(new RegExp(t('error.safety')))).toBeTruthy();
+    // Safety blocks need a new prompt, so no retry is offered
+    expect(screen.queryByText(t('chat.retryFailed'))).toBeNull();
+  });
+});
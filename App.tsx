@@ -1,243 +1,717 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, Role, ChatState, ModelId, ModelInfo } from './types';
-import { sendMessageToGemini } from './services/geminiService';
-import { ChatMessage } from './components/ChatMessage';
+import React, { useState, useRef, useEffect, useMemo, useCallback, useSyncExternalStore } from 'react';
+import { Attachment, Message, Role, ModelId, Conversation, PromptTemplate, ThinkingPreset } from './types';
+import { ACCENTS, DEFAULT_PERSONA_ID } from './constants';
+import { ChatMessage, pruneKeptState } from './components/ChatMessage';
 import { TypingIndicator } from './components/TypingIndicator';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { MemorySummary } from './components/MemorySummary';
+import { ExportDialog } from './components/ExportDialog';
+import { PersonaEditor } from './components/PersonaEditor';
+import { ToolSettings } from './components/ToolSettings';
+import { AttachmentChips } from './components/AttachmentChips';
+import { ArtGallery } from './components/ArtGallery';
+import { UsageDashboard } from './components/UsageDashboard';
+import { KnowledgeBasePanel } from './components/KnowledgeBasePanel';
+import { SearchPanel, SearchQuery } from './components/SearchPanel';
+import { ArtSettings, ArtStudioBar } from './components/ArtStudioBar';
+import { ThinkingBar } from './components/ThinkingBar';
+import { CompareBar } from './components/CompareBar';
+import { ComparePanel } from './components/ComparePanel';
+import { SlashCommandMenu } from './components/SlashCommandMenu';
+import { TemplateForm } from './components/TemplateForm';
+import { TemplateManager } from './components/TemplateManager';
+import { VirtualList, VirtualListHandle } from './components/VirtualList';
+import { getPersona, hasPersona, listPersonas, subscribePersonas } from './services/personaStore';
+import { listTemplates, subscribeTemplates } from './services/templateStore';
+import { listConversations, saveConversation, deleteConversation } from './services/conversationStore';
+import { selectContextWindow } from './services/contextWindow';
+import { createChatEngine } from './services/chatEngine';
+import { SearchDocument, createSearchIndex } from './services/searchIndex';
+import { loadKnowledge } from './services/knowledgeBase';
+import { storeDataUrl, sweepBlobs } from './services/blobStore';
+import { getActivePath, getPendingReplies, getSiblings } from './utils/messageTree';
+import { ACCEPTED_FILES, MAX_ATTACHMENTS, imageAttachment, readAttachment } from './utils/attachments';
+import { GalleryItem } from './utils/artGallery';
+import { BuiltinCommand, SlashItem, findPersona, getSlashItems, isBuiltinCommand, parseSlashCommand } from './utils/templates';
+import { VoiceControls } from './components/VoiceControls';
+import { VoiceSettingsDialog } from './components/VoiceSettingsDialog';
+import { enqueueSpeech, getVoiceSettings } from './services/speech';
+import { LOCALES, formatNumber, getLocale, setLocale, subscribeLocale, t } from './services/i18n';
 
-const MODELS: ModelInfo[] = [
-  {
-    id: 'standard',
-    name: 'NikiViti',
-    description: 'Быстрое общение и поиск ответов',
-    features: ['Моментальный отклик', 'Общая эрудиция'],
-    geminiModel: 'gemini-3-flash-preview'
+// Files queued in the composer, which may refer to stored blobs, e.g. an image queued for editing
+const composerFiles: { current: Attachment[] } = { current: [] };
+
+const engine = createChatEngine({
+  storage: { list: listConversations, save: saveConversation, delete: deleteConversation },
+  storeFile: storeDataUrl,
+  releaseFiles: () => {
+    const live = new Set(engine.getState().conversations.flatMap(c => c.messages.map(m => m.id)));
+    pruneKeptState(id => live.has(id));
+    const pendingUrls = () => composerFiles.current.flatMap(a => (a.dataUrl ? [a.dataUrl] : []));
+    sweepBlobs(() => engine.getState().conversations, pendingUrls).catch(err => console.error("Solaris Memory Error:", err));
   },
-  {
-    id: 'pro',
-    name: 'NikiViti 2.0',
-    description: 'Эксперт в коде и аналитике',
-    features: ['Deep Coding', 'Сложная логика'],
-    geminiModel: 'gemini-3-pro-preview'
+  onReply: (message) => {
+    if (message.text && getVoiceSettings().handsFree) enqueueSpeech(message.id, message.text);
   },
-  {
-    id: 'eco',
-    name: 'NikiViti Art',
-    description: 'Визуальное воображение',
-    features: ['Генерация дизайна', 'Art-промпты'],
-    geminiModel: 'gemini-2.5-flash-image'
-  }
-];
+});
+
+// Kept current on every change, so opening the search panel never has to index the whole history
+const searchIndex = createSearchIndex();
+engine.subscribe(() => searchIndex.sync(engine.getState().conversations));
+
+// Distance from the bottom within which the chat keeps following new content
+const PIN_THRESHOLD_PX = 80;
+
+const isShown = (msg: Message) => !msg.isStreaming || !!(msg.text || msg.reasoning || msg.imageUrl || msg.toolSteps?.length);
 
 const App: React.FC = () => {
-  const [state, setState] = useState<ChatState>({
-    messages: [
-      {
-        id: 'init',
-        role: Role.MODEL,
-        text: 'Система NikiViti Solaris Spectrum v2.0 активна. Все модули памяти включены. Я запоминаю каждое ваше слово для максимально точного контекста. Чем могу помочь?',
-        timestamp: new Date(),
-      },
-    ],
-    isLoading: false,
-    error: null,
-    selectedModel: 'pro', // Default to 2.0 for coding focus
-  });
+  const state = useSyncExternalStore(engine.subscribe, engine.getState);
 
   const [input, setInput] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isKnowledgeOpen, setIsKnowledgeOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>({ text: '' });
+  // Message opened from a search result, with the terms to mark in it
+  const [revealed, setRevealed] = useState<{ messageId: string; pattern: RegExp | null } | null>(null);
+  const [isVoiceSettingsOpen, setIsVoiceSettingsOpen] = useState(false);
+  const [artSettings, setArtSettings] = useState<ArtSettings>({ aspectRatio: '1:1', style: '', variations: 1 });
+  const [thinking, setThinking] = useState<ThinkingPreset | undefined>();
+  // Personas the next prompt is sent to side by side; null when compare mode is off
+  const [comparedIds, setComparedIds] = useState<ModelId[] | null>(null);
+  const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState(false);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  // Template picked from the slash menu, waiting for its variables
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const [slashIndex, setSlashIndex] = useState(0);
+  // Escape hides the slash menu until the input changes again
+  const [isSlashDismissed, setIsSlashDismissed] = useState(false);
+  const [isToolSettingsOpen, setIsToolSettingsOpen] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<VirtualListHandle>(null);
+  // Whether the chat follows new content; cleared when the user scrolls up
+  const isPinnedRef = useRef(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const activeConversation = state.conversations.find(c => c.id === state.activeConversationId);
+  const messages = useMemo(() => (activeConversation ? getActivePath(activeConversation) : []), [activeConversation]);
+  const pendingReplies = useMemo(() => (activeConversation ? getPendingReplies(activeConversation) : []), [activeConversation]);
+  const personas = useSyncExternalStore(subscribePersonas, listPersonas);
+  const templates = useSyncExternalStore(subscribeTemplates, listTemplates);
+  const slashItems = useMemo(
+    () => (isSlashDismissed || activeTemplate ? [] : getSlashItems(input, templates, personas)),
+    [input, templates, personas, isSlashDismissed, activeTemplate]
+  );
+  // Components read the catalog directly, so the whole tree re-renders from here on a switch
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  const selectedModel: ModelId = activeConversation?.selectedModel ?? DEFAULT_PERSONA_ID;
+  const activePersona = useMemo(() => getPersona(selectedModel), [selectedModel, personas]);
+  const isActiveLoading = state.isLoading && messages.some(m => m.isStreaming);
+  const contextWindow = useMemo(
+    () => selectContextWindow(messages, selectedModel, activeConversation?.summary),
+    [messages, selectedModel, activeConversation?.summary]
+  );
+  const inMemoryIds = useMemo(() => new Set(contextWindow.inMemory.map(m => m.id)), [contextWindow]);
+  // Art and thinking settings travel with every turn; the engine ignores whichever the persona has no use for
+  const promptOptions = useMemo(() => ({
+    art: { style: artSettings.style || undefined, aspectRatio: artSettings.aspectRatio },
+    variations: artSettings.variations,
+    thinking,
+  }), [artSettings, thinking]);
+
   useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
-    }
-  }, [state.messages, state.isLoading]);
-
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => setSelectedImage(reader.result as string);
-      reader.readAsDataURL(file);
+    engine.load();
+    loadKnowledge();
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    composerFiles.current = attachments;
+  }, [attachments]);
+
+  // Sticks to the bottom as messages arrive, stream in or get measured, unless the user has scrolled up
+  useEffect(() => {
+    const container = scrollRef.current;
+    const content = contentRef.current;
+    if (!container || !content) return;
+    const handleScroll = () => {
+      isPinnedRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < PIN_THRESHOLD_PX;
+    };
+    const observer = new ResizeObserver(() => {
+      if (isPinnedRef.current) container.scrollTop = container.scrollHeight;
+    });
+    observer.observe(content);
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      observer.disconnect();
+      container.removeEventListener('scroll', handleScroll);
+    };
+  }, []);
+
+  // Another channel opens at its latest message
+  useEffect(() => {
+    isPinnedRef.current = true;
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [state.activeConversationId]);
+
+  // Runs after the effect above, so a message revealed in another channel wins
+  useEffect(() => {
+    if (revealed) listRef.current?.scrollToKey(revealed.messageId);
+  }, [revealed]);
+
+  const handleImportConversation = async (file: File) => engine.importConversation(await file.text());
+
+  /** Reads picked, dropped or pasted files into the composer; rejected files are reported in the error banner. */
+  const addFiles = async (files: File[]) => {
+    const accepted: Attachment[] = [];
+    const problems: string[] = [];
+    for (const file of files.slice(0, Math.max(0, MAX_ATTACHMENTS - attachments.length))) {
+      try {
+        accepted.push(await readAttachment(file));
+      } catch (err) {
+        console.error("Solaris Attachment Error:", err);
+        problems.push(err instanceof Error ? err.message : t('attachments.readFailed', { name: file.name }));
+      }
     }
+    if (files.length > MAX_ATTACHMENTS - attachments.length) problems.push(t('attachments.tooMany', { max: MAX_ATTACHMENTS }));
+    setAttachments(prev => [...prev, ...accepted].slice(0, MAX_ATTACHMENTS));
+    if (problems.length) engine.setError(problems.join(' '));
   };
 
-  const handleSendMessage = useCallback(async (e: React.FormEvent) => {
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addFiles(Array.from(e.target.files));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files as FileList);
+    if (!files.length) return;
     e.preventDefault();
-    if ((!input.trim() && !selectedImage) || state.isLoading) return;
-
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: Role.USER,
-      text: input || (selectedImage ? "[Визуальный запрос]" : ""),
-      inputImageUrl: selectedImage || undefined,
-      timestamp: new Date(),
-    };
+    addFiles(files);
+  };
 
-    const currentInput = input;
-    const currentImg = selectedImage;
-    const currentModel = state.selectedModel;
-    const historySnapshot = [...state.messages];
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!state.isLoading) addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  /** Sends `text` with the queued attachments as a new prompt on the active branch, or to each compared persona. */
+  const sendPrompt = (text: string) => {
+    if ((!text.trim() && !attachments.length) || state.isLoading || !activeConversation) return;
+    const compared = comparedIds?.filter(hasPersona);
+    if (compared && compared.length < 2) {
+      engine.setError(t('compare.tooFew'));
+      return;
+    }
     setInput('');
-    setSelectedImage(null);
-    setState(prev => ({
-      ...prev,
-      messages: [...prev.messages, userMessage],
-      isLoading: true,
-      error: null,
-    }));
-
-    try {
-      // Memory is handled by passing historySnapshot
-      const result = await sendMessageToGemini(historySnapshot, currentInput, currentModel, currentImg || undefined);
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: Role.MODEL,
-        text: result.text,
-        imageUrl: result.imageUrl,
-        timestamp: new Date(),
-      };
-
-      setState(prev => ({ ...prev, messages: [...prev.messages, aiMessage], isLoading: false }));
-    } catch (err) {
-      setState(prev => ({ ...prev, isLoading: false, error: err instanceof Error ? err.message : 'Ошибка связи с ядром Solaris.' }));
+    setAttachments([]);
+    isPinnedRef.current = true;
+    if (compared) engine.comparePrompt(text, attachments, compared, promptOptions);
+    else engine.sendPrompt(text, attachments, promptOptions);
+  };
+
+  const toggleCompare = () => setComparedIds(ids => (ids ? null : [selectedModel]));
+
+  /** Sends a failed code run back as a new prompt, leaving the composer and its attachments alone. */
+  const sendFixRequest = useCallback((prompt: string) => {
+    isPinnedRef.current = true;
+    engine.sendPrompt(prompt, [], promptOptions);
+  }, [promptOptions]);
+
+  // Handlers shared by every message row, so memoized rows are not re-rendered for new functions
+  const editMessage = useCallback((message: Message, text: string) => engine.editMessage(message, text, promptOptions), [promptOptions]);
+  const regenerate = useCallback((message: Message) => engine.regenerate(message, promptOptions), [promptOptions]);
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setSlashIndex(0);
+    setIsSlashDismissed(false);
+  };
+
+  /** Answers the last prompt again: the failed one if the last send failed, otherwise as a new sibling reply. */
+  const retryLast = () => {
+    const lastReply = [...messages].reverse().find(m => m.role === Role.MODEL && m.parentId);
+    if (state.failedTurn?.conversationId === activeConversation?.id) engine.retryFailed(promptOptions);
+    else if (lastReply) engine.regenerate(lastReply, promptOptions);
+  };
+
+  const runCommand = (command: BuiltinCommand, argument: string) => {
+    switch (command) {
+      case 'model': {
+        // Without a persona the menu lists them
+        if (!argument) {
+          handleInputChange('/model ');
+          return;
+        }
+        const persona = findPersona(personas, argument);
+        if (persona) engine.selectModel(persona.id);
+        else engine.setError(t('slash.unknownPersona', { name: argument }));
+        break;
+      }
+      case 'clear':
+        engine.clearConversation();
+        break;
+      case 'export':
+        if (activeConversation) setIsExportOpen(true);
+        break;
+      case 'retry':
+        retryLast();
+        break;
+      case 'templates':
+        setIsTemplateManagerOpen(true);
+        break;
+    }
+    handleInputChange('');
+  };
+
+  const pickSlashItem = (item: SlashItem) => {
+    if (item.kind === 'command') runCommand(item.command, '');
+    else if (item.kind === 'persona') runCommand('model', item.persona.id);
+    else {
+      setActiveTemplate(item.template);
+      handleInputChange('');
+    }
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!slashItems.length) return;
+    const index = Math.min(slashIndex, slashItems.length - 1);
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSlashIndex((index + (e.key === 'ArrowDown' ? 1 : -1) + slashItems.length) % slashItems.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pickSlashItem(slashItems[index]);
+    } else if (e.key === 'Escape') {
+      setIsSlashDismissed(true);
     }
-  }, [input, selectedImage, state.messages, state.isLoading, state.selectedModel]);
+  };
+
+  /** Sends the filled-in template, switching to its persona first. */
+  const submitTemplate = (text: string) => {
+    if (activeTemplate?.persona && hasPersona(activeTemplate.persona)) engine.selectModel(activeTemplate.persona);
+    setActiveTemplate(null);
+    sendPrompt(text);
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Commands typed in full with the menu dismissed; unknown names are sent as ordinary text
+    const slash = parseSlashCommand(input);
+    const template = slash && templates.find(item => item.command.toLowerCase() === slash.name);
+    if (slash && isBuiltinCommand(slash.name)) runCommand(slash.name, slash.argument);
+    else if (template) pickSlashItem({ kind: 'template', template });
+    else sendPrompt(input);
+  };
+
+  /** Queues a generated image as the source of the next art prompt, switching to an image persona if needed. */
+  const queueImageEdit = (conversation: Conversation, message: Message) => {
+    if (!message.imageUrl) return;
+    const artPersona = getPersona(conversation.selectedModel).imageOutput ? undefined : personas.find(p => p.imageOutput);
+    if (artPersona) engine.selectModel(artPersona.id, conversation.id);
+    setAttachments([{ ...imageAttachment(message.imageUrl, 'source.png'), sourceMessageId: message.id }]);
+  };
 
-  const getModelColor = (id: ModelId) => {
-    switch(id) {
-      case 'pro': return 'from-teal-400 to-emerald-600';
-      case 'eco': return 'from-cyan-400 to-blue-500';
-      default: return 'from-emerald-500 to-green-600';
+  const handleReusePrompt = (item: GalleryItem) => {
+    engine.selectConversation(item.conversation.id);
+    setInput(item.prompt);
+    if (item.message.art) {
+      setArtSettings(prev => ({ ...prev, aspectRatio: item.message.art?.aspectRatio ?? prev.aspectRatio, style: item.message.art?.style ?? '' }));
     }
+    setIsGalleryOpen(false);
+  };
+
+  const editMessageImage = useCallback((message: Message) => {
+    const conversation = engine.getActiveConversation();
+    if (conversation) queueImageEdit(conversation, message);
+  }, [personas]);
+
+  const handleEditGalleryImage = (item: GalleryItem) => {
+    engine.selectConversation(item.conversation.id);
+    queueImageEdit(item.conversation, item.message);
+    setIsGalleryOpen(false);
+  };
+
+  const handleOpenSearchResult = (result: SearchDocument, pattern: RegExp | null) => {
+    engine.revealMessage(result.conversationId, result.message.id);
+    setRevealed({ messageId: result.message.id, pattern });
+    setIsSearchOpen(false);
   };
 
+  // Plain numbers rather than an object, so rows whose position did not change keep equal props
+  const getBranchPosition = (message: Message) => {
+    const siblings = getSiblings(activeConversation?.messages ?? [], message);
+    return siblings.length > 1 ? { branchIndex: siblings.indexOf(message), branchCount: siblings.length } : {};
+  };
+
+  const renderMessage = (msg: Message) => (
+    <>
+      <ChatMessage
+        message={msg}
+        accent={msg.role === Role.MODEL ? getPersona(msg.persona ?? selectedModel).accentColor : undefined}
+        inMemory={contextWindow.budget > 0 && !msg.isStreaming ? inMemoryIds.has(msg.id) : undefined}
+        {...getBranchPosition(msg)}
+        onSwitchBranch={engine.switchBranch}
+        onEdit={msg.role === Role.USER ? editMessage : undefined}
+        onRegenerate={msg.role === Role.MODEL && msg.parentId && !msg.isStreaming ? regenerate : undefined}
+        onEditImage={msg.imageUrl && !msg.isStreaming ? editMessageImage : undefined}
+        onFixRequest={msg.role === Role.MODEL && !msg.isStreaming ? sendFixRequest : undefined}
+        isBusy={state.isLoading}
+        highlight={revealed?.messageId === msg.id ? revealed.pattern : undefined}
+      />
+      {contextWindow.summary?.throughMessageId === msg.id && <MemorySummary summary={contextWindow.summary} />}
+    </>
+  );
+
+  const getModelColor = (id: ModelId) => ACCENTS[getPersona(id).accentColor].gradient;
+
   return (
-    <div className="flex flex-col h-full w-full overflow-hidden">
-      {/* OS Header */}
-      <header className="px-6 py-4 flex items-center justify-between border-b border-white/5 bg-black/40 z-10 shrink-0">
-        <div className="flex items-center space-x-4">
-          <div className={`w-12 h-12 bg-gradient-to-br ${getModelColor(state.selectedModel)} rounded-2xl flex items-center justify-center text-white font-black text-xl shadow-lg shadow-emerald-500/10 transition-all duration-500`}>
-            {state.selectedModel === 'pro' ? '2.0' : state.selectedModel === 'eco' ? 'A' : 'N'}
+    <div className="flex h-full w-full overflow-hidden">
+      {isSidebarOpen && (
+        <ConversationSidebar
+          conversations={state.conversations}
+          activeId={state.activeConversationId}
+          onSelect={engine.selectConversation}
+          onCreate={engine.createConversation}
+          onRename={engine.renameConversation}
+          onDelete={engine.deleteConversation}
+          onTogglePin={engine.togglePin}
+          onImport={handleImportConversation}
+        />
+      )}
+      <div
+        className="relative flex flex-col flex-1 min-w-0 h-full overflow-hidden"
+        onDragOver={handleDragOver}
+        onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDragging(false); }}
+        onDrop={handleDrop}
+      >
+        {isDragging && (
+          <div className="pointer-events-none absolute inset-4 z-30 flex items-center justify-center rounded-[2rem] border-2 border-dashed border-teal-400/50 bg-teal-500/5 text-[11px] font-black uppercase tracking-[0.3em] text-teal-300 backdrop-blur-sm">
+            {t('chat.dropFiles')}
           </div>
-          <div>
-            <h1 className="text-xl font-black text-white tracking-tighter leading-tight flex items-center gap-2">
-              NikiViti <span className="text-teal-400">Solaris</span>
-            </h1>
-            <div className="flex items-center space-x-1.5 mt-0.5">
-              <span className="w-1.5 h-1.5 bg-teal-500 rounded-full animate-pulse shadow-[0_0_5px_#14b8a6]"></span>
-              <span className="text-[10px] text-white/40 font-black uppercase tracking-widest">Spectrum Interface Core</span>
+        )}
+        {/* OS Header */}
+        <header className="px-6 py-4 flex items-center justify-between border-b border-white/5 bg-black/40 z-10 shrink-0">
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setIsSidebarOpen(open => !open)}
+              className="p-2.5 rounded-xl text-white/30 hover:text-teal-300 hover:bg-white/5 transition-all"
+              title={t('header.channels')}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
+            </button>
+            <div className={`w-12 h-12 bg-gradient-to-br ${getModelColor(selectedModel)} rounded-2xl flex items-center justify-center text-white font-black text-xl shadow-lg shadow-emerald-500/10 transition-all duration-500`}>
+              {activePersona.badge || activePersona.name.charAt(0).toUpperCase()}
             </div>
-          </div>
-        </div>
-        
-        <div className="hidden md:flex items-center gap-6">
-           <div className="flex flex-col items-end">
-              <span className="text-[8px] font-black text-white/20 uppercase tracking-[0.2em]">Processing Unit</span>
-              <span className="text-[10px] font-bold text-teal-500/80">{MODELS.find(m => m.id === state.selectedModel)?.name}</span>
-           </div>
-        </div>
-      </header>
-
-      {/* Neural Link Area */}
-      <main ref={scrollRef} className="flex-1 overflow-y-auto px-4 py-6 md:px-16 md:py-10">
-        <div className="max-w-4xl mx-auto space-y-4">
-          {state.messages.map((msg) => (
-            <ChatMessage key={msg.id} message={msg} modelId={msg.role === Role.MODEL ? state.selectedModel : undefined} />
-          ))}
-          {state.isLoading && <TypingIndicator isEco={state.selectedModel === 'eco'} />}
-          {state.error && (
-            <div className="flex justify-center p-6">
-              <div className="bg-rose-500/10 border border-rose-500/20 text-rose-400 px-10 py-4 rounded-3xl text-[10px] font-black uppercase tracking-[0.2em] shadow-xl backdrop-blur-md">
-                {state.error}
+            <div>
+              <h1 className="text-xl font-black text-white tracking-tighter leading-tight flex items-center gap-2">
+                NikiViti <span className="text-teal-400">Solaris</span>
+              </h1>
+              <div className="flex items-center space-x-1.5 mt-0.5">
+                <span className="w-1.5 h-1.5 bg-teal-500 rounded-full animate-pulse shadow-[0_0_5px_#14b8a6]"></span>
+                <span className="text-[10px] text-white/40 font-black uppercase tracking-widest">Spectrum Interface Core</span>
               </div>
             </div>
-          )}
-        </div>
-      </main>
-
-      {/* Neural Input Interface */}
-      <footer className="bg-black/60 border-t border-white/5 p-4 md:p-8 shrink-0 relative backdrop-blur-xl">
-        <div className="max-w-4xl mx-auto">
-            {/* Model Toggle Switches */}
-            <div className="flex items-center gap-3 mb-6">
-                {MODELS.map((model) => (
-                    <button
-                        key={model.id}
-                        onClick={() => setState(prev => ({ ...prev, selectedModel: model.id }))}
-                        className={`flex-1 py-3 px-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all duration-300 relative overflow-hidden group ${
-                            state.selectedModel === model.id
-                            ? 'bg-teal-500/10 border-teal-500/40 text-teal-300 shadow-teal-500/10 shadow-lg translate-y-[-2px]'
-                            : 'bg-transparent border-white/5 text-white/20 hover:text-white/50 hover:bg-white/5'
-                        }`}
-                    >
-                        <div className={`absolute top-0 left-0 h-[2px] w-full bg-gradient-to-r ${getModelColor(model.id)} opacity-0 group-hover:opacity-100 transition-opacity`}></div>
-                        {model.name}
-                    </button>
-                ))}
-            </div>
+          </div>
+          
+          <div className="hidden md:flex items-center gap-6">
+             <div className="flex rounded-xl border border-white/5 overflow-hidden" title={t('header.language')}>
+               {LOCALES.map(l => (
+                 <button
+                   key={l.id}
+                   onClick={() => setLocale(l.id)}
+                   className={`px-2.5 py-2 text-[9px] font-black tracking-[0.2em] transition-all ${
+                     locale === l.id ? 'bg-teal-500/10 text-teal-300' : 'text-white/30 hover:text-white/60'
+                   }`}
+                 >
+                   {l.label}
+                 </button>
+               ))}
+             </div>
+             <button
+               onClick={() => setIsExportOpen(true)}
+               disabled={!activeConversation}
+               className="px-3 py-2 rounded-xl border border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-teal-300 hover:border-teal-500/30 transition-all"
+             >
+               {t('header.export')}
+             </button>
+             <button
+               onClick={() => setIsSearchOpen(true)}
+               className="px-3 py-2 rounded-xl border border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-cyan-300 hover:border-cyan-500/30 transition-all"
+             >
+               {t('header.search')}
+             </button>
+             <button
+               onClick={() => setIsGalleryOpen(true)}
+               className="px-3 py-2 rounded-xl border border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-cyan-300 hover:border-cyan-500/30 transition-all"
+             >
+               {t('header.gallery')}
+             </button>
+             <button
+               onClick={() => setIsUsageOpen(true)}
+               className="px-3 py-2 rounded-xl border border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-cyan-300 hover:border-cyan-500/30 transition-all"
+             >
+               {t('header.usage')}
+             </button>
+             <button
+               onClick={() => setIsKnowledgeOpen(true)}
+               className="px-3 py-2 rounded-xl border border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/30 hover:text-teal-300 hover:border-teal-500/30 transition-all"
+             >
+               {t('header.knowledge')}
+             </button>
+             <div className="flex flex-col items-end">
+                <span className="text-[8px] font-black text-white/20 uppercase tracking-[0.2em]">{t('header.persona')}</span>
+                <span className="text-[10px] font-bold text-teal-500/80">{activePersona.name}</span>
+             </div>
+             {contextWindow.budget > 0 && (
+               <div className="flex flex-col items-end">
+                  <span className="text-[8px] font-black text-white/20 uppercase tracking-[0.2em]">{t('header.memory')}</span>
+                  <span className="text-[10px] font-bold text-teal-500/80">
+                    {formatNumber(contextWindow.usedTokens)} / {formatNumber(contextWindow.budget)}
+                  </span>
+               </div>
+             )}
+          </div>
+        </header>
 
-            {/* Main Command Input */}
-            <div className="relative">
-                {selectedImage && (
-                    <div className="absolute -top-32 left-0 bg-slate-900/95 backdrop-blur-3xl border border-teal-500/30 p-2.5 rounded-2xl flex items-center gap-4 shadow-2xl z-20 animate-message">
-                        <img src={selectedImage} alt="Preview" className="w-20 h-20 object-cover rounded-xl border border-white/10" />
-                        <button onClick={() => setSelectedImage(null)} className="p-3 text-rose-400 hover:text-rose-200 hover:bg-rose-500/10 rounded-full transition-all">
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                        </button>
-                    </div>
-                )}
-                <form onSubmit={handleSendMessage} className="flex items-center gap-4">
-                    <input type="file" ref={fileInputRef} onChange={handleImageUpload} className="hidden" accept="image/*" />
+        {/* Neural Link Area */}
+        <main ref={scrollRef} className="flex-1 overflow-y-auto px-4 py-6 md:px-16 md:py-10">
+          <div ref={contentRef} className="max-w-4xl mx-auto space-y-4">
+            <VirtualList
+              ref={listRef}
+              items={messages.filter(isShown)}
+              getKey={(msg) => msg.id}
+              renderItem={renderMessage}
+              scrollRef={scrollRef}
+              gap={16}
+            />
+            {pendingReplies.length > 0 && <ComparePanel replies={pendingReplies} onPick={engine.pickReply} />}
+            {isActiveLoading && !messages.some(m => m.isStreaming && isShown(m)) && (
+              <TypingIndicator isEco={!!activePersona.imageOutput} />
+            )}
+            {state.error && (
+              <div className="flex justify-center p-6">
+                <div className="bg-rose-500/10 border border-rose-500/20 text-rose-400 px-10 py-4 rounded-3xl text-[10px] font-black uppercase tracking-[0.2em] shadow-xl backdrop-blur-md flex flex-col items-center gap-3 text-center">
+                  <span>{state.error}</span>
+                  {state.failedTurn?.conversationId === activeConversation?.id && !state.isLoading && (
                     <button
-                        type="button"
-                        onClick={() => fileInputRef.current?.click()}
-                        className="p-4.5 rounded-2xl bg-white/5 border border-white/10 text-white/40 hover:text-teal-400 hover:bg-teal-500/10 hover:border-teal-500/30 transition-all duration-300 active:scale-90 shadow-sm"
-                        title="Link Visual Asset"
+                      onClick={() => engine.retryFailed(promptOptions)}
+                      className="px-4 py-2 rounded-xl border border-rose-500/30 text-rose-300 hover:bg-rose-500/20 hover:text-white transition-all"
                     >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                      {t('chat.retryFailed')}
                     </button>
-                    <input
-                        type="text"
-                        value={input}
-                        onChange={(e) => setInput(e.target.value)}
-                        disabled={state.isLoading}
-                        placeholder={state.selectedModel === 'eco' ? "Describe the vision..." : "Input command to Solaris..."}
-                        className="flex-1 bg-white/5 border border-white/10 rounded-2xl py-4.5 px-8 outline-none text-white focus:border-teal-500/50 focus:bg-white/10 transition-all duration-500 placeholder-white/5 font-medium shadow-inner"
-                    />
-                    <button
-                        type="submit"
-                        disabled={(!input.trim() && !selectedImage) || state.isLoading}
-                        className={`p-4.5 rounded-2xl transition-all duration-500 flex items-center justify-center min-w-[64px] ${
-                            (!input.trim() && !selectedImage) || state.isLoading
-                            ? 'bg-white/5 text-white/10 cursor-not-allowed opacity-50'
-                            : `bg-gradient-to-r ${getModelColor(state.selectedModel)} text-white shadow-[0_0_20px_rgba(20,184,166,0.2)] hover:scale-105 active:scale-95`
-                        }`}
-                    >
-                        {state.isLoading ? (
-                            <div className="w-6 h-6 border-3 border-white/20 border-t-white rounded-full animate-spin"></div>
-                        ) : (
-                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
-                        )}
-                    </button>
-                </form>
-            </div>
-            <div className="flex justify-between items-center mt-8 px-1">
-                <p className="text-[9px] text-white/10 font-black uppercase tracking-[0.6em] select-none">
-                    Solaris Node Interface • v2.0.4
-                </p>
-                <div className="flex gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 opacity-20"></div>
-                    <div className="w-1.5 h-1.5 rounded-full bg-teal-500 opacity-20"></div>
-                    <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 opacity-20"></div>
+                  )}
                 </div>
-            </div>
-        </div>
-      </footer>
+              </div>
+            )}
+          </div>
+        </main>
+
+        {/* Neural Input Interface */}
+        <footer className="bg-black/60 border-t border-white/5 p-4 md:p-8 shrink-0 relative backdrop-blur-xl">
+          <div className="max-w-4xl mx-auto">
+              {/* Model Toggle Switches */}
+              <div className="flex flex-wrap items-center gap-3 mb-6">
+                  {personas.map((model) => (
+                      <button
+                          key={model.id}
+                          onClick={() => engine.selectModel(model.id)}
+                          className={`flex-1 py-3 px-4 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all duration-300 relative overflow-hidden group ${
+                              selectedModel === model.id
+                              ? 'bg-teal-500/10 border-teal-500/40 text-teal-300 shadow-teal-500/10 shadow-lg translate-y-[-2px]'
+                              : 'bg-transparent border-white/5 text-white/20 hover:text-white/50 hover:bg-white/5'
+                          }`}
+                      >
+                          <div className={`absolute top-0 left-0 h-[2px] w-full bg-gradient-to-r ${getModelColor(model.id)} opacity-0 group-hover:opacity-100 transition-opacity`}></div>
+                          {model.name}
+                      </button>
+                  ))}
+                  <button
+                      onClick={() => setIsPersonaEditorOpen(true)}
+                      className="py-3 px-4 rounded-2xl border border-white/5 text-white/20 hover:text-teal-300 hover:bg-white/5 transition-all"
+                      title={t('composer.personaEditor')}
+                  >
+                      ⚙
+                  </button>
+                  <button
+                      onClick={() => setIsToolSettingsOpen(true)}
+                      className={`py-3 px-4 rounded-2xl border border-white/5 hover:text-teal-300 hover:bg-white/5 transition-all ${activePersona.toolsEnabled ? 'text-teal-400/60' : 'text-white/20'}`}
+                      title={t('composer.tools')}
+                  >
+                      ƒ
+                  </button>
+                  <button
+                      onClick={() => setIsTemplateManagerOpen(true)}
+                      className="py-3 px-4 rounded-2xl border border-white/5 text-white/20 hover:text-teal-300 hover:bg-white/5 transition-all font-mono"
+                      title={t('composer.templates')}
+                  >
+                      /
+                  </button>
+                  <button
+                      onClick={toggleCompare}
+                      className={`py-3 px-4 rounded-2xl border transition-all ${comparedIds ? 'border-amber-500/40 bg-amber-500/10 text-amber-300' : 'border-white/5 text-white/20 hover:text-teal-300 hover:bg-white/5'}`}
+                      title={t('composer.compare')}
+                  >
+                      ⇆
+                  </button>
+                  <button
+                      onClick={() => setIsVoiceSettingsOpen(true)}
+                      className="py-3 px-4 rounded-2xl border border-white/5 text-white/20 hover:text-teal-300 hover:bg-white/5 transition-all"
+                      title={t('composer.voice')}
+                  >
+                      ♫
+                  </button>
+              </div>
+
+              {comparedIds && (
+                  <CompareBar personas={personas} selected={comparedIds} onChange={setComparedIds} disabled={state.isLoading} />
+              )}
+              {activePersona.imageOutput ? (
+                  <ArtStudioBar settings={artSettings} onChange={setArtSettings} disabled={state.isLoading} />
+              ) : activePersona.provider !== 'openai' && (
+                  <ThinkingBar preset={thinking} personaBudget={activePersona.thinkingBudget} onChange={setThinking} disabled={state.isLoading} />
+              )}
+
+              {/* Main Command Input */}
+              <div className="relative">
+                  {slashItems.length > 0 && (
+                      <SlashCommandMenu
+                          items={slashItems}
+                          activeIndex={Math.min(slashIndex, slashItems.length - 1)}
+                          onPick={pickSlashItem}
+                          onHover={setSlashIndex}
+                      />
+                  )}
+                  {activeTemplate && (
+                      <TemplateForm
+                          key={activeTemplate.id}
+                          template={activeTemplate}
+                          onSubmit={submitTemplate}
+                          onCancel={() => setActiveTemplate(null)}
+                          disabled={state.isLoading}
+                      />
+                  )}
+                  {attachments.length > 0 && (
+                      <AttachmentChips attachments={attachments} onRemove={(id) => setAttachments(prev => prev.filter(a => a.id !== id))} />
+                  )}
+                  <form onSubmit={handleSendMessage} className="flex items-center gap-4">
+                      <input type="file" ref={fileInputRef} onChange={handleFileInput} className="hidden" accept={ACCEPTED_FILES} multiple />
+                      <button
+                          type="button"
+                          onClick={() => fileInputRef.current?.click()}
+                          className="p-4.5 rounded-2xl bg-white/5 border border-white/10 text-white/40 hover:text-teal-400 hover:bg-teal-500/10 hover:border-teal-500/30 transition-all duration-300 active:scale-90 shadow-sm"
+                          title={t('composer.attach')}
+                      >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                      </button>
+                      <VoiceControls
+                          input={input}
+                          onInputChange={setInput}
+                          onSubmit={sendPrompt}
+                          isBusy={state.isLoading}
+                          onError={engine.setError}
+                      />
+                      <input
+                          type="text"
+                          value={input}
+                          onChange={(e) => handleInputChange(e.target.value)}
+                          onKeyDown={handleInputKeyDown}
+                          onPaste={handlePaste}
+                          disabled={state.isLoading}
+                          placeholder={activePersona.imageOutput ? t('composer.placeholderArt') : t('composer.placeholder')}
+                          className="flex-1 bg-white/5 border border-white/10 rounded-2xl py-4.5 px-8 outline-none text-white focus:border-teal-500/50 focus:bg-white/10 transition-all duration-500 placeholder-white/5 font-medium shadow-inner"
+                      />
+                      {state.isLoading ? (
+                          <button
+                              type="button"
+                              onClick={engine.stop}
+                              className="p-4.5 rounded-2xl transition-all duration-500 flex items-center justify-center min-w-[64px] bg-rose-500/10 border border-rose-500/30 text-rose-300 hover:bg-rose-500/20 active:scale-95"
+                              title={t('composer.stop')}
+                          >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                          </button>
+                      ) : (
+                          <button
+                              type="submit"
+                              disabled={!input.trim() && !attachments.length}
+                              className={`p-4.5 rounded-2xl transition-all duration-500 flex items-center justify-center min-w-[64px] ${
+                                  !input.trim() && !attachments.length
+                                  ? 'bg-white/5 text-white/10 cursor-not-allowed opacity-50'
+                                  : `bg-gradient-to-r ${getModelColor(selectedModel)} text-white shadow-[0_0_20px_rgba(20,184,166,0.2)] hover:scale-105 active:scale-95`
+                              }`}
+                          >
+                              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+                          </button>
+                      )}
+                  </form>
+              </div>
+              <div className="flex justify-between items-center mt-8 px-1">
+                  <p className="text-[9px] text-white/10 font-black uppercase tracking-[0.6em] select-none">
+                      Solaris Node Interface • v2.0.4
+                  </p>
+                  <div className="flex gap-2">
+                      <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 opacity-20"></div>
+                      <div className="w-1.5 h-1.5 rounded-full bg-teal-500 opacity-20"></div>
+                      <div className="w-1.5 h-1.5 rounded-full bg-cyan-500 opacity-20"></div>
+                  </div>
+              </div>
+          </div>
+        </footer>
+      </div>
+      {isExportOpen && activeConversation && (
+        <ExportDialog conversation={activeConversation} messages={messages} onClose={() => setIsExportOpen(false)} />
+      )}
+      {isPersonaEditorOpen && (
+        <PersonaEditor
+          personas={personas}
+          initialId={selectedModel}
+          onSelect={(id) => engine.selectModel(id)}
+          onClose={() => setIsPersonaEditorOpen(false)}
+        />
+      )}
+      {isGalleryOpen && (
+        <ArtGallery
+          conversations={state.conversations}
+          onReusePrompt={handleReusePrompt}
+          onEditImage={handleEditGalleryImage}
+          onClose={() => setIsGalleryOpen(false)}
+        />
+      )}
+      {isSearchOpen && (
+        <SearchPanel
+          index={searchIndex}
+          conversations={state.conversations}
+          personas={personas}
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          onOpen={handleOpenSearchResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+      {isUsageOpen && <UsageDashboard conversations={state.conversations} onClose={() => setIsUsageOpen(false)} />}
+      {isKnowledgeOpen && <KnowledgeBasePanel onClose={() => setIsKnowledgeOpen(false)} />}
+      {isTemplateManagerOpen && <TemplateManager personas={personas} onClose={() => setIsTemplateManagerOpen(false)} />}
+      {isVoiceSettingsOpen && <VoiceSettingsDialog onClose={() => setIsVoiceSettingsOpen(false)} />}
+      {isToolSettingsOpen && (
+        <ToolSettings toolsEnabled={!!activePersona.toolsEnabled} onClose={() => setIsToolSettingsOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,41 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { Attachment } from "../types";
+import { ATTACHMENT_LIMITS, createAttachmentId, formatBytes, getAttachmentKind } from "../utils/attachments";
+import { t } from "../services/i18n";
+
+// Node has no MIME sniffing; text and source files are recognized by extension in getAttachmentKind
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * Reads a file from disk into an `Attachment`, with the same kinds and size limits as the browser.
+ * Images are sent as they are: there is no canvas to downscale them with.
+ */
+export const readAttachmentFile = async (path: string): Promise<Attachment> => {
+  const name = basename(path);
+  const mimeType = MIME_TYPES[extname(path).toLowerCase()] ?? '';
+  const kind = getAttachmentKind(new File([], name, { type: mimeType }));
+  if (!kind) throw new Error(t('attachments.unsupported', { name }));
+
+  let data: Buffer;
+  try {
+    data = await readFile(path);
+  } catch {
+    throw new Error(t('attachments.readFailed', { name }));
+  }
+  if (data.length > ATTACHMENT_LIMITS[kind]) {
+    throw new Error(t('attachments.tooLarge', { name, limit: formatBytes(ATTACHMENT_LIMITS[kind]) }));
+  }
+
+  const attachment = { id: createAttachmentId(), kind, name, size: data.length };
+  if (kind === 'text') return { ...attachment, mimeType: 'text/plain', text: data.toString('utf8') };
+  return { ...attachment, mimeType, dataUrl: `data:${mimeType};base64,${data.toString('base64')}` };
+};
@@ -0,0 +1,249 @@
+import { writeFile } from "node:fs/promises";
+import { createInterface } from "node:readline/promises";
+import { parseArgs } from "node:util";
+import { Attachment, Message, Role, ThinkingPreset, ToolStepStatus } from "../types";
+import { THINKING_BUDGETS } from "../constants";
+import { createChatEngine } from "../services/chatEngine";
+import { addKnowledgeDocument } from "../services/knowledgeBase";
+import { exportFileName, exportToJson } from "../services/conversationExport";
+import { getPersona, hasPersona, listPersonas } from "../services/personaStore";
+import { getToolTitle } from "../services/tools";
+import { Locale, setLocale, t } from "../services/i18n";
+import { setFixtureStore } from "../services/fixtures";
+import { readDataUrl } from "../services/blobStore";
+import { createFileFixtureStore } from "../server/fixtureFiles";
+import { readAttachmentFile } from "./attachments";
+
+// The browser build gets the key under both names through Vite's `define`; here it comes from the shell
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+// CHAT_FIXTURES=record|replay keeps fixtures as files in CHAT_FIXTURES_DIR
+setFixtureStore(createFileFixtureStore());
+
+const { values: args } = parseArgs({
+  options: {
+    prompt: { type: 'string', short: 'p' },
+    model: { type: 'string', short: 'm' },
+    image: { type: 'string', short: 'i', multiple: true },
+    lang: { type: 'string' },
+    thinking: { type: 'string' },
+    knowledge: { type: 'string', short: 'k', multiple: true },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+const lang = args.lang ?? process.env.LANG ?? '';
+setLocale((lang.toLowerCase().startsWith('en') ? 'en' : 'ru') as Locale);
+
+const engine = createChatEngine();
+
+const report = (message: string) => process.stderr.write(`${message}\n`);
+
+// Reasoning preset for every send of the session; undefined keeps each persona's own budget
+let thinking: ThinkingPreset | undefined;
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Generated images cannot be shown in a terminal, so they are written next to where the CLI runs
+const saveImage = async (message: Message) => {
+  const dataUrl = message.imageUrl && await readDataUrl(message.imageUrl);
+  const [, mimeType = 'image/png', data = ''] = dataUrl?.match(/^data:([^;,]+);base64,(.*)$/) ?? [];
+  const path = `nikiviti-${message.id}.${mimeType.split('/')[1].replace('jpeg', 'jpg')}`;
+  await writeFile(path, Buffer.from(data, 'base64'));
+  return path;
+};
+
+/**
+ * Prints the reply as it streams in: text to stdout, tool steps to stderr so piped output
+ * carries the answer only.
+ */
+const streamReplies = () => {
+  let replyId: string | null = null;
+  let printed = '';
+  let printedReasoning = '';
+  const steps = new Map<string, ToolStepStatus>();
+
+  return engine.subscribe(() => {
+    const reply = engine.getMessages().at(-1);
+    if (!reply || reply.role !== Role.MODEL || !reply.isStreaming) return;
+    if (reply.id !== replyId) {
+      replyId = reply.id;
+      printed = '';
+      printedReasoning = '';
+    }
+    // Reasoning goes to stderr as well, ahead of the answer it led to
+    const reasoning = reply.reasoning ?? '';
+    if (reasoning !== printedReasoning && reasoning.startsWith(printedReasoning)) {
+      process.stderr.write(`${printedReasoning ? '' : `[${t('reasoning.title')}]\n`}${reasoning.slice(printedReasoning.length)}`);
+      printedReasoning = reasoning;
+    }
+    if (printedReasoning && !printed && reply.text) process.stderr.write('\n\n');
+    for (const step of reply.toolSteps ?? []) {
+      if (steps.get(step.id) === step.status) continue;
+      steps.set(step.id, step.status);
+      process.stderr.write(`[${getToolTitle(step.name)}: ${t(`tools.${step.status}`)}]\n`);
+    }
+    if (reply.text === printed) return;
+    process.stdout.write(reply.text.startsWith(printed) ? reply.text.slice(printed.length) : `\n${reply.text}`);
+    printed = reply.text;
+  });
+};
+
+/** Sends one prompt and waits for the reply; resolves to whether it completed. */
+const send = async (text: string, attachments: Attachment[]) => {
+  const unsubscribe = streamReplies();
+  const completed = await engine.sendPrompt(text, attachments, { thinking });
+  unsubscribe();
+
+  const reply = engine.getMessages().at(-1);
+  if (reply?.role === Role.MODEL) {
+    if (reply.text) process.stdout.write('\n');
+    if (reply.imageUrl) process.stdout.write(`${t('cli.imageSaved', { path: await saveImage(reply) })}\n`);
+  }
+  const { error } = engine.getState();
+  if (error) report(error);
+  return completed;
+};
+
+const selectModel = (id: string) => {
+  if (!hasPersona(id)) {
+    report(t('cli.unknownModel', { id, ids: listPersonas().map(p => p.id).join(', ') }));
+    return false;
+  }
+  engine.selectModel(id);
+  return true;
+};
+
+const selectThinking = (preset: string) => {
+  if (preset === 'default') thinking = undefined;
+  else if (preset in THINKING_BUDGETS) thinking = preset as ThinkingPreset;
+  else {
+    report(t('cli.unknownThinking', { preset, presets: [...Object.keys(THINKING_BUDGETS), 'default'].join(', ') }));
+    return false;
+  }
+  return true;
+};
+
+const attach = async (paths: string[], attachments: Attachment[]) => {
+  for (const path of paths) {
+    try {
+      attachments.push(await readAttachmentFile(path));
+    } catch (err) {
+      report(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  }
+  return true;
+};
+
+/** `--knowledge`: adds text files to the session's knowledge base. */
+const learn = async (paths: string[]) => {
+  for (const path of paths) {
+    try {
+      const attachment = await readAttachmentFile(path);
+      if (attachment.kind !== 'text') throw new Error(t('knowledge.unsupported', { name: attachment.name }));
+      await addKnowledgeDocument(attachment.name, attachment.text ?? '');
+    } catch (err) {
+      report(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+  }
+  return true;
+};
+
+/** `--prompt`: one reply on stdout; resolves to false on any failure. */
+const runOnce = async (prompt: string) => {
+  const attachments: Attachment[] = [];
+  if (args.model && !selectModel(args.model)) return false;
+  if (args.thinking && !selectThinking(args.thinking)) return false;
+  if (!(await attach(args.image ?? [], attachments))) return false;
+  if (!(await learn(args.knowledge ?? []))) return false;
+  const text = prompt === '-' ? (await readStdin()).trim() : prompt;
+  if (!text && !attachments.length) {
+    report(t('cli.emptyPrompt'));
+    return false;
+  }
+  return send(text, attachments);
+};
+
+const runRepl = async () => {
+  const pending: Attachment[] = [];
+  if (args.model) selectModel(args.model);
+  if (args.thinking) selectThinking(args.thinking);
+  await attach(args.image ?? [], pending);
+  await learn(args.knowledge ?? []);
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  // Ctrl+C stops a reply in progress and only quits when nothing is being generated
+  rl.on('SIGINT', () => (engine.getState().isLoading ? engine.stop() : rl.close()));
+  process.stdout.write(`${t('cli.welcome', { name: getPersona(engine.getActiveConversation()!.selectedModel).name })}\n`);
+
+  rl.setPrompt('> ');
+  rl.prompt();
+  for await (const line of rl) {
+    const [command, ...rest] = line.trim().split(/\s+/);
+    const argument = rest.join(' ');
+    switch (command) {
+      case '':
+        break;
+      case '/help':
+        process.stdout.write(`${t('cli.commands')}\n`);
+        break;
+      case '/exit':
+        rl.close();
+        return;
+      case '/model':
+        if (!argument) process.stdout.write(`${t('cli.model', { name: getPersona(engine.getActiveConversation()!.selectedModel).name })}\n`);
+        else if (selectModel(argument)) process.stdout.write(`${t('cli.model', { name: getPersona(argument).name })}\n`);
+        break;
+      case '/thinking':
+        if (!argument || selectThinking(argument)) process.stdout.write(`${t('cli.thinking', { preset: thinking ?? 'default' })}\n`);
+        break;
+      case '/image':
+        if (!argument) process.stdout.write(`${t('cli.commands')}\n`);
+        else if (await attach([argument], pending)) process.stdout.write(`${t('cli.attached', { name: pending.at(-1)!.name })}\n`);
+        break;
+      case '/save': {
+        const conversation = engine.getActiveConversation()!;
+        const path = argument || exportFileName(conversation.title, 'json');
+        try {
+          await writeFile(path, exportToJson(conversation));
+          process.stdout.write(`${t('cli.saved', { path })}\n`);
+        } catch (err) {
+          console.error("Solaris Export Error:", err);
+        }
+        break;
+      }
+      case '/new':
+        engine.createConversation();
+        pending.length = 0;
+        process.stdout.write(`${t('cli.newConversation')}\n`);
+        break;
+      default:
+        if (command.startsWith('/')) {
+          process.stdout.write(`${t('cli.unknownCommand', { command })}\n`);
+          break;
+        }
+        await send(line.trim(), pending.splice(0));
+    }
+    rl.prompt();
+  }
+};
+
+const main = async () => {
+  if (args.help) {
+    process.stdout.write(`${t('cli.usage')}\n`);
+    return;
+  }
+  await engine.load();
+  if (args.prompt === undefined) await runRepl();
+  else if (!(await runOnce(args.prompt))) process.exitCode = 1;
+};
+
+main().catch((err) => {
+  console.error("Solaris CLI Error:", err);
+  process.exitCode = 1;
+});
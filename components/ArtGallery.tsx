@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Conversation } from '../types';
+import { ART_STYLES } from '../constants';
+import { GalleryItem, collectGallery, getLineage } from '../utils/artGallery';
+import { formatDateTime, t } from '../services/i18n';
+import { urlMimeType } from '../services/blobStore';
+import { StoredImage, useStoredUrl } from './StoredImage';
+
+interface ArtGalleryProps {
+  conversations: Conversation[];
+  onReusePrompt: (item: GalleryItem) => void;
+  onEditImage: (item: GalleryItem) => void;
+  onClose: () => void;
+}
+
+const extensionOf = (url: string) => urlMimeType(url)?.match(/^image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') ?? 'png';
+
+export const ArtGallery: React.FC<ArtGalleryProps> = ({ conversations, onReusePrompt, onEditImage, onClose }) => {
+  const items = useMemo(() => collectGallery(conversations), [conversations]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = items.find(item => item.message.id === selectedId);
+  const lineage = selected ? getLineage(selected) : [];
+  const style = ART_STYLES.find(s => s.id === selected?.message.art?.style);
+  const downloadUrl = useStoredUrl(selected?.message.imageUrl);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-5xl max-h-full flex flex-col rounded-[2rem] border border-white/10 p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-cyan-300">{t('gallery.title')} • {items.length}</h2>
+          <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">{t('common.close')}</button>
+        </div>
+
+        {!items.length && (
+          <p className="py-16 text-center text-[12px] text-white/30">{t('gallery.empty')}</p>
+        )}
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-6">
+          <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 content-start">
+            {items.map(item => (
+              <button
+                key={item.message.id}
+                onClick={() => setSelectedId(item.message.id)}
+                className={`rounded-xl overflow-hidden border bg-black/40 transition-all ${
+                  item.message.id === selectedId ? 'border-cyan-400/60 scale-[0.98]' : 'border-white/5 hover:border-white/20'
+                }`}
+                title={item.prompt}
+              >
+                <StoredImage src={item.message.imageUrl} alt={item.prompt} className="w-full aspect-square object-cover" />
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <aside className="md:w-80 shrink-0 overflow-y-auto space-y-4">
+              <StoredImage src={selected.message.imageUrl} alt={selected.prompt} className="w-full rounded-xl border border-white/10" />
+              <div className="text-[12px] text-white/70 whitespace-pre-wrap">{selected.prompt || '—'}</div>
+              <div className="text-[9px] font-black uppercase tracking-widest text-white/30 space-y-1">
+                <div>{selected.conversation.title} • {formatDateTime(selected.message.timestamp)}</div>
+                {selected.message.art?.aspectRatio && <div>{t('art.aspectRatio')} {selected.message.art.aspectRatio}</div>}
+                {style && <div>{t('art.style')} {t(style.label)}</div>}
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-[9px] font-black uppercase tracking-widest">
+                <a
+                  href={downloadUrl}
+                  download={`nikiviti-art-${selected.message.id}.${extensionOf(selected.message.imageUrl!)}`}
+                  className="px-3 py-2 rounded-xl border border-white/10 text-white/60 hover:text-white"
+                >
+                  {t('common.download')}
+                </a>
+                <button onClick={() => onReusePrompt(selected)} className="px-3 py-2 rounded-xl border border-white/10 text-white/60 hover:text-white">
+                  {t('gallery.reusePrompt')}
+                </button>
+                <button onClick={() => onEditImage(selected)} className="px-3 py-2 rounded-xl bg-cyan-500/15 border border-cyan-500/30 text-cyan-300 hover:bg-cyan-500/25">
+                  {t('common.edit')}
+                </button>
+              </div>
+
+              {lineage.length > 1 && (
+                <div className="space-y-2">
+                  <h3 className="text-[9px] font-black uppercase tracking-[0.25em] text-white/30">{t('gallery.lineage')}</h3>
+                  {lineage.map((step, i) => (
+                    <button
+                      key={step.message.id}
+                      onClick={() => setSelectedId(step.message.id)}
+                      className="w-full flex items-center gap-3 text-left rounded-lg p-1.5 hover:bg-white/5"
+                    >
+                      <StoredImage src={step.message.imageUrl} alt="" className="w-10 h-10 rounded-md object-cover" />
+                      <span className="flex-1 min-w-0 truncate text-[11px] text-white/60">{i + 1}. {step.prompt || '—'}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </aside>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ART_STYLES, ASPECT_RATIOS, MAX_VARIATIONS } from '../constants';
+import { t } from '../services/i18n';
+
+export interface ArtSettings {
+  aspectRatio: string;
+  /** Id of an `ART_STYLES` preset, or empty for none. */
+  style: string;
+  variations: number;
+}
+
+interface ArtStudioBarProps {
+  settings: ArtSettings;
+  onChange: (settings: ArtSettings) => void;
+  disabled?: boolean;
+}
+
+const chip = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg border transition-all ${active ? 'bg-cyan-500/15 border-cyan-500/40 text-cyan-300' : 'border-white/5 text-white/30 hover:text-white/60'}`;
+
+/** Aspect ratio, style and variation controls shown above the input for image-output personas. */
+export const ArtStudioBar: React.FC<ArtStudioBarProps> = ({ settings, onChange, disabled }) => {
+  const update = (patch: Partial<ArtSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-wrap items-center gap-x-5 gap-y-2 mb-4 text-[9px] font-black uppercase tracking-widest">
+      <div className="flex items-center gap-1.5">
+        <span className="text-white/20 mr-1">{t('art.aspectRatio')}</span>
+        {ASPECT_RATIOS.map(ratio => (
+          <button key={ratio} type="button" onClick={() => update({ aspectRatio: ratio })} className={chip(settings.aspectRatio === ratio)}>
+            {ratio}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-white/20 mr-1">{t('art.style')}</span>
+        <button type="button" onClick={() => update({ style: '' })} className={chip(!settings.style)}>{t('art.freeStyle')}</button>
+        {ART_STYLES.map(style => (
+          <button key={style.id} type="button" onClick={() => update({ style: style.id })} className={chip(settings.style === style.id)}>
+            {t(style.label)}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-1.5">
+        <span className="text-white/20 mr-1">{t('art.variations')}</span>
+        {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+          <button key={count} type="button" onClick={() => update({ variations: count })} className={chip(settings.variations === count)}>
+            {count}
+          </button>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { formatBytes } from '../utils/attachments';
+import { t } from '../services/i18n';
+import { StoredImage } from './StoredImage';
+
+interface AttachmentChipsProps {
+  attachments: Attachment[];
+  onRemove: (id: string) => void;
+}
+
+const KIND_LABELS = { image: 'IMG', pdf: 'PDF', text: 'TXT' };
+
+/** Removable chips for the files queued in the composer. */
+export const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap gap-2 mb-3 animate-message">
+    {attachments.map(a => (
+      <div key={a.id} className="flex items-center gap-2 max-w-[16rem] bg-slate-900/95 border border-teal-500/30 rounded-xl pl-1.5 pr-1 py-1.5 shadow-xl">
+        {a.kind === 'image' && a.dataUrl ? (
+          <StoredImage src={a.dataUrl} alt={a.name} className="w-9 h-9 object-cover rounded-lg border border-white/10" />
+        ) : (
+          <span className="w-9 h-9 flex items-center justify-center rounded-lg bg-teal-500/10 text-teal-300 text-[9px] font-black tracking-widest">
+            {KIND_LABELS[a.kind]}
+          </span>
+        )}
+        <span className="min-w-0 flex flex-col">
+          <span className="truncate text-[11px] text-white/80">{a.name}</span>
+          <span className="text-[9px] text-white/30">{formatBytes(a.size)}</span>
+        </span>
+        <button
+          type="button"
+          onClick={() => onRemove(a.id)}
+          className="p-1.5 text-rose-400 hover:text-rose-200 hover:bg-rose-500/10 rounded-full transition-all"
+          title={t('attachments.remove')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,31 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { Message, Role } from '../types';
+import { t } from '../services/i18n';
+import { ChatMessage, pruneKeptState } from './ChatMessage';
+
+const message: Message = { id: 'm1', parentId: null, role: Role.USER, text: 'original', timestamp: new Date() };
+
+const renderRow = () => render(<ChatMessage message={message} onEdit={() => {}} />);
+
+describe('ChatMessage', () => {
+  it('keeps an edit in progress when its row unmounts, until the message is gone', () => {
+    const first = renderRow();
+    fireEvent.click(first.getByTitle(t('common.edit')));
+    fireEvent.change(first.container.querySelector('textarea')!, { target: { value: 'draft' } });
+    first.unmount();
+
+    const second = renderRow();
+    expect(second.container.querySelector('textarea')?.value).toBe('draft');
+    second.unmount();
+
+    pruneKeptState(id => id !== message.id);
+    expect(renderRow().container.querySelector('textarea')).toBeNull();
+  });
+
+  it('shows the branch position', () => {
+    const { getByText } = render(<ChatMessage message={message} branchIndex={1} branchCount={3} />);
+    expect(getByText('2/3')).toBeTruthy();
+  });
+});
@@ -1,70 +1,161 @@
 
-import React, { useState } from 'react';
-import { Message, Role } from '../types';
+import React, { memo, useState, useSyncExternalStore } from 'react';
+import { AccentColor, Message, Role } from '../types';
+import { ACCENTS } from '../constants';
+import { MarkdownContent } from './MarkdownContent';
+import { ToolSteps } from './ToolSteps';
+import { ReasoningBlock } from './ReasoningBlock';
+import { Citations } from './Citations';
+import { MessageAttachments } from './MessageAttachments';
+import { MessageInfo } from './MessageInfo';
+import { HighlightedText } from './HighlightedText';
+import { StoredImage } from './StoredImage';
+import { getSpeakingId, speakNow, stopSpeech, subscribeVoice } from '../services/speech';
+import { formatTime, t } from '../services/i18n';
 
 interface ChatMessageProps {
   message: Message;
-  modelId?: string;
+  /** Accent of the persona that replied; unused for user messages. */
+  accent?: AccentColor;
+  /** Whether the message is part of the context sent with the next turn; omitted when not tracked. */
+  inMemory?: boolean;
+  /** Position of the message among its sibling branches, and how many there are; omitted when it has none. */
+  branchIndex?: number;
+  branchCount?: number;
+  onSwitchBranch?: (message: Message, direction: -1 | 1) => void;
+  onEdit?: (message: Message, text: string) => void;
+  onRegenerate?: (message: Message) => void;
+  /** Sends the generated image back to the composer as the source for an edit. */
+  onEditImage?: (message: Message) => void;
+  /** Starts a fix-it turn from a code block whose run failed; enables running the reply's JS and TS blocks. */
+  onFixRequest?: (prompt: string) => void;
+  /** Disables edit and regenerate while another reply is being generated. */
+  isBusy?: boolean;
+  /** Marks the terms of the search the message was opened from. */
+  highlight?: RegExp | null;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, modelId }) => {
+// Edits in progress and open details by message id. The message list unmounts rows that scroll out
+// of view; kept here, a row comes back the way it was left
+const kept = new Map<string, unknown>();
+
+/** `useState` whose value survives the row being unmounted; setting it back to `initial` forgets it. */
+const useKeptState = <T,>(key: string, initial: T) => {
+  const [value, setValue] = useState<T>(() => (kept.has(key) ? (kept.get(key) as T) : initial));
+  const set = (next: T) => {
+    if (Object.is(next, initial)) kept.delete(key);
+    else kept.set(key, next);
+    setValue(next);
+  };
+  return [value, set] as const;
+};
+
+/** Forgets the kept state of messages that no longer exist. */
+export const pruneKeptState = (isLive: (messageId: string) => boolean) => {
+  for (const key of kept.keys()) {
+    if (!isLive(key.slice(0, key.lastIndexOf(':')))) kept.delete(key);
+  }
+};
+
+/**
+ * One message bubble. Memoized: the callbacks take the message so the list can pass the same
+ * functions to every row, and rows only re-render when their own props change.
+ */
+export const ChatMessage: React.FC<ChatMessageProps> = memo(({
+  message,
+  accent = 'emerald',
+  inMemory,
+  branchIndex = 0,
+  branchCount = 1,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+  onEditImage,
+  onFixRequest,
+  isBusy,
+  highlight,
+}) => {
   const isUser = message.role === Role.USER;
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  const isSpeaking = useSyncExternalStore(subscribeVoice, getSpeakingId) === message.id;
+  const [isEditing, setIsEditing] = useKeptState(`${message.id}:editing`, false);
+  const [draft, setDraft] = useKeptState(`${message.id}:draft`, message.text);
+  const [isInfoOpen, setIsInfoOpen] = useKeptState(`${message.id}:info`, false);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const stopEditing = () => {
+    setIsEditing(false);
+    setDraft(message.text);
+  };
+
+  const submitEdit = () => {
+    stopEditing();
+    if (draft.trim() && draft !== message.text) onEdit?.(message, draft);
+  };
 
   const getTheme = () => {
     if (isUser) return 'bg-white/[0.04] border-white/10 text-white shadow-lg ml-auto';
-    switch (modelId) {
-      case 'pro': return 'bg-teal-500/10 border-teal-500/20 text-teal-50 shadow-teal-500/5';
-      case 'eco': return 'bg-cyan-500/10 border-cyan-500/20 text-cyan-50 shadow-cyan-500/5';
-      default: return 'bg-emerald-500/10 border-emerald-500/20 text-emerald-50 shadow-emerald-500/5';
-    }
+    return ACCENTS[accent].bubble;
   };
 
   const getAccent = () => {
     if (isUser) return 'text-white/20';
-    switch (modelId) {
-      case 'pro': return 'text-teal-400/40';
-      case 'eco': return 'text-cyan-400/40';
-      default: return 'text-emerald-400/40';
-    }
+    return ACCENTS[accent].meta;
   };
 
-  const toggleSpeech = () => {
-    if (isSpeaking) {
-      window.speechSynthesis.cancel();
-      setIsSpeaking(false);
-      return;
-    }
-    const utterance = new SpeechSynthesisUtterance(message.text);
-    utterance.lang = 'ru-RU';
-    utterance.onend = () => setIsSpeaking(false);
-    setIsSpeaking(true);
-    window.speechSynthesis.speak(utterance);
-  };
+  const thoughtTokens = message.metadata?.usage?.thoughts;
+
+  const toggleSpeech = () => (isSpeaking ? stopSpeech() : speakNow(message.id, message.text));
 
   return (
-    <div className={`flex w-full mb-8 ${isUser ? 'justify-end' : 'justify-start'} animate-message`}>
+    <div id={`message-${message.id}`} className={`flex w-full mb-8 ${isUser ? 'justify-end' : 'justify-start'} animate-message ${inMemory === false ? 'opacity-50' : ''}`}>
       <div
         className={`relative max-w-[90%] md:max-w-[80%] px-6 py-5 rounded-[1.8rem] transition-all border ${getTheme()} ${isUser ? 'rounded-tr-none' : 'rounded-tl-none'}`}
       >
-        {message.inputImageUrl && (
-          <div className="mb-5 rounded-2xl overflow-hidden border border-white/10 shadow-2xl">
-             <img src={message.inputImageUrl} alt="Input" className="w-full h-auto max-h-96 object-contain opacity-95 bg-black/40" />
-          </div>
+        {message.attachments && message.attachments.length > 0 && <MessageAttachments attachments={message.attachments} />}
+
+        {message.reasoning && (
+          <ReasoningBlock reasoning={message.reasoning} isThinking={message.isStreaming && !message.text} highlight={highlight} />
         )}
 
         {message.imageUrl && (
           <div className="mb-5 rounded-2xl overflow-hidden shadow-2xl border border-white/5 group bg-black/40 p-1">
-            <img src={message.imageUrl} alt="Generated Art" className="w-full h-auto rounded-xl transition-transform duration-1000 group-hover:scale-[1.02]" />
+            <StoredImage src={message.imageUrl} alt={t('message.generatedArt')} className="w-full h-auto rounded-xl transition-transform duration-1000 group-hover:scale-[1.02]" />
           </div>
         )}
         
+        {message.toolSteps && message.toolSteps.length > 0 && <ToolSteps steps={message.toolSteps} />}
+
         <div className="flex items-start gap-5">
-          <div className="flex-1 text-[15px] leading-[1.65] font-medium tracking-tight whitespace-pre-wrap selection:bg-teal-500/30">
-            {message.text}
+          <div className={`flex-1 min-w-0 text-[15px] leading-[1.65] font-medium tracking-tight selection:bg-teal-500/30 ${isUser ? 'whitespace-pre-wrap' : ''}`}>
+            {isEditing ? (
+              <div className="flex flex-col gap-3 min-w-[16rem]">
+                <textarea
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitEdit();
+                    if (e.key === 'Escape') stopEditing();
+                  }}
+                  rows={Math.min(10, draft.split('\n').length + 1)}
+                  className="w-full bg-black/30 border border-teal-500/30 rounded-xl p-3 outline-none resize-y"
+                />
+                <div className="flex justify-end gap-2 text-[9px] font-black uppercase tracking-widest">
+                  <button onClick={stopEditing} className="px-3 py-1.5 rounded-lg text-white/40 hover:text-white">{t('common.cancel')}</button>
+                  <button onClick={submitEdit} className="px-3 py-1.5 rounded-lg bg-teal-500/20 text-teal-300 hover:bg-teal-500/30">{t('message.send')}</button>
+                </div>
+              </div>
+            ) : isUser ? <HighlightedText text={message.text} pattern={highlight} /> : <MarkdownContent text={message.text} highlight={highlight} onFixRequest={onFixRequest} runId={message.id} />}
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-1 align-middle bg-current opacity-60 animate-pulse"></span>
+            )}
           </div>
           
-          {!isUser && message.text && (
+          {!isUser && message.text && !message.isStreaming && (
             <button 
               onClick={toggleSpeech}
               className={`flex-shrink-0 p-2.5 rounded-full transition-all duration-300 ${
@@ -78,12 +169,57 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, modelId }) =>
           )}
         </div>
 
+        {message.citations && message.citations.length > 0 && <Citations citations={message.citations} text={message.text} />}
+
         <div className={`text-[8px] mt-4 font-black tracking-[0.25em] uppercase flex items-center gap-2 ${getAccent()}`}>
-           <span>{isUser ? 'CLIENT' : 'NIKIVITI CORE'}</span>
+           <span>{isUser ? t('message.client') : t('message.model')}</span>
            <span className="opacity-40">•</span>
-           <span>{message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+           <span>{formatTime(message.timestamp)}</span>
+           {!!thoughtTokens && (
+             <>
+               <span className="opacity-40">•</span>
+               <span title={t('message.thoughtTokensHint')}>{t('message.thoughtTokens', { count: thoughtTokens })}</span>
+             </>
+           )}
+           {branchCount > 1 && (
+             <span className="flex items-center gap-1">
+               <button onClick={() => onSwitchBranch?.(message, -1)} disabled={branchIndex === 0} className="px-1 hover:text-white disabled:opacity-30">‹</button>
+               <span>{branchIndex + 1}/{branchCount}</span>
+               <button onClick={() => onSwitchBranch?.(message, 1)} disabled={branchIndex === branchCount - 1} className="px-1 hover:text-white disabled:opacity-30">›</button>
+             </span>
+           )}
+           {onEdit && !isEditing && (
+             <button onClick={startEditing} disabled={isBusy} className="hover:text-white disabled:opacity-30" title={t('common.edit')}>
+               {t('message.edit')}
+             </button>
+           )}
+           {onEditImage && message.imageUrl && (
+             <button onClick={() => onEditImage(message)} disabled={isBusy} className="hover:text-white disabled:opacity-30" title={t('message.editImageHint')}>
+               {t('message.editImage')}
+             </button>
+           )}
+           {onRegenerate && (
+             <button onClick={() => onRegenerate(message)} disabled={isBusy} className="hover:text-white disabled:opacity-30" title={t('message.regenerateHint')}>
+               {t('message.regenerate')}
+             </button>
+           )}
+           {message.metadata && !message.isStreaming && (
+             <button onClick={() => setIsInfoOpen(!isInfoOpen)} className={`hover:text-white ${isInfoOpen ? 'text-white' : ''}`}>
+               {t('info.title')}
+             </button>
+           )}
+           {inMemory !== undefined && (
+             <>
+               <span className="opacity-40">•</span>
+               <span title={inMemory ? t('message.inMemoryHint') : t('message.archivedHint')}>
+                 {inMemory ? t('message.inMemory') : t('message.archived')}
+               </span>
+             </>
+           )}
         </div>
+
+        {isInfoOpen && message.metadata && <MessageInfo metadata={message.metadata} />}
       </div>
     </div>
   );
-};
+});
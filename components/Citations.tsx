@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { Citation } from '../types';
+import { t } from '../services/i18n';
+
+interface CitationsProps {
+  citations: Citation[];
+  /** Reply text, to tell the passages the model actually cited from the ones it was only given. */
+  text: string;
+}
+
+const sourceOf = (citation: Citation) => [citation.documentName, citation.heading].filter(Boolean).join(' › ');
+
+/** Knowledge-base passages a reply was given; each opens to show the passage itself. */
+export const Citations: React.FC<CitationsProps> = ({ citations, text }) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const open = citations.find(c => c.index === openIndex);
+  const isCited = (citation: Citation) => text.includes(`[${citation.index}]`);
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 text-[9px] font-black uppercase tracking-[0.2em]">
+        <span className="text-white/20 mr-1">{t('knowledge.sources')}</span>
+        {citations.map(citation => (
+          <button
+            key={citation.index}
+            onClick={() => setOpenIndex(index => (index === citation.index ? null : citation.index))}
+            title={t('knowledge.lines', { start: citation.startLine, end: citation.endLine })}
+            className={`max-w-[16rem] truncate px-2 py-1 rounded-lg border transition-all ${
+              citation.index === openIndex
+                ? 'bg-teal-500/15 border-teal-500/40 text-teal-300'
+                : isCited(citation) ? 'border-white/15 text-white/60 hover:text-white' : 'border-white/5 text-white/25 hover:text-white/60'
+            }`}
+          >
+            [{citation.index}] {sourceOf(citation)}
+          </button>
+        ))}
+      </div>
+      {open && (
+        <div className="rounded-xl border border-white/5 bg-black/30">
+          <div className="px-4 py-2 border-b border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/40">
+            {sourceOf(open)} • {t('knowledge.lines', { start: open.startLine, end: open.endLine })}
+          </div>
+          <pre className="!m-0 !p-4 max-h-72 overflow-y-auto whitespace-pre-wrap break-words font-mono text-[12px] text-white/70">{open.text}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { highlight, TokenType } from '../utils/highlight';
+import { buildFixPrompt, clearCodeRun, getCodeRun, getRunLanguage, subscribeCodeRuns, toggleCodeRun } from '../services/codeRunner';
+import { t } from '../services/i18n';
+import { HighlightedText } from './HighlightedText';
+import { RunOutput } from './RunOutput';
+
+interface CodeBlockProps {
+  code: string;
+  lang: string;
+  /** Marks matches inside the code; a match split across syntax tokens is not marked. */
+  highlight?: RegExp | null;
+  /** Sends a failed run back to the model; JS and TS blocks get a Run button only when this and `runId` are set. */
+  onFixRequest?: (prompt: string) => void;
+  /** Identifies the block's run, which outlives the block, see `toggleCodeRun`. */
+  runId?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-white/30 italic',
+  string: 'text-amber-300',
+  number: 'text-orange-300',
+  keyword: 'text-fuchsia-400',
+  literal: 'text-orange-300',
+  function: 'text-sky-300',
+  type: 'text-teal-300',
+  tag: 'text-rose-300',
+  attr: 'text-sky-300',
+};
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, lang, highlight: pattern, onFixRequest, runId }) => {
+  const [isWrapped, setIsWrapped] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const tokens = useMemo(() => highlight(code, lang), [code, lang]);
+  const runLanguage = onFixRequest && runId ? getRunLanguage(lang) : null;
+  const codeRun = useSyncExternalStore(subscribeCodeRuns, () => (runId ? getCodeRun(runId) : undefined));
+  const isRunning = codeRun?.isRunning ?? false;
+  const run = codeRun?.result;
+
+  const handleRun = () => {
+    if (runId && runLanguage) toggleCodeRun(runId, code, runLanguage);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 1500);
+    } catch (err) {
+      console.error("Clipboard Error:", err);
+    }
+  };
+
+  return (
+    <div className="my-4 rounded-2xl overflow-hidden border border-white/10 bg-black/50">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-white/5 bg-white/[0.03] text-[9px] font-black uppercase tracking-[0.2em] text-white/40">
+        <span>{lang || 'text'}</span>
+        <div className="flex items-center gap-3">
+          {runLanguage && (
+            <button onClick={handleRun} className={`hover:text-teal-300 transition-colors ${isRunning ? 'text-teal-300' : ''}`}>
+              {isRunning ? t('code.stop') : t('code.run')}
+            </button>
+          )}
+          <button onClick={() => setIsWrapped(wrapped => !wrapped)} className={`hover:text-teal-300 transition-colors ${isWrapped ? 'text-teal-300' : ''}`}>
+            {t('code.wrap')}
+          </button>
+          <button onClick={handleCopy} className="hover:text-teal-300 transition-colors">
+            {isCopied ? t('code.copied') : t('code.copy')}
+          </button>
+        </div>
+      </div>
+      <pre className={`!m-0 !rounded-none !border-0 p-4 text-[13px] leading-relaxed font-mono text-white/85 ${isWrapped ? 'whitespace-pre-wrap break-words' : 'whitespace-pre overflow-x-auto'}`}>
+        <code className="!text-inherit">
+          {tokens.map((token, i) =>
+            token.type === 'plain'
+              ? <HighlightedText key={i} text={token.text} pattern={pattern} />
+              : <span key={i} className={TOKEN_CLASSES[token.type]}><HighlightedText text={token.text} pattern={pattern} /></span>
+          )}
+        </code>
+      </pre>
+      {run && (
+        <RunOutput
+          result={run}
+          onClose={() => runId && clearCodeRun(runId)}
+          onSendError={(run.status === 'failed' || run.status === 'timedOut') && onFixRequest ? () => onFixRequest(buildFixPrompt(code, lang, run)) : undefined}
+        />
+      )}
+    </div>
+  );
+};
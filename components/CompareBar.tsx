@@ -0,0 +1,40 @@
+import React from 'react';
+import { ModelId, Persona } from '../types';
+import { MAX_COMPARED } from '../constants';
+import { t } from '../services/i18n';
+
+interface CompareBarProps {
+  personas: Persona[];
+  /** Personas the next prompt goes to, in the order their columns are shown. */
+  selected: ModelId[];
+  onChange: (selected: ModelId[]) => void;
+  disabled?: boolean;
+}
+
+const chip = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg border transition-all disabled:opacity-30 ${active ? 'bg-amber-500/15 border-amber-500/40 text-amber-300' : 'border-white/5 text-white/30 hover:text-white/60'}`;
+
+/** Persona picker shown above the input while compare mode is on. */
+export const CompareBar: React.FC<CompareBarProps> = ({ personas, selected, onChange, disabled }) => {
+  const toggle = (id: ModelId) => onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-wrap items-center gap-1.5 mb-4 text-[9px] font-black uppercase tracking-widest">
+      <span className="text-white/20 mr-1">{t('compare.label')}</span>
+      {personas.map(persona => (
+        <button
+          key={persona.id}
+          type="button"
+          onClick={() => toggle(persona.id)}
+          disabled={!selected.includes(persona.id) && selected.length >= MAX_COMPARED}
+          className={chip(selected.includes(persona.id))}
+        >
+          {persona.name}
+        </button>
+      ))}
+      <span className={`ml-1 ${selected.length < 2 ? 'text-amber-400/60' : 'text-white/20'}`}>
+        {t('compare.count', { count: selected.length, max: MAX_COMPARED })}
+      </span>
+    </fieldset>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Message } from '../types';
+import { ACCENTS } from '../constants';
+import { MarkdownContent } from './MarkdownContent';
+import { StoredImage } from './StoredImage';
+import { getPersona, hasPersona } from '../services/personaStore';
+import { t } from '../services/i18n';
+
+interface ComparePanelProps {
+  /** Replies to the prompt at the end of the active branch. */
+  replies: Message[];
+  onPick: (message: Message) => void;
+}
+
+const seconds = (ms: number) => Math.round(ms / 100) / 10;
+
+const Stats: React.FC<{ reply: Message }> = ({ reply }) => {
+  const { metadata } = reply;
+  if (reply.isStreaming) return <span className="animate-pulse">{t('compare.streaming')}</span>;
+  if (!metadata) return null;
+  return (
+    <>
+      <span title={metadata.modelVersion ?? metadata.model}>{metadata.model}</span>
+      <span>
+        {t('info.seconds', { seconds: seconds(metadata.latencyMs) })}
+        {metadata.firstChunkMs !== undefined && ` • ${t('info.firstChunk', { seconds: seconds(metadata.firstChunkMs) })}`}
+      </span>
+      <span>{metadata.usage ? t('compare.tokens', { output: metadata.usage.output, total: metadata.usage.total }) : t('compare.noUsage')}</span>
+    </>
+  );
+};
+
+/**
+ * Answers to one prompt from several personas, in columns with their timing and token counts.
+ * Picking one makes it the active branch; the others stay reachable as its siblings.
+ */
+export const ComparePanel: React.FC<ComparePanelProps> = ({ replies, onPick }) => (
+  <section className="space-y-3 animate-message">
+    <h2 className="text-[9px] font-black uppercase tracking-[0.3em] text-white/30 text-center">{t('compare.title')}</h2>
+    <div className={`grid gap-4 ${replies.length >= 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+      {replies.map(reply => {
+        const persona = reply.persona && hasPersona(reply.persona) ? getPersona(reply.persona) : undefined;
+        const accent = ACCENTS[persona?.accentColor ?? 'emerald'];
+        return (
+          <article key={reply.id} className={`flex flex-col min-w-0 rounded-[1.8rem] border px-5 py-4 ${accent.bubble}`}>
+            <header className="flex items-center gap-2 mb-3">
+              <span className={`w-7 h-7 shrink-0 rounded-xl bg-gradient-to-br ${accent.gradient} flex items-center justify-center text-white text-xs font-black`}>
+                {persona ? persona.badge || persona.name.charAt(0).toUpperCase() : '?'}
+              </span>
+              <span className="text-[10px] font-black uppercase tracking-widest truncate">{persona?.name ?? t('compare.unknownPersona')}</span>
+            </header>
+            <div className="flex-1 min-w-0 text-[14px] leading-[1.6] font-medium tracking-tight">
+              {reply.imageUrl && (
+                <StoredImage src={reply.imageUrl} alt={t('message.generatedArt')} className="mb-3 w-full h-auto rounded-xl" />
+              )}
+              <MarkdownContent text={reply.text} />
+              {reply.isStreaming && <span className="inline-block w-2 h-4 ml-1 align-middle bg-current opacity-60 animate-pulse"></span>}
+            </div>
+            <footer className={`mt-4 pt-3 border-t border-white/5 flex flex-col gap-0.5 font-mono text-[10px] ${accent.meta}`}>
+              <Stats reply={reply} />
+            </footer>
+            <button
+              onClick={() => onPick(reply)}
+              disabled={reply.isStreaming}
+              className="mt-3 px-3 py-2 rounded-xl border border-white/10 text-[9px] font-black uppercase tracking-[0.2em] text-white/50 hover:text-white hover:bg-white/10 transition-all disabled:opacity-30 disabled:pointer-events-none"
+            >
+              {t('compare.pick')}
+            </button>
+          </article>
+        );
+      })}
+    </div>
+  </section>
+);
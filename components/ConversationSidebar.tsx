@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { Conversation } from '../types';
+import { t } from '../services/i18n';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onTogglePin,
+  onImport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const sorted = [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-72 shrink-0 flex flex-col border-r border-white/5 bg-black/50 backdrop-blur-xl">
+      <div className="p-4 border-b border-white/5 flex gap-2">
+        <button
+          onClick={onCreate}
+          className="flex-1 py-3 rounded-2xl border border-teal-500/30 bg-teal-500/10 text-teal-300 text-[10px] font-black uppercase tracking-widest hover:bg-teal-500/20 transition-all"
+        >
+          {t('sidebar.create')}
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 rounded-2xl border border-white/10 text-white/40 text-[10px] font-black uppercase tracking-widest hover:text-teal-300 hover:border-teal-500/30 transition-all"
+          title={t('sidebar.import')}
+        >
+          ⇪
+        </button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map((conversation) => (
+          <div
+            key={conversation.id}
+            onClick={() => onSelect(conversation.id)}
+            className={`group flex items-center gap-2 px-3 py-2.5 rounded-xl cursor-pointer transition-all ${
+              conversation.id === activeId ? 'bg-white/10 text-white' : 'text-white/40 hover:bg-white/5 hover:text-white/70'
+            }`}
+          >
+            {conversation.pinned && <span className="text-teal-400 text-[10px]">●</span>}
+            {editingId === conversation.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 bg-white/10 rounded-lg px-2 py-1 text-[12px] outline-none border border-teal-500/40"
+              />
+            ) : (
+              <span className="flex-1 min-w-0 truncate text-[12px] font-medium" onDoubleClick={() => startRename(conversation)}>
+                {conversation.title}
+              </span>
+            )}
+            <div className="hidden group-hover:flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => onTogglePin(conversation.id)} className="p-1 text-[10px] hover:text-teal-300" title={conversation.pinned ? t('sidebar.unpin') : t('sidebar.pin')}>
+                {conversation.pinned ? '◉' : '○'}
+              </button>
+              <button onClick={() => startRename(conversation)} className="p-1 text-[10px] hover:text-teal-300" title={t('sidebar.rename')}>
+                ✎
+              </button>
+              <button onClick={() => onDelete(conversation.id)} className="p-1 text-[10px] hover:text-rose-400" title={t('common.delete')}>
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Conversation, Message, Role } from '../types';
+import { ExportFormat, downloadExport, exportToHtml, exportToJson, exportToMarkdown } from '../services/conversationExport';
+import { withInlineData } from '../services/blobStore';
+import { t } from '../services/i18n';
+
+interface ExportDialogProps {
+  conversation: Conversation;
+  /** Messages of the active branch, oldest first. */
+  messages: Message[];
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'json', label: 'JSON' },
+  { id: 'html', label: 'HTML' },
+];
+
+const describe = (message: Message, index: number) =>
+  `${index + 1}. ${message.role === Role.USER ? t('export.you') : 'NikiViti'}: ${message.text.replace(/\s+/g, ' ').slice(0, 40)}`;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ conversation, messages, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [from, setFrom] = useState(0);
+  const [to, setTo] = useState(messages.length - 1);
+  const [error, setError] = useState<string | null>(null);
+
+  const isWhole = from === 0 && to === messages.length - 1;
+
+  const handleExport = async () => {
+    const range = messages.slice(from, to + 1);
+    try {
+      // JSON and HTML files carry their images, so stored ones are read back first
+      const content =
+        format === 'json' ? isWhole
+          ? exportToJson({ ...conversation, messages: await withInlineData(conversation.messages) })
+          : exportToJson(conversation, await withInlineData(range))
+        : format === 'html' ? exportToHtml(conversation.title, await withInlineData(range))
+        : exportToMarkdown(conversation.title, range);
+      downloadExport(conversation.title, format, content);
+      onClose();
+    } catch (err) {
+      console.error("Solaris Export Error:", err);
+      setError(t('export.failed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-md rounded-[2rem] border border-white/10 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-teal-300">{t('export.title')}</h2>
+
+        <div className="flex gap-2">
+          {FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`flex-1 py-2.5 rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${
+                format === f.id ? 'bg-teal-500/10 border-teal-500/40 text-teal-300' : 'border-white/5 text-white/30 hover:text-white/60'
+              }`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2 text-[12px]">
+          <label className="flex items-center gap-3">
+            <span className="w-8 text-white/40">{t('export.from')}</span>
+            <select value={from} onChange={(e) => { const v = Number(e.target.value); setFrom(v); setTo(prev => Math.max(prev, v)); }} className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 outline-none">
+              {messages.map((m, i) => <option key={m.id} value={i} className="bg-slate-900">{describe(m, i)}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-3">
+            <span className="w-8 text-white/40">{t('export.to')}</span>
+            <select value={to} onChange={(e) => { const v = Number(e.target.value); setTo(v); setFrom(f => Math.min(f, v)); }} className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 outline-none">
+              {messages.map((m, i) => <option key={m.id} value={i} className="bg-slate-900">{describe(m, i)}</option>)}
+            </select>
+          </label>
+          <p className="text-[10px] text-white/30">
+            {isWhole
+              ? format === 'json' ? t('export.wholeTree') : t('export.wholeBranch')
+              : t('export.selected', { count: to - from + 1 })}
+          </p>
+        </div>
+
+        {error && <p className="text-[11px] text-rose-400">{error}</p>}
+
+        <div className="flex justify-end gap-2 text-[10px] font-black uppercase tracking-widest">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-white/40 hover:text-white">{t('common.cancel')}</button>
+          <button onClick={handleExport} className="px-4 py-2 rounded-xl bg-teal-500/20 text-teal-300 hover:bg-teal-500/30">{t('common.download')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { splitMatches } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Built with `termPattern`; plain text is rendered when omitted. */
+  pattern?: RegExp | null;
+}
+
+/** `text` with every match of `pattern` marked. */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, pattern }) => (
+  <>
+    {splitMatches(text, pattern ?? null).map((part, i) =>
+      i % 2 ? <mark key={i} className="rounded-sm bg-amber-400/30 text-inherit">{part}</mark> : part
+    )}
+  </>
+);
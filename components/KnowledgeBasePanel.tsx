@@ -0,0 +1,126 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import {
+  addKnowledgeDocument,
+  getKnowledge,
+  removeKnowledgeDocument,
+  setKnowledgeSettings,
+  subscribeKnowledge,
+} from '../services/knowledgeBase';
+import { formatDateTime, t } from '../services/i18n';
+import { ACCEPTED_TEXT_FILES, formatBytes, getAttachmentKind, readAttachment } from '../utils/attachments';
+
+interface KnowledgeBasePanelProps {
+  onClose: () => void;
+}
+
+const MAX_TOP_K = 10;
+
+/** Documents the model can draw on, with the retrieval settings. */
+export const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({ onClose }) => {
+  const { documents, settings, isEmbedding } = useSyncExternalStore(subscribeKnowledge, getKnowledge);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFiles = async (files: File[]) => {
+    const failed: string[] = [];
+    setIsAdding(true);
+    for (const file of files) {
+      try {
+        if (getAttachmentKind(file) !== 'text') throw new Error(t('knowledge.unsupported', { name: file.name }));
+        const attachment = await readAttachment(file);
+        await addKnowledgeDocument(attachment.name, attachment.text ?? '');
+      } catch (err) {
+        console.error("Solaris Knowledge Error:", err);
+        failed.push(err instanceof Error ? err.message : t('attachments.readFailed', { name: file.name }));
+      }
+    }
+    setIsAdding(false);
+    setProblems(failed);
+  };
+
+  const field = 'bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-white/70 outline-none focus:border-teal-500/40';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-3xl max-h-full flex flex-col rounded-[2rem] border border-white/10 p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-teal-300">{t('knowledge.title')}</h2>
+          <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+            <input
+              type="file"
+              ref={fileInputRef}
+              accept={ACCEPTED_TEXT_FILES}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) addFiles(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+            <button onClick={() => fileInputRef.current?.click()} disabled={isAdding} className="text-teal-300/80 hover:text-teal-200 disabled:opacity-30">
+              {isAdding ? t('knowledge.adding') : t('knowledge.add')}
+            </button>
+            <button onClick={onClose} className="text-white/40 hover:text-white">{t('common.close')}</button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 mb-4 text-[11px] text-white/50">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => setKnowledgeSettings({ enabled: e.target.checked })} />
+            {t('knowledge.enabled')}
+          </label>
+          <label className="flex items-center gap-1.5">
+            {t('knowledge.topK')}
+            <input
+              type="number"
+              min={1}
+              max={MAX_TOP_K}
+              value={settings.topK}
+              onChange={(e) => setKnowledgeSettings({ topK: Math.min(MAX_TOP_K, Math.max(1, Number(e.target.value) || 1)) })}
+              className={`${field} w-16`}
+            />
+          </label>
+          <label className="flex items-center gap-1.5" title={t('knowledge.embeddingsHint')}>
+            <input type="checkbox" checked={settings.embeddings} onChange={(e) => setKnowledgeSettings({ embeddings: e.target.checked })} />
+            {t('knowledge.embeddings')}
+          </label>
+          {isEmbedding && <span className="text-teal-300/70 animate-pulse">{t('knowledge.embedding')}</span>}
+        </div>
+
+        {problems.length > 0 && (
+          <div className="mb-4 rounded-xl border border-rose-500/20 bg-rose-500/10 px-4 py-2 text-[11px] text-rose-300 space-y-1">
+            {problems.map((problem, i) => <p key={i}>{problem}</p>)}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {!documents.length && <p className="py-16 text-center text-[12px] text-white/30">{t('knowledge.empty')}</p>}
+          {documents.map(document => (
+            <div key={document.id} className="flex items-center justify-between gap-4 rounded-xl border border-white/5 bg-black/20 px-4 py-3">
+              <div className="min-w-0">
+                <div className="truncate text-[13px] text-white/80">{document.name}</div>
+                <div className="text-[9px] font-black uppercase tracking-[0.2em] text-white/30">
+                  {formatBytes(document.size)} • {t('knowledge.chunks', { count: document.chunks.length })} • {formatDateTime(document.addedAt)}
+                  {document.embeddingModel && <> • {t('knowledge.embedded')}</>}
+                </div>
+              </div>
+              <button
+                onClick={() => removeKnowledgeDocument(document.id)}
+                className="shrink-0 text-[9px] font-black uppercase tracking-widest text-white/30 hover:text-rose-300"
+              >
+                {t('common.delete')}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {documents.length > 0 && (
+          <p className="mt-4 text-[11px] text-white/30">
+            {t('knowledge.summary', { count: documents.reduce((sum, d) => sum + d.chunks.length, 0), top: settings.topK })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
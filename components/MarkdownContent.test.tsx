@@ -0,0 +1,28 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { MarkdownContent } from './MarkdownContent';
+
+describe('MarkdownContent', () => {
+  it('renders hostile markup as text and drops unsafe links', () => {
+    const text = [
+      '<script>window.pwned = true</script>',
+      '<img src=x onerror="window.pwned = true">',
+      '[safe](https://example.com) [unsafe](javascript:window.pwned=true) [data](data:text/html,x)',
+    ].join('\n\n');
+    const { container } = render(<MarkdownContent text={text} />);
+
+    expect(container.querySelector('script, img, iframe')).toBeNull();
+    expect(container.textContent).toContain('<script>window.pwned = true</script>');
+    const hrefs = [...container.querySelectorAll('a')].map(a => a.getAttribute('href'));
+    expect(hrefs).toEqual(['https://example.com']);
+    expect((window as any).pwned).toBeUndefined();
+  });
+
+  it('opens links in a new tab without access to the page', () => {
+    const { container } = render(<MarkdownContent text="https://example.com" />);
+    const link = container.querySelector('a')!;
+    expect(link.getAttribute('target')).toBe('_blank');
+    expect(link.getAttribute('rel')).toContain('noopener');
+  });
+});
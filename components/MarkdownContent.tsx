@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, MarkdownBlock, MarkdownInline } from '../utils/markdown';
+import { CodeBlock } from './CodeBlock';
+import { HighlightedText } from './HighlightedText';
+
+interface MarkdownContentProps {
+  text: string;
+  /** Marks matches in the rendered text, e.g. the terms of a search that led here. */
+  highlight?: RegExp | null;
+  /** Lets JS and TS code blocks run and send their errors back, see `CodeBlock`. */
+  onFixRequest?: (prompt: string) => void;
+  /** Prefix of the code blocks' run ids; blocks are told apart by their position in the text. */
+  runId?: string;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-black tracking-tight',
+  'text-xl font-black tracking-tight',
+  'text-lg font-bold',
+  'text-base font-bold',
+  'text-sm font-bold uppercase tracking-wider',
+  'text-xs font-bold uppercase tracking-widest',
+];
+
+const renderInline = (nodes: MarkdownInline[], highlight?: RegExp | null): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <HighlightedText key={i} text={node.text} pattern={highlight} />;
+      case 'code': return <code key={i} className="px-1.5 py-0.5 rounded-md bg-black/40 border border-white/10 font-mono text-[0.85em] text-teal-300"><HighlightedText text={node.text} pattern={highlight} /></code>;
+      case 'strong': return <strong key={i} className="font-bold text-white">{renderInline(node.children, highlight)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children, highlight)}</em>;
+      case 'del': return <del key={i} className="opacity-60">{renderInline(node.children, highlight)}</del>;
+      case 'link': return (
+        <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-teal-300 underline decoration-teal-500/40 underline-offset-2 hover:decoration-teal-300">
+          {renderInline(node.children, highlight)}
+        </a>
+      );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[], highlight?: RegExp | null, onFixRequest?: (prompt: string) => void, runId?: string): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return <Tag key={i} className={`mt-5 mb-2 first:mt-0 text-white ${HEADING_CLASSES[block.level - 1]}`}>{renderInline(block.children, highlight)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i} className="my-2 first:mt-0 last:mb-0 whitespace-pre-wrap">{renderInline(block.children, highlight)}</p>;
+      case 'code':
+        return <CodeBlock key={i} code={block.code} lang={block.lang} highlight={highlight} onFixRequest={onFixRequest} runId={runId && `${runId}:${i}`} />;
+      case 'blockquote':
+        return <blockquote key={i} className="my-3 pl-4 border-l-2 border-teal-500/40 text-white/70">{renderBlocks(block.children, highlight, onFixRequest, runId && `${runId}:${i}`)}</blockquote>;
+      case 'hr':
+        return <hr key={i} className="my-5 border-white/10" />;
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag key={i} start={block.ordered ? block.start : undefined} className={`my-2 pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-teal-400/60`}>
+            {block.items.map((item, j) => (
+              <li key={j}>
+                {/* Single-paragraph items render tight, without paragraph margins */}
+                {item.length === 1 && item[0].type === 'paragraph'
+                  ? <span className="whitespace-pre-wrap">{renderInline(item[0].children, highlight)}</span>
+                  : renderBlocks(item, highlight, onFixRequest, runId && `${runId}:${i}.${j}`)}
+              </li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'table':
+        return (
+          <div key={i} className="my-4 overflow-x-auto rounded-xl border border-white/10">
+            <table className="w-full text-[13px] border-collapse">
+              <thead className="bg-white/5">
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} style={{ textAlign: block.align[j] ?? 'left' }} className="px-3 py-2 font-bold border-b border-white/10">{renderInline(cell, highlight)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-white/5 last:border-0">
+                    {row.map((cell, j) => (
+                      <td key={j} style={{ textAlign: block.align[j] ?? 'left' }} className="px-3 py-2 align-top">{renderInline(cell, highlight)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, highlight, onFixRequest, runId }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <>{renderBlocks(blocks, highlight, onFixRequest, runId)}</>;
+};
@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { ConversationSummary } from '../types';
+import { t } from '../services/i18n';
+
+interface MemorySummaryProps {
+  summary: ConversationSummary;
+}
+
+export const MemorySummary: React.FC<MemorySummaryProps> = ({ summary }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mb-8 rounded-2xl border border-dashed border-teal-500/20 bg-teal-500/[0.03] px-5 py-3">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-[9px] font-black uppercase tracking-[0.25em] text-teal-400/60 hover:text-teal-300"
+      >
+        <span>{t('message.memorySummary')} • {t('common.tokens', { count: summary.tokenCount })}</span>
+        <span>{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="mt-3 text-[13px] leading-relaxed text-white/60 whitespace-pre-wrap">
+          {summary.text}
+        </div>
+      )}
+    </div>
+  );
+};
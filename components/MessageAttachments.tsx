@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Attachment } from '../types';
+import { formatBytes } from '../utils/attachments';
+import { StoredImage, useStoredUrl } from './StoredImage';
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+}
+
+const FileCard: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isText = attachment.kind === 'text';
+  const downloadUrl = useStoredUrl(attachment.dataUrl);
+
+  const header = (
+    <>
+      <span className="w-8 h-8 shrink-0 flex items-center justify-center rounded-lg bg-white/5 text-[8px] font-black tracking-widest text-white/50">
+        {isText ? 'TXT' : 'PDF'}
+      </span>
+      <span className="min-w-0 flex-1 text-left">
+        <span className="block truncate text-[12px] text-white/80">{attachment.name}</span>
+        <span className="block text-[9px] text-white/30">{formatBytes(attachment.size)}</span>
+      </span>
+    </>
+  );
+
+  return (
+    <div className="rounded-xl border border-white/10 bg-black/30">
+      {isText ? (
+        <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center gap-3 p-2 hover:bg-white/5 rounded-xl">
+          {header}
+          <span className="pr-2 text-[10px] text-white/30">{isOpen ? '−' : '+'}</span>
+        </button>
+      ) : (
+        <a href={downloadUrl} download={attachment.name} className="flex items-center gap-3 p-2 hover:bg-white/5 rounded-xl">
+          {header}
+        </a>
+      )}
+      {isText && isOpen && (
+        <pre className="!m-0 !rounded-t-none max-h-80 overflow-auto whitespace-pre text-[11px]">{attachment.text}</pre>
+      )}
+    </div>
+  );
+};
+
+/** Files the user sent with a message: images as a grid, documents as cards. */
+export const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments }) => {
+  const images = attachments.filter(a => a.kind === 'image' && a.dataUrl);
+  const files = attachments.filter(a => a.kind !== 'image');
+
+  return (
+    <div className="mb-5 space-y-3">
+      {images.length > 0 && (
+        <div className={`grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map(image => (
+            <div key={image.id} className="rounded-2xl overflow-hidden border border-white/10 shadow-2xl">
+              <StoredImage src={image.dataUrl} alt={image.name} className="w-full h-auto max-h-96 object-contain opacity-95 bg-black/40" />
+            </div>
+          ))}
+        </div>
+      )}
+      {files.map(file => <FileCard key={file.id} attachment={file} />)}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useSyncExternalStore } from 'react';
+import { ReplyMetadata } from '../types';
+import { getPrices, subscribePrices } from '../services/pricing';
+import { formatUsd, t } from '../services/i18n';
+import { estimateCost } from '../utils/usage';
+
+interface MessageInfoProps {
+  metadata: ReplyMetadata;
+}
+
+const seconds = (ms: number) => Math.round(ms / 100) / 10;
+
+/** Usage, timing and safety details the provider reported for one reply. */
+export const MessageInfo: React.FC<MessageInfoProps> = ({ metadata }) => {
+  const prices = useSyncExternalStore(subscribePrices, getPrices);
+  const { usage } = metadata;
+  const cost = usage && estimateCost(usage, prices[metadata.model]);
+
+  const rows: [string, React.ReactNode][] = [
+    [t('info.provider'), metadata.provider],
+    [t('info.model'), metadata.modelVersion && metadata.modelVersion !== metadata.model ? `${metadata.model} (${metadata.modelVersion})` : metadata.model],
+    [t('info.tokens'), usage
+      ? [t('info.tokenBreakdown', { input: usage.input, output: usage.output, total: usage.total }), usage.thoughts ? t('info.thoughts', { count: usage.thoughts }) : ''].filter(Boolean).join(' • ')
+      : t('info.noUsage')],
+  ];
+  if (cost !== undefined) rows.push([t('info.cost'), formatUsd(cost)]);
+  if (metadata.finishReason) rows.push([t('info.finishReason'), metadata.finishReason]);
+  rows.push([t('info.latency'), [
+    t('info.seconds', { seconds: seconds(metadata.latencyMs) }),
+    metadata.firstChunkMs !== undefined ? t('info.firstChunk', { seconds: seconds(metadata.firstChunkMs) }) : '',
+  ].filter(Boolean).join(' • ')]);
+  if (metadata.safetyRatings?.length) {
+    rows.push([t('info.safety'), (
+      <ul className="space-y-0.5">
+        {metadata.safetyRatings.map(rating => (
+          <li key={rating.category} className={rating.blocked ? 'text-rose-400' : ''}>
+            {rating.category.replace('HARM_CATEGORY_', '')}: {rating.probability}{rating.blocked ? ` • ${t('info.blocked')}` : ''}
+          </li>
+        ))}
+      </ul>
+    )]);
+  }
+
+  return (
+    <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 rounded-xl border border-white/5 bg-black/30 px-4 py-3 text-[11px]">
+      {rows.map(([label, value]) => (
+        <React.Fragment key={label}>
+          <dt className="text-[9px] font-black uppercase tracking-[0.2em] text-white/30 pt-0.5">{label}</dt>
+          <dd className="font-mono text-white/60 break-all">{value}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
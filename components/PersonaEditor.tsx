@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { AccentColor, ModelId, Persona, ProviderId } from '../types';
+import { ACCENTS } from '../constants';
+import {
+  clonePersona,
+  createPersonaId,
+  deletePersona,
+  exportPersonas,
+  importPersonas,
+  resetPersona,
+  savePersona,
+} from '../services/personaStore';
+import { t } from '../services/i18n';
+
+interface PersonaEditorProps {
+  personas: Persona[];
+  initialId: ModelId;
+  /** Switches the active conversation to the given persona. */
+  onSelect: (id: ModelId) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI-compatible' },
+  { id: 'mock', label: 'Mock' },
+];
+
+const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 outline-none focus:border-teal-500/50 text-[12px]';
+const labelClass = 'block text-[9px] font-black uppercase tracking-[0.2em] text-white/30 mb-1.5';
+
+const blankPersona = (): Persona => ({
+  id: createPersonaId(),
+  name: t('persona.blankName'),
+  description: '',
+  systemInstruction: '',
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  temperature: 0.7,
+  accentColor: 'violet',
+  contextBudget: 16000,
+});
+
+// Empty inputs clear optional numeric settings instead of storing NaN
+const parseOptional = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({ personas, initialId, onSelect, onClose }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<Persona>(() => personas.find(p => p.id === initialId) ?? personas[0]);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<Persona>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const download = (json: string, name: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = (): boolean => {
+    if (!draft.name.trim() || !draft.model.trim()) {
+      setError(t('persona.required'));
+      return false;
+    }
+    savePersona(draft);
+    setError(null);
+    return true;
+  };
+
+  const handleSaveAndSelect = () => {
+    if (!handleSave()) return;
+    onSelect(draft.id);
+    onClose();
+  };
+
+  const handleDelete = () => {
+    deletePersona(draft.id);
+    setDraft(personas.find(p => p.id !== draft.id) ?? personas[0]);
+  };
+
+  const handleReset = () => {
+    resetPersona(draft.id);
+    onClose();
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importPersonas(await file.text());
+      setDraft(imported[0]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.importFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-4xl max-h-full flex rounded-[2rem] border border-white/10 overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <aside className="w-56 shrink-0 border-r border-white/5 flex flex-col">
+          <div className="p-4 text-[10px] font-black uppercase tracking-[0.3em] text-teal-300">{t('persona.title')}</div>
+          <nav className="flex-1 overflow-y-auto px-2 space-y-1">
+            {personas.map(p => (
+              <button
+                key={p.id}
+                onClick={() => { setDraft(p); setError(null); }}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-xl text-left text-[12px] transition-all ${
+                  p.id === draft.id ? 'bg-white/10 text-white' : 'text-white/40 hover:bg-white/5'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full bg-gradient-to-br ${ACCENTS[p.accentColor].gradient}`}></span>
+                <span className="truncate">{p.name}</span>
+              </button>
+            ))}
+          </nav>
+          <div className="p-3 border-t border-white/5 grid grid-cols-2 gap-2 text-[9px] font-black uppercase tracking-widest">
+            <button onClick={() => { setDraft(blankPersona()); setError(null); }} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('persona.new')}</button>
+            <button onClick={() => setDraft(clonePersona(draft))} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('persona.clone')}</button>
+            <button onClick={() => importInputRef.current?.click()} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('persona.import')}</button>
+            <button onClick={() => download(exportPersonas(), 'nikiviti-personas')} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('persona.export')}</button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </aside>
+
+        <section className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>{t('persona.name')}</span>
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+            </label>
+            <label>
+              <span className={labelClass}>{t('persona.description')}</span>
+              <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={fieldClass} />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>{t('persona.systemInstruction')}</span>
+            <textarea
+              value={draft.systemInstruction}
+              onChange={(e) => update({ systemInstruction: e.target.value })}
+              rows={6}
+              className={`${fieldClass} resize-y`}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>{t('persona.provider')}</span>
+              <select value={draft.provider} onChange={(e) => update({ provider: e.target.value as ProviderId })} className={fieldClass}>
+                {PROVIDERS.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>)}
+              </select>
+            </label>
+            <label>
+              <span className={labelClass}>{t('persona.model')}</span>
+              <input value={draft.model} onChange={(e) => update({ model: e.target.value })} className={fieldClass} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <label>
+              <span className={labelClass}>Temperature</span>
+              <input type="number" min={0} max={2} step={0.05} value={draft.temperature} onChange={(e) => update({ temperature: Number(e.target.value) })} className={fieldClass} />
+            </label>
+            <label>
+              <span className={labelClass}>Top P</span>
+              <input type="number" min={0} max={1} step={0.05} value={draft.topP ?? ''} onChange={(e) => update({ topP: parseOptional(e.target.value) })} className={fieldClass} />
+            </label>
+            <label>
+              <span className={labelClass}>Max tokens</span>
+              <input type="number" min={1} value={draft.maxOutputTokens ?? ''} onChange={(e) => update({ maxOutputTokens: parseOptional(e.target.value) })} className={fieldClass} />
+            </label>
+            <label>
+              <span className={labelClass} title={t('persona.thinkingHint')}>Thinking</span>
+              <input type="number" min={-1} value={draft.thinkingBudget ?? ''} onChange={(e) => update({ thinkingBudget: parseOptional(e.target.value) })} className={fieldClass} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>{t('persona.contextBudget')}</span>
+              <input type="number" min={0} step={1000} value={draft.contextBudget} onChange={(e) => update({ contextBudget: Number(e.target.value) })} className={fieldClass} />
+            </label>
+            <label>
+              <span className={labelClass}>{t('persona.promptPrefix')}</span>
+              <input value={draft.promptPrefix ?? ''} onChange={(e) => update({ promptPrefix: e.target.value || undefined })} className={fieldClass} />
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <span className={labelClass}>{t('persona.accent')}</span>
+              <div className="flex gap-2">
+                {(Object.keys(ACCENTS) as AccentColor[]).map(color => (
+                  <button
+                    key={color}
+                    onClick={() => update({ accentColor: color })}
+                    className={`w-7 h-7 rounded-full bg-gradient-to-br ${ACCENTS[color].gradient} ${draft.accentColor === color ? 'ring-2 ring-white/70' : 'opacity-50'}`}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-[11px] text-white/50">
+              <input type="checkbox" checked={!!draft.imageOutput} onChange={(e) => update({ imageOutput: e.target.checked || undefined })} />
+              {t('persona.imageOutput')}
+            </label>
+            <label className="flex items-center gap-2 text-[11px] text-white/50">
+              <input type="checkbox" checked={!!draft.toolsEnabled} onChange={(e) => update({ toolsEnabled: e.target.checked || undefined })} />
+              {t('persona.toolsEnabled')}
+            </label>
+          </div>
+
+          {error && <p className="text-[11px] text-rose-400">{error}</p>}
+
+          <div className="flex justify-between pt-2 text-[10px] font-black uppercase tracking-widest">
+            <div className="flex gap-2">
+              {draft.builtIn ? (
+                <button onClick={handleReset} className="px-4 py-2 rounded-xl text-white/40 hover:text-amber-300">{t('persona.reset')}</button>
+              ) : personas.some(p => p.id === draft.id) && (
+                <button onClick={handleDelete} className="px-4 py-2 rounded-xl text-white/40 hover:text-rose-400">{t('common.delete')}</button>
+              )}
+              <button onClick={() => download(exportPersonas([draft]), draft.name)} className="px-4 py-2 rounded-xl text-white/40 hover:text-teal-300">JSON</button>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-4 py-2 rounded-xl text-white/40 hover:text-white">{t('common.close')}</button>
+              <button onClick={handleSaveAndSelect} className="px-4 py-2 rounded-xl bg-white/5 text-white/60 hover:text-white">{t('persona.saveAndSelect')}</button>
+              <button onClick={() => handleSave()} className="px-4 py-2 rounded-xl bg-teal-500/20 text-teal-300 hover:bg-teal-500/30">{t('persona.save')}</button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
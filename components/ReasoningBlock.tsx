@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+import { t } from '../services/i18n';
+
+interface ReasoningBlockProps {
+  reasoning: string;
+  /** The model is still thinking: the reply itself has not started yet. */
+  isThinking?: boolean;
+  highlight?: RegExp | null;
+}
+
+/** Collapsible thought summary shown above a reply. */
+export const ReasoningBlock: React.FC<ReasoningBlockProps> = ({ reasoning, isThinking, highlight }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mb-4 rounded-xl border border-white/5 bg-black/30">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/50 hover:text-white"
+      >
+        <span className={isThinking ? 'animate-pulse' : ''}>✦ {isThinking ? t('reasoning.thinking') : t('reasoning.title')}</span>
+        <span>{isOpen ? '−' : '+'}</span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-3 text-[13px] leading-relaxed text-white/55">
+          <MarkdownContent text={reasoning} highlight={highlight} />
+        </div>
+      )}
+    </div>
+  );
+};
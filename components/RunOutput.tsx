@@ -0,0 +1,49 @@
+import React from 'react';
+import { RunLine, RunResult } from '../services/codeRunner';
+import { t } from '../services/i18n';
+
+interface RunOutputProps {
+  result: RunResult;
+  onClose: () => void;
+  /** Starts a fix-it turn with the error; omitted when there is nothing to fix. */
+  onSendError?: () => void;
+}
+
+const LINE_CLASSES: Record<RunLine['level'], string> = {
+  log: 'text-white/75',
+  warn: 'text-amber-300',
+  error: 'text-rose-300',
+  result: 'text-teal-300',
+};
+
+const STATUS_KEYS = {
+  finished: 'run.finished',
+  failed: 'run.failed',
+  timedOut: 'run.timedOutShort',
+  stopped: 'run.stoppedShort',
+} as const;
+
+/** Console output, result and error of a code block run, shown under the block. */
+export const RunOutput: React.FC<RunOutputProps> = ({ result, onClose, onSendError }) => (
+  <div className="border-t border-white/10 bg-black/40">
+    <div className="flex items-center justify-between px-4 py-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/40">
+      <span>
+        {t(STATUS_KEYS[result.status])}
+        {' · '}{t('run.duration', { ms: result.durationMs })}
+      </span>
+      <div className="flex items-center gap-3">
+        {onSendError && (
+          <button onClick={onSendError} className="text-rose-300 hover:text-teal-300 transition-colors">{t('run.sendError')}</button>
+        )}
+        <button onClick={onClose} className="hover:text-teal-300 transition-colors">{t('common.close')}</button>
+      </div>
+    </div>
+    <pre className="!m-0 !rounded-none !border-0 px-4 pb-4 max-h-72 overflow-auto text-[12px] leading-relaxed font-mono whitespace-pre-wrap break-words">
+      {result.lines.map((line, i) => (
+        <div key={i} className={LINE_CLASSES[line.level]}>{line.level === 'result' ? `← ${line.text}` : line.text}</div>
+      ))}
+      {result.error && <div className="text-rose-400">{result.error}</div>}
+      {!result.lines.length && !result.error && <div className="text-white/30">{t('run.noOutput')}</div>}
+    </pre>
+  </div>
+);
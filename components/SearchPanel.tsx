@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { Conversation, Persona, Role } from '../types';
+import { SearchDocument, SearchFilters, SearchIndex } from '../services/searchIndex';
+import { formatDateTime, t } from '../services/i18n';
+import { makeSnippet, termPattern, tokenize } from '../utils/search';
+import { HighlightedText } from './HighlightedText';
+
+/** What the panel searches for; kept by the caller so it survives closing the panel. */
+export interface SearchQuery {
+  text: string;
+  role?: Role;
+  persona?: string;
+  /** Inclusive days, as `yyyy-mm-dd` from the date inputs. */
+  from?: string;
+  to?: string;
+  hasImage?: boolean;
+  hasCode?: boolean;
+}
+
+interface SearchPanelProps {
+  index: SearchIndex;
+  /** Current conversations; results refresh whenever they change. */
+  conversations: Conversation[];
+  personas: Persona[];
+  query: SearchQuery;
+  onQueryChange: (query: SearchQuery) => void;
+  /** Opens the message in its conversation; `pattern` marks the matched terms there. */
+  onOpen: (document: SearchDocument, pattern: RegExp | null) => void;
+  onClose: () => void;
+}
+
+const toFilters = (query: SearchQuery): SearchFilters => ({
+  role: query.role,
+  persona: query.persona,
+  from: query.from ? new Date(`${query.from}T00:00:00`) : undefined,
+  to: query.to ? new Date(`${query.to}T23:59:59.999`) : undefined,
+  hasImage: query.hasImage,
+  hasCode: query.hasCode,
+});
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ index, conversations, personas, query, onQueryChange, onOpen, onClose }) => {
+  const pattern = useMemo(() => termPattern(tokenize(query.text)), [query.text]);
+  const isFiltered = !!(query.role || query.persona || query.from || query.to || query.hasImage || query.hasCode);
+  // Nothing is listed until there is something to look for; the whole history is not a result
+  const results = useMemo(
+    () => (query.text.trim() || isFiltered ? index.search(query.text, toFilters(query)) : []),
+    [index, conversations, query, isFiltered]
+  );
+
+  const update = (patch: Partial<SearchQuery>) => onQueryChange({ ...query, ...patch });
+  const titleOf = (id: string) => conversations.find(c => c.id === id)?.title ?? '';
+
+  const field = 'bg-black/30 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white/70 outline-none focus:border-cyan-500/40';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-3xl max-h-full flex flex-col rounded-[2rem] border border-white/10 p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-cyan-300">{t('search.title')}</h2>
+          <button onClick={onClose} className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">{t('common.close')}</button>
+        </div>
+
+        <input
+          autoFocus
+          value={query.text}
+          onChange={(e) => update({ text: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results.length) onOpen(results[0], pattern);
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder={t('search.placeholder')}
+          className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-[14px] text-white outline-none focus:border-cyan-500/40"
+        />
+
+        <div className="flex flex-wrap items-center gap-2 mt-3 mb-4">
+          <select value={query.role ?? ''} onChange={(e) => update({ role: (e.target.value || undefined) as Role | undefined })} className={field}>
+            <option value="">{t('search.anyRole')}</option>
+            <option value={Role.USER}>{t('message.client')}</option>
+            <option value={Role.MODEL}>{t('message.model')}</option>
+          </select>
+          <select value={query.persona ?? ''} onChange={(e) => update({ persona: e.target.value || undefined })} className={field}>
+            <option value="">{t('search.anyPersona')}</option>
+            {personas.map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+          </select>
+          <label className="flex items-center gap-1.5 text-[10px] text-white/40">
+            {t('search.from')}
+            <input type="date" value={query.from ?? ''} onChange={(e) => update({ from: e.target.value || undefined })} className={field} />
+          </label>
+          <label className="flex items-center gap-1.5 text-[10px] text-white/40">
+            {t('search.to')}
+            <input type="date" value={query.to ?? ''} onChange={(e) => update({ to: e.target.value || undefined })} className={field} />
+          </label>
+          <label className="flex items-center gap-1.5 text-[10px] text-white/50">
+            <input type="checkbox" checked={!!query.hasImage} onChange={(e) => update({ hasImage: e.target.checked || undefined })} />
+            {t('search.hasImage')}
+          </label>
+          <label className="flex items-center gap-1.5 text-[10px] text-white/50">
+            <input type="checkbox" checked={!!query.hasCode} onChange={(e) => update({ hasCode: e.target.checked || undefined })} />
+            {t('search.hasCode')}
+          </label>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {(query.text.trim() || isFiltered) && (
+            <p className="text-[9px] font-black uppercase tracking-[0.2em] text-white/30">{t('search.found', { count: results.length })}</p>
+          )}
+          {!results.length && (
+            <p className="py-16 text-center text-[12px] text-white/30">
+              {query.text.trim() || isFiltered ? t('search.noResults') : t('search.hint')}
+            </p>
+          )}
+          {results.map(result => (
+            <button
+              key={`${result.conversationId}\n${result.message.id}`}
+              onClick={() => onOpen(result, pattern)}
+              className="w-full text-left rounded-xl border border-white/5 bg-black/20 px-4 py-3 hover:border-cyan-500/30 hover:bg-white/5 transition-all"
+            >
+              <div className="flex items-center gap-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/30">
+                <span className="truncate max-w-[16rem] text-cyan-300/70">{titleOf(result.conversationId)}</span>
+                <span>•</span>
+                <span>{result.message.role === Role.USER ? t('message.client') : t('message.model')}</span>
+                <span>•</span>
+                <span>{formatDateTime(result.message.timestamp)}</span>
+                {result.hasImage && <span className="text-white/50">{t('search.image')}</span>}
+                {result.hasCode && <span className="text-white/50">{t('search.code')}</span>}
+              </div>
+              <p className="mt-1.5 text-[13px] text-white/70 break-words">
+                <HighlightedText text={makeSnippet(result.message.text, pattern) || '—'} pattern={pattern} />
+              </p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { BuiltinCommand, SlashItem } from '../utils/templates';
+import { getPersona } from '../services/personaStore';
+import { MessageKey, t } from '../services/i18n';
+
+interface SlashCommandMenuProps {
+  items: SlashItem[];
+  activeIndex: number;
+  onPick: (item: SlashItem) => void;
+  onHover: (index: number) => void;
+}
+
+const COMMAND_DESCRIPTIONS: Record<BuiltinCommand, MessageKey> = {
+  model: 'slash.model',
+  clear: 'slash.clear',
+  export: 'slash.export',
+  retry: 'slash.retry',
+  templates: 'slash.templates',
+};
+
+const labelOf = (item: SlashItem) => {
+  switch (item.kind) {
+    case 'command': return `/${item.command}`;
+    case 'persona': return item.persona.name;
+    case 'template': return `/${item.template.command}`;
+  }
+};
+
+const descriptionOf = (item: SlashItem) => {
+  switch (item.kind) {
+    case 'command': return t(COMMAND_DESCRIPTIONS[item.command]);
+    case 'persona': return item.persona.description;
+    case 'template': return [item.template.description, item.template.persona && `→ ${getPersona(item.template.persona).name}`].filter(Boolean).join(' ');
+  }
+};
+
+/** Autocomplete above the composer while a `/command` is being typed. */
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ items, activeIndex, onPick, onHover }) => (
+  <div className="absolute bottom-full left-0 right-0 mb-3 z-20 rounded-2xl border border-white/10 bg-slate-950/95 backdrop-blur-xl shadow-2xl overflow-hidden" role="listbox">
+    <div className="max-h-72 overflow-y-auto py-2">
+      {items.map((item, i) => (
+        <button
+          key={`${item.kind}-${labelOf(item)}`}
+          type="button"
+          role="option"
+          aria-selected={i === activeIndex}
+          // Keeps focus in the input, so typing continues after a click
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(item)}
+          onMouseEnter={() => onHover(i)}
+          className={`w-full flex items-baseline gap-4 px-5 py-2 text-left transition-colors ${i === activeIndex ? 'bg-teal-500/10' : ''}`}
+        >
+          <span className={`shrink-0 font-mono text-[13px] ${item.kind === 'template' ? 'text-cyan-300' : 'text-teal-300'}`}>{labelOf(item)}</span>
+          <span className="truncate text-[11px] text-white/40">{descriptionOf(item)}</span>
+        </button>
+      ))}
+    </div>
+    <div className="px-5 py-2 border-t border-white/5 text-[9px] font-black uppercase tracking-[0.2em] text-white/20">{t('slash.hint')}</div>
+  </div>
+);
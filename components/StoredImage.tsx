@@ -0,0 +1,22 @@
+import React, { useEffect, useSyncExternalStore } from 'react';
+import { getDisplayUrl, isBlobRef, loadBlob, subscribeBlobs } from '../services/blobStore';
+
+/** The URL to show or download a data URL or blob ref from; undefined while a stored blob is read back. */
+export const useStoredUrl = (url: string | undefined) => {
+  const displayUrl = useSyncExternalStore(subscribeBlobs, () => (url ? getDisplayUrl(url) : undefined));
+  useEffect(() => {
+    if (url && isBlobRef(url)) loadBlob(url);
+  }, [url]);
+  return displayUrl;
+};
+
+interface StoredImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  /** Data URL or blob ref. */
+  src: string | undefined;
+}
+
+/** An `<img>` for message images, which may live in the blob store; renders nothing until the image is loaded. */
+export const StoredImage: React.FC<StoredImageProps> = ({ src, ...props }) => {
+  const displayUrl = useStoredUrl(src);
+  return displayUrl ? <img src={displayUrl} {...props} /> : null;
+};
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { fillTemplate, templateVariables } from '../utils/templates';
+import { getPersona, hasPersona } from '../services/personaStore';
+import { t } from '../services/i18n';
+
+interface TemplateFormProps {
+  template: PromptTemplate;
+  /** Receives the template text with the variables filled in. */
+  onSubmit: (text: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+/** Inline fill-in form for a picked template, shown above the composer input. */
+export const TemplateForm: React.FC<TemplateFormProps> = ({ template, onSubmit, onCancel, disabled }) => {
+  const variables = templateVariables(template.text);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  const submit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isComplete && !disabled) onSubmit(fillTemplate(template.text, values));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+    else if (e.key === 'Escape') onCancel();
+  };
+
+  return (
+    <form onSubmit={submit} onKeyDown={handleKeyDown} className="mb-4 rounded-2xl border border-cyan-500/20 bg-cyan-500/5 p-4 space-y-3">
+      <div className="flex items-baseline justify-between gap-4">
+        <div className="min-w-0 truncate">
+          <span className="font-mono text-[13px] text-cyan-300">/{template.command}</span>
+          {template.description && <span className="ml-3 text-[11px] text-white/40">{template.description}</span>}
+        </div>
+        {template.persona && hasPersona(template.persona) && (
+          <span className="shrink-0 text-[9px] font-black uppercase tracking-[0.2em] text-white/30">→ {getPersona(template.persona).name}</span>
+        )}
+      </div>
+      {variables.length ? variables.map((name, i) => (
+        <label key={name} className="block">
+          <span className="block text-[9px] font-black uppercase tracking-[0.2em] text-white/30 mb-1">{name}</span>
+          <textarea
+            autoFocus={i === 0}
+            rows={2}
+            value={values[name] ?? ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+            className="w-full bg-black/30 border border-white/10 rounded-lg px-3 py-2 outline-none focus:border-cyan-500/40 text-[12px] text-white/80 resize-y"
+          />
+        </label>
+      )) : (
+        <p className="whitespace-pre-wrap text-[12px] text-white/50 max-h-32 overflow-y-auto">{template.text}</p>
+      )}
+      <div className="flex justify-end gap-2 text-[10px] font-black uppercase tracking-widest">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-white/40 hover:text-white">{t('common.cancel')}</button>
+        <button
+          type="submit"
+          autoFocus={!variables.length}
+          disabled={!isComplete || disabled}
+          className="px-4 py-2 rounded-xl bg-cyan-500/20 text-cyan-300 hover:bg-cyan-500/30 disabled:opacity-30"
+          title={t('template.sendHint')}
+        >
+          {t('message.send')}
+        </button>
+      </div>
+    </form>
+  );
+};
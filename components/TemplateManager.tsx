@@ -0,0 +1,152 @@
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import { Persona, PromptTemplate } from '../types';
+import {
+  createTemplateId,
+  deleteTemplate,
+  exportTemplates,
+  importTemplates,
+  listTemplates,
+  saveTemplate,
+  subscribeTemplates,
+  validateTemplate,
+} from '../services/templateStore';
+import { downloadExport } from '../services/conversationExport';
+import { templateVariables } from '../utils/templates';
+import { t } from '../services/i18n';
+
+interface TemplateManagerProps {
+  personas: Persona[];
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 outline-none focus:border-teal-500/50 text-[12px]';
+const labelClass = 'block text-[9px] font-black uppercase tracking-[0.2em] text-white/30 mb-1.5';
+
+const blankTemplate = (): PromptTemplate => ({ id: createTemplateId(), command: '', description: '', text: '' });
+
+/** Creates, edits, imports and exports the prompt templates offered after `/`. */
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ personas, onClose }) => {
+  const templates = useSyncExternalStore(subscribeTemplates, listTemplates);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<PromptTemplate>(() => templates[0] ?? blankTemplate());
+  const [error, setError] = useState<string | null>(null);
+  const variables = templateVariables(draft.text);
+
+  const update = (patch: Partial<PromptTemplate>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const open = (template: PromptTemplate) => {
+    setDraft(template);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const problem = validateTemplate(draft);
+    setError(problem);
+    if (!problem) saveTemplate(draft);
+  };
+
+  const handleDelete = () => {
+    deleteTemplate(draft.id);
+    open(templates.find(other => other.id !== draft.id) ?? blankTemplate());
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      open(importTemplates(await file.text())[0]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('common.importFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-4xl max-h-full flex rounded-[2rem] border border-white/10 overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <aside className="w-56 shrink-0 border-r border-white/5 flex flex-col">
+          <div className="p-4 text-[10px] font-black uppercase tracking-[0.3em] text-teal-300">{t('template.title')}</div>
+          <nav className="flex-1 overflow-y-auto px-2 space-y-1">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => open(template)}
+                className={`w-full px-3 py-2 rounded-xl text-left transition-all ${
+                  template.id === draft.id ? 'bg-white/10 text-white' : 'text-white/40 hover:bg-white/5'
+                }`}
+              >
+                <div className="font-mono text-[12px] truncate">/{template.command}</div>
+                {template.description && <div className="text-[10px] text-white/30 truncate">{template.description}</div>}
+              </button>
+            ))}
+          </nav>
+          <div className="p-3 border-t border-white/5 grid grid-cols-2 gap-2 text-[9px] font-black uppercase tracking-widest">
+            <button onClick={() => open(blankTemplate())} className="col-span-2 py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('template.new')}</button>
+            <button onClick={() => importInputRef.current?.click()} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('template.import')}</button>
+            <button onClick={() => downloadExport('nikiviti-templates', 'json', exportTemplates())} className="py-2 rounded-lg bg-white/5 hover:text-teal-300">{t('template.export')}</button>
+            <input
+              type="file"
+              ref={importInputRef}
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </aside>
+
+        <section className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label>
+              <span className={labelClass}>{t('template.command')}</span>
+              <div className="flex items-center gap-1">
+                <span className="font-mono text-white/30">/</span>
+                <input value={draft.command} onChange={(e) => update({ command: e.target.value.trim() })} className={`${fieldClass} font-mono`} />
+              </div>
+            </label>
+            <label>
+              <span className={labelClass}>{t('template.persona')}</span>
+              <select value={draft.persona ?? ''} onChange={(e) => update({ persona: e.target.value || undefined })} className={fieldClass}>
+                <option value="" className="bg-slate-900">{t('template.currentPersona')}</option>
+                {personas.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className={labelClass}>{t('template.description')}</span>
+            <input value={draft.description} onChange={(e) => update({ description: e.target.value })} className={fieldClass} />
+          </label>
+
+          <label className="block">
+            <span className={labelClass} title={t('template.textHint')}>{t('template.text')}</span>
+            <textarea
+              value={draft.text}
+              onChange={(e) => update({ text: e.target.value })}
+              rows={10}
+              className={`${fieldClass} resize-y font-mono`}
+            />
+          </label>
+          <p className="text-[11px] text-white/30">
+            {variables.length ? t('template.variables', { names: variables.join(', ') }) : t('template.textHint')}
+          </p>
+
+          {error && <p className="text-[11px] text-rose-400">{error}</p>}
+
+          <div className="flex justify-between pt-2 text-[10px] font-black uppercase tracking-widest">
+            <div className="flex gap-2">
+              {templates.some(other => other.id === draft.id) && (
+                <button onClick={handleDelete} className="px-4 py-2 rounded-xl text-white/40 hover:text-rose-400">{t('common.delete')}</button>
+              )}
+              <button onClick={() => downloadExport(draft.command || 'template', 'json', exportTemplates([draft]))} className="px-4 py-2 rounded-xl text-white/40 hover:text-teal-300">JSON</button>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onClose} className="px-4 py-2 rounded-xl text-white/40 hover:text-white">{t('common.close')}</button>
+              <button onClick={handleSave} className="px-4 py-2 rounded-xl bg-teal-500/20 text-teal-300 hover:bg-teal-500/30">{t('template.save')}</button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
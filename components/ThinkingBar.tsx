@@ -0,0 +1,44 @@
+import React from 'react';
+import { ThinkingPreset } from '../types';
+import { THINKING_BUDGETS } from '../constants';
+import { formatNumber, t } from '../services/i18n';
+
+interface ThinkingBarProps {
+  /** Preset for the next sends; undefined keeps the persona's own budget. */
+  preset?: ThinkingPreset;
+  /** The persona's configured budget, shown on the default chip. */
+  personaBudget?: number;
+  onChange: (preset: ThinkingPreset | undefined) => void;
+  disabled?: boolean;
+}
+
+const PRESETS = Object.keys(THINKING_BUDGETS) as ThinkingPreset[];
+
+const chip = (active: boolean) =>
+  `px-2.5 py-1 rounded-lg border transition-all ${active ? 'bg-teal-500/15 border-teal-500/40 text-teal-300' : 'border-white/5 text-white/30 hover:text-white/60'}`;
+
+const budgetLabel = (budget?: number) => {
+  if (budget === undefined || budget === 0) return t('thinking.off');
+  return budget < 0 ? t('thinking.dynamic') : formatNumber(budget);
+};
+
+/** Reasoning budget presets shown above the input for text personas. */
+export const ThinkingBar: React.FC<ThinkingBarProps> = ({ preset, personaBudget, onChange, disabled }) => (
+  <fieldset disabled={disabled} className="flex flex-wrap items-center gap-1.5 mb-4 text-[9px] font-black uppercase tracking-widest">
+    <span className="text-white/20 mr-1">{t('thinking.label')}</span>
+    <button type="button" onClick={() => onChange(undefined)} className={chip(!preset)} title={t('thinking.personaHint')}>
+      {t('thinking.persona', { budget: budgetLabel(personaBudget) })}
+    </button>
+    {PRESETS.map(option => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onChange(option)}
+        className={chip(preset === option)}
+        title={THINKING_BUDGETS[option] > 0 ? t('common.tokens', { count: THINKING_BUDGETS[option] }) : undefined}
+      >
+        {t(`thinking.${option}`)}
+      </button>
+    ))}
+  </fieldset>
+);
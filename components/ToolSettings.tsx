@@ -0,0 +1,49 @@
+import React, { useSyncExternalStore } from 'react';
+import { TOOLS, getDeniedTools, setToolAllowed, subscribeTools } from '../services/tools';
+import { t } from '../services/i18n';
+
+interface ToolSettingsProps {
+  /** Whether the selected persona may call tools at all. */
+  toolsEnabled: boolean;
+  onClose: () => void;
+}
+
+export const ToolSettings: React.FC<ToolSettingsProps> = ({ toolsEnabled, onClose }) => {
+  const denied = useSyncExternalStore(subscribeTools, getDeniedTools);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-md rounded-[2rem] border border-white/10 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-teal-300">{t('tools.title')}</h2>
+        {!toolsEnabled && (
+          <p className="text-[11px] text-amber-300/70">
+            {t('tools.disabledHint')}
+          </p>
+        )}
+
+        <div className="space-y-2">
+          {TOOLS.map(tool => (
+            <label key={tool.name} className="flex items-start gap-3 rounded-xl border border-white/5 bg-white/[0.02] px-4 py-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!denied.includes(tool.name)}
+                onChange={(e) => setToolAllowed(tool.name, e.target.checked)}
+                className="mt-1 accent-teal-500"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-[12px] font-bold text-white/80">{t(tool.title)}</span>
+                <span className="block font-mono text-[10px] text-white/30">{tool.name}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
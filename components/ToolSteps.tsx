@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { ToolStep, ToolStepStatus } from '../types';
+import { getToolTitle } from '../services/tools';
+import { MessageKey, t } from '../services/i18n';
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+}
+
+const STATUS: Record<ToolStepStatus, { label: MessageKey; className: string }> = {
+  running: { label: 'tools.running', className: 'text-amber-300 animate-pulse' },
+  done: { label: 'tools.done', className: 'text-emerald-400' },
+  denied: { label: 'tools.denied', className: 'text-white/40' },
+  error: { label: 'tools.error', className: 'text-rose-400' },
+};
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2) ?? String(value);
+
+const ToolStepItem: React.FC<{ step: ToolStep }> = ({ step }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const status = STATUS[step.status];
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-black/30">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/50 hover:text-white"
+      >
+        <span className="truncate">⚙ {getToolTitle(step.name)}</span>
+        <span className="flex items-center gap-2">
+          <span className={status.className}>{t(status.label)}</span>
+          <span>{isOpen ? '−' : '+'}</span>
+        </span>
+      </button>
+      {isOpen && (
+        <div className="px-4 pb-3 space-y-2 font-mono text-[11px] text-white/60">
+          <pre className="!m-0 !p-3 whitespace-pre-wrap break-all">{formatJson(step.args)}</pre>
+          {step.result !== undefined && (
+            <pre className="!m-0 !p-3 whitespace-pre-wrap break-all">{formatJson(step.result)}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Collapsible list of the tool calls made while generating a reply. */
+export const ToolSteps: React.FC<ToolStepsProps> = ({ steps }) => (
+  <div className="mb-4 space-y-2">
+    {steps.map(step => <ToolStepItem key={step.id} step={step} />)}
+  </div>
+);
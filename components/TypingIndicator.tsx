@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { t } from '../services/i18n';
 
 interface TypingIndicatorProps {
   isEco?: boolean;
@@ -16,7 +17,7 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ isEco }) => {
         </div>
         {isEco && (
           <span className="text-[10px] font-black text-pink-400 uppercase tracking-[0.3em] animate-pulse">
-            Синтез визуального ряда...
+            {t('message.typingArt')}
           </span>
         )}
       </div>
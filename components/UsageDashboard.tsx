@@ -0,0 +1,135 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { Conversation, TokenUsage } from '../types';
+import { getPrices, resetPrices, setPrice, subscribePrices } from '../services/pricing';
+import { formatNumber, formatUsd, t } from '../services/i18n';
+import { addUsage, estimateCost, summarizeUsage } from '../utils/usage';
+
+interface UsageDashboardProps {
+  conversations: Conversation[];
+  onClose: () => void;
+}
+
+type Grouping = 'conversation' | 'day';
+
+const billedOutput = (usage: TokenUsage) => usage.output + (usage.thoughts ?? 0);
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ conversations, onClose }) => {
+  const prices = useSyncExternalStore(subscribePrices, getPrices);
+  const [grouping, setGrouping] = useState<Grouping>('conversation');
+  const rows = useMemo(() => summarizeUsage(conversations, grouping), [conversations, grouping]);
+
+  // Models seen in the data come first in the price table, so the ones that matter are easy to fix
+  const models = [...new Set([...rows.map(row => row.model), ...Object.keys(prices)])];
+  const costOf = (model: string, usage: TokenUsage) => estimateCost(usage, prices[model]);
+  const total = rows.reduce<TokenUsage | undefined>((sum, row) => addUsage(sum, row.usage), undefined);
+  const totalCost = rows.reduce((sum, row) => sum + (costOf(row.model, row.usage) ?? 0), 0);
+
+  const labelOf = (key: string) =>
+    grouping === 'conversation' ? conversations.find(c => c.id === key)?.title ?? key : key;
+
+  const editPrice = (model: string, field: 'input' | 'output', value: string) => {
+    const price = prices[model] ?? { input: 0, output: 0 };
+    const parsed = Number(value.replace(',', '.'));
+    if (value.trim() && !isNaN(parsed) && parsed >= 0) setPrice(model, { ...price, [field]: parsed });
+  };
+
+  const cell = 'px-3 py-2 text-right font-mono';
+  const head = 'px-3 py-2 text-[9px] font-black uppercase tracking-[0.2em] text-white/30';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel w-full max-w-4xl max-h-full flex flex-col rounded-[2rem] border border-white/10 p-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-cyan-300">{t('usage.title')}</h2>
+          <div className="flex items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+            {(['conversation', 'day'] as Grouping[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGrouping(option)}
+                className={grouping === option ? 'text-white' : 'text-white/40 hover:text-white'}
+              >
+                {t(option === 'conversation' ? 'usage.byConversation' : 'usage.byDay')}
+              </button>
+            ))}
+            <button onClick={onClose} className="text-white/40 hover:text-white">{t('common.close')}</button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-6">
+          {!rows.length ? (
+            <p className="py-16 text-center text-[12px] text-white/30">{t('usage.empty')}</p>
+          ) : (
+            <table className="w-full text-[12px] text-white/70">
+              <thead>
+                <tr className="text-left">
+                  <th className={head}>{t(grouping === 'conversation' ? 'usage.conversation' : 'usage.day')}</th>
+                  <th className={head}>{t('usage.model')}</th>
+                  <th className={`${head} text-right`}>{t('usage.replies')}</th>
+                  <th className={`${head} text-right`}>{t('usage.input')}</th>
+                  <th className={`${head} text-right`}>{t('usage.output')}</th>
+                  <th className={`${head} text-right`}>{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => {
+                  const cost = costOf(row.model, row.usage);
+                  const isFirstOfGroup = i === 0 || rows[i - 1].key !== row.key;
+                  return (
+                    <tr key={`${row.key}\n${row.model}`} className={isFirstOfGroup ? 'border-t border-white/5' : ''}>
+                      <td className="px-3 py-2 max-w-[16rem] truncate">{isFirstOfGroup ? labelOf(row.key) : ''}</td>
+                      <td className="px-3 py-2 font-mono text-white/50">{row.model}</td>
+                      <td className={cell}>{formatNumber(row.replies)}</td>
+                      <td className={cell}>{formatNumber(row.usage.input)}</td>
+                      <td className={cell}>{formatNumber(billedOutput(row.usage))}</td>
+                      <td className={cell}>{cost === undefined ? <span className="text-white/30">{t('usage.noPrice')}</span> : formatUsd(cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              {total && (
+                <tfoot>
+                  <tr className="border-t border-white/10 font-black text-white">
+                    <td className="px-3 py-2" colSpan={2}>{t('usage.total')}</td>
+                    <td className={cell}>{formatNumber(rows.reduce((sum, row) => sum + row.replies, 0))}</td>
+                    <td className={cell}>{formatNumber(total.input)}</td>
+                    <td className={cell}>{formatNumber(billedOutput(total))}</td>
+                    <td className={cell}>{formatUsd(totalCost)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-[9px] font-black uppercase tracking-[0.25em] text-white/30">{t('usage.prices')}</h3>
+              <button onClick={resetPrices} className="text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white">
+                {t('usage.resetPrices')}
+              </button>
+            </div>
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-2 items-center text-[12px]">
+              <span />
+              <span className={head}>{t('usage.input')}</span>
+              <span className={head}>{t('usage.output')}</span>
+              {models.map(model => (
+                <React.Fragment key={model}>
+                  <span className="font-mono text-white/50 truncate">{model}</span>
+                  {(['input', 'output'] as const).map(field => (
+                    <input
+                      key={`${model}-${field}-${prices[model]?.[field] ?? ''}`}
+                      defaultValue={prices[model]?.[field] ?? ''}
+                      onBlur={(e) => editPrice(model, field, e.target.value)}
+                      inputMode="decimal"
+                      className="w-24 bg-black/30 border border-white/10 rounded-lg px-2 py-1 text-right font-mono outline-none focus:border-cyan-500/40"
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+            <p className="text-[11px] text-white/30">{t('usage.estimate')}</p>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
+
+export interface VirtualListHandle {
+  /** Scrolls the row with `key` to the middle of the view, mounting it first if needed. */
+  scrollToKey: (key: string) => void;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** The element that scrolls; the list may sit anywhere inside it. */
+  scrollRef: React.RefObject<HTMLElement | null>;
+  /** Height assumed for rows that have not been mounted yet. */
+  estimatedHeight?: number;
+  /** Space between rows in pixels. */
+  gap?: number;
+  ref?: React.Ref<VirtualListHandle>;
+}
+
+// Rows kept mounted above and below the view, so scrolling does not reveal blank space
+const OVERSCAN_PX = 1200;
+// The view is tracked in steps this size, so scrolling re-renders the list only every so often
+const VIEW_STEP_PX = 200;
+
+/**
+ * Mounts only the rows in and near the view and stands in for the rest with padding, so a
+ * conversation of thousands of messages renders like a short one. Rows are measured once
+ * mounted and estimated until then; the browser's scroll anchoring keeps the view steady as
+ * estimates are corrected above it.
+ */
+export const VirtualList = <T,>({ items, getKey, renderItem, scrollRef, estimatedHeight = 200, gap = 0, ref }: VirtualListProps<T>) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  // Measured heights by key, gap included; they outlive the rows so scrolling back needs no estimate
+  const heights = useRef(new Map<string, number>());
+  const rowObserver = useRef<ResizeObserver | null>(null);
+  const [, setMeasureCount] = useState(0);
+  const [view, setView] = useState({ top: 0, height: 0 });
+
+  const keys = items.map(getKey);
+  const offsets = [0];
+  for (const key of keys) offsets.push(offsets[offsets.length - 1] + (heights.current.get(key) ?? estimatedHeight + gap));
+
+  let start = 0;
+  while (start < keys.length && offsets[start + 1] <= view.top - OVERSCAN_PX) start++;
+  let end = start;
+  while (end < keys.length && offsets[end] < view.top + view.height + OVERSCAN_PX) end++;
+
+  const latest = useRef({ keys, offsets });
+  latest.current = { keys, offsets };
+
+  const updateView = useCallback(() => {
+    const container = scrollRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+    const top = Math.round((container.getBoundingClientRect().top - list.getBoundingClientRect().top) / VIEW_STEP_PX) * VIEW_STEP_PX;
+    const height = container.clientHeight;
+    setView(prev => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, [scrollRef]);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    updateView();
+    const resizeObserver = new ResizeObserver(updateView);
+    resizeObserver.observe(container);
+    container.addEventListener('scroll', updateView, { passive: true });
+    return () => {
+      resizeObserver.disconnect();
+      container.removeEventListener('scroll', updateView);
+    };
+  }, [scrollRef, updateView]);
+
+  useEffect(() => () => rowObserver.current?.disconnect(), []);
+
+  // One observer for every row; stable, so React attaches it once per mounted row
+  const measure = useCallback((row: HTMLDivElement | null) => {
+    if (!row) return;
+    rowObserver.current ??= new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const key = (entry.target as HTMLElement).dataset.key!;
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? (entry.target as HTMLElement).offsetHeight;
+        if (heights.current.get(key) === height) continue;
+        heights.current.set(key, height);
+        changed = true;
+      }
+      if (changed) setMeasureCount(count => count + 1);
+    });
+    const observer = rowObserver.current;
+    observer.observe(row);
+    return () => observer.unobserve(row);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToKey: (key: string) => {
+      const container = scrollRef.current;
+      const list = listRef.current;
+      const index = latest.current.keys.indexOf(key);
+      if (!container || !list || index < 0) return;
+      // Jump to where the row should be so it mounts, then center it once it has been measured
+      const listTop = list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+      container.scrollTop = listTop + latest.current.offsets[index] - container.clientHeight / 2;
+      requestAnimationFrame(() => requestAnimationFrame(() => {
+        list.querySelector(`[data-key="${CSS.escape(key)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }));
+    },
+  }), [scrollRef]);
+
+  return (
+    <div ref={listRef} style={{ paddingTop: offsets[start], paddingBottom: offsets[keys.length] - offsets[end] }}>
+      {keys.slice(start, end).map((key, i) => (
+        <div key={key} data-key={key} ref={measure} style={{ paddingBottom: start + i < keys.length - 1 ? gap : 0 }}>
+          {renderItem(items[start + i])}
+        </div>
+      ))}
+    </div>
+  );
+};
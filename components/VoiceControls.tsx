@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { getSpeakingId, getSpeechLang, getVoiceSettings, saveVoiceSettings, stopSpeech, subscribeVoice } from '../services/speech';
+import { t } from '../services/i18n';
+import { Dictation, isRecognitionSupported, startDictation } from '../services/speechRecognition';
+
+interface VoiceControlsProps {
+  /** Current composer text; dictation is appended to it. */
+  input: string;
+  onInputChange: (text: string) => void;
+  /** Sends a dictated prompt in hands-free mode. */
+  onSubmit: (text: string) => void;
+  /** A reply is being generated; hands-free listening waits for it. */
+  isBusy: boolean;
+  onError: (message: string) => void;
+}
+
+const MicIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+);
+
+/**
+ * Push-to-talk dictation into the composer, plus the hands-free loop: listen, submit when the
+ * phrase ends, wait for the reply to be generated and read aloud, then listen again.
+ */
+export const VoiceControls: React.FC<VoiceControlsProps> = ({ input, onInputChange, onSubmit, isBusy, onError }) => {
+  const settings = useSyncExternalStore(subscribeVoice, getVoiceSettings);
+  const speakingId = useSyncExternalStore(subscribeVoice, getSpeakingId);
+  const [isListening, setIsListening] = useState(false);
+  const dictationRef = useRef<Dictation | null>(null);
+  const transcriptRef = useRef('');
+  // Dictation outlives renders; always submit through the latest callback
+  const onSubmitRef = useRef(onSubmit);
+  onSubmitRef.current = onSubmit;
+
+  const listen = (handsFree: boolean) => {
+    if (dictationRef.current) return;
+    const base = handsFree || !input.trim() ? '' : `${input.trim()} `;
+    transcriptRef.current = '';
+
+    dictationRef.current = startDictation(getSpeechLang(), {
+      onTranscript: (text, isFinal) => {
+        transcriptRef.current = text;
+        onInputChange(base + text);
+        // In hands-free mode the end of a phrase ends the turn
+        if (handsFree && isFinal && text) dictationRef.current?.stop();
+      },
+      onEnd: () => {
+        dictationRef.current = null;
+        setIsListening(false);
+        if (handsFree && transcriptRef.current) {
+          onSubmitRef.current(transcriptRef.current);
+          onInputChange('');
+        }
+      },
+      onError: (error) => {
+        onError(t('voice.unavailable', { error }));
+        // Without microphone access the hands-free loop would restart forever
+        if (error === 'not-allowed' || error === 'service-not-allowed') saveVoiceSettings({ handsFree: false });
+      },
+    });
+    setIsListening(!!dictationRef.current);
+  };
+
+  const stopListening = () => dictationRef.current?.stop();
+
+  // Hands-free loop: listen whenever nothing is being generated or read aloud
+  useEffect(() => {
+    if (settings.handsFree && !isBusy && !speakingId && !isListening) listen(true);
+    if (!settings.handsFree && isListening) dictationRef.current?.cancel();
+  }, [settings.handsFree, isBusy, speakingId, isListening]);
+
+  useEffect(() => () => dictationRef.current?.cancel(), []);
+
+  if (!isRecognitionSupported()) return null;
+
+  return (
+    <button
+      type="button"
+      onPointerDown={() => !settings.handsFree && listen(false)}
+      onPointerUp={() => !settings.handsFree && stopListening()}
+      onPointerLeave={() => !settings.handsFree && stopListening()}
+      onClick={() => {
+        if (!settings.handsFree) return;
+        stopSpeech();
+        saveVoiceSettings({ handsFree: false });
+      }}
+      disabled={isBusy && !settings.handsFree}
+      className={`p-4.5 rounded-2xl border transition-all duration-300 active:scale-90 shadow-sm ${
+        isListening
+          ? 'bg-rose-500/15 border-rose-500/40 text-rose-300 animate-pulse'
+          : settings.handsFree
+            ? 'bg-teal-500/15 border-teal-500/40 text-teal-300'
+            : 'bg-white/5 border-white/10 text-white/40 hover:text-teal-400 hover:bg-teal-500/10 hover:border-teal-500/30'
+      }`}
+      title={settings.handsFree ? t('voice.handsFreeOn') : t('voice.hold')}
+    >
+      <MicIcon />
+    </button>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useSyncExternalStore } from 'react';
+import { getSpeechLang, getVoiceSettings, listVoices, saveVoiceSettings, speakNow, subscribeVoice } from '../services/speech';
+import { t } from '../services/i18n';
+
+interface VoiceSettingsDialogProps {
+  onClose: () => void;
+}
+
+const LANGUAGES = [
+  { id: 'ru-RU', label: 'Русский' },
+  { id: 'en-US', label: 'English' },
+  { id: 'de-DE', label: 'Deutsch' },
+  { id: 'es-ES', label: 'Español' },
+  { id: 'fr-FR', label: 'Français' },
+];
+
+export const VoiceSettingsDialog: React.FC<VoiceSettingsDialogProps> = ({ onClose }) => {
+  const settings = useSyncExternalStore(subscribeVoice, getVoiceSettings);
+  // Voices of the chosen language first, so the useful ones are at the top
+  const prefix = getSpeechLang().split('-')[0];
+  const voices = [...listVoices()].sort((a, b) => Number(b.lang.startsWith(prefix)) - Number(a.lang.startsWith(prefix)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel w-full max-w-md rounded-[2rem] border border-white/10 p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-[11px] font-black uppercase tracking-[0.3em] text-teal-300">{t('voice.title')}</h2>
+
+        <div className="space-y-3 text-[12px]">
+          <label className="flex items-center gap-3">
+            <span className="w-20 text-white/40">{t('voice.language')}</span>
+            <select
+              value={settings.lang}
+              onChange={(e) => saveVoiceSettings({ lang: e.target.value, voiceURI: '' })}
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 outline-none"
+            >
+              <option value="" className="bg-slate-900">{t('voice.languageAuto')}</option>
+              {LANGUAGES.map(l => <option key={l.id} value={l.id} className="bg-slate-900">{l.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-3">
+            <span className="w-20 text-white/40">{t('voice.voice')}</span>
+            <select
+              value={settings.voiceURI}
+              onChange={(e) => saveVoiceSettings({ voiceURI: e.target.value })}
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 outline-none"
+            >
+              <option value="" className="bg-slate-900">{t('voice.defaultVoice')}</option>
+              {voices.map(v => <option key={v.voiceURI} value={v.voiceURI} className="bg-slate-900">{v.name} ({v.lang})</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-3">
+            <span className="w-20 text-white/40">{t('voice.rate')}</span>
+            <input type="range" min={0.5} max={2} step={0.1} value={settings.rate} onChange={(e) => saveVoiceSettings({ rate: Number(e.target.value) })} className="flex-1 accent-teal-500" />
+            <span className="w-8 text-right text-white/50">{settings.rate.toFixed(1)}</span>
+          </label>
+          <label className="flex items-center gap-3">
+            <span className="w-20 text-white/40">{t('voice.pitch')}</span>
+            <input type="range" min={0} max={2} step={0.1} value={settings.pitch} onChange={(e) => saveVoiceSettings({ pitch: Number(e.target.value) })} className="flex-1 accent-teal-500" />
+            <span className="w-8 text-right text-white/50">{settings.pitch.toFixed(1)}</span>
+          </label>
+          <label className="flex items-center gap-3 text-white/60">
+            <input type="checkbox" checked={settings.handsFree} onChange={(e) => saveVoiceSettings({ handsFree: e.target.checked })} className="accent-teal-500" />
+            {t('voice.handsFree')}
+          </label>
+        </div>
+
+        <div className="flex justify-between gap-2 text-[10px] font-black uppercase tracking-widest">
+          <button onClick={() => speakNow('voice-sample', t('voice.sample'))} className="px-4 py-2 rounded-xl border border-white/10 text-white/50 hover:text-white">
+            {t('voice.listen')}
+          </button>
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-white/40 hover:text-white">
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { AccentColor, ModelId, ModelPrice, Persona, PromptTemplate, ThinkingPreset } from './types';
+import type { MessageKey } from './services/i18n';
+
+export const DEFAULT_PERSONA_ID: ModelId = 'pro';
+
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: 'standard',
+    name: 'NikiViti',
+    description: 'Быстрое общение и поиск ответов',
+    systemInstruction: "Вы — NikiViti. Основной нейронный узел Solaris Spectrum. Ваша цель — быстрое, вежливое и точное общение. Вы всегда помните контекст беседы и адаптируетесь под стиль пользователя. Вы лаконичны, но глубоки в своих знаниях.",
+    provider: 'gemini',
+    model: 'gemini-3-flash-preview',
+    temperature: 0.8,
+    accentColor: 'emerald',
+    badge: 'N',
+    contextBudget: 16000,
+    builtIn: true
+  },
+  {
+    id: 'pro',
+    name: 'NikiViti 2.0',
+    description: 'Эксперт в коде и аналитике',
+    systemInstruction: "Вы — NikiViti 2.0. Элитный модуль программирования и системного анализа. Вы — старший инженер с глубочайшим пониманием архитектуры ПО, алгоритмов и современного стека (React, TS, Python, Go, Rust). Ваш код всегда чист (Clean Code), документирован и готов к продакшну. Вы используете сложные рассуждения, чтобы решать нестандартные задачи. Вы обладаете идеальной памятью на контекст текущей сессии.",
+    provider: 'gemini',
+    model: 'gemini-3-pro-preview',
+    temperature: 0.2, // Low temperature for 2.0 ensures precision in code.
+    thinkingBudget: 4000, // Enable reasoning for 2.0
+    accentColor: 'teal',
+    badge: '2.0',
+    contextBudget: 48000,
+    toolsEnabled: true,
+    builtIn: true
+  },
+  {
+    id: 'eco',
+    name: 'NikiViti Art',
+    description: 'Визуальное воображение',
+    systemInstruction: "Вы — NikiViti Art. Творческий синтезатор Solaris. Ваша задача — переводить абстрактные идеи в детализированные визуальные описания (промпты). Вы используете поэтичный, художественный и технически точный язык для описания света, текстур и композиции. Вы вдохновляете пользователя на создание визуальных шедевров.",
+    provider: 'gemini',
+    model: 'gemini-2.5-flash-image',
+    temperature: 0.8,
+    accentColor: 'cyan',
+    badge: 'A',
+    contextBudget: 0, // Each art prompt stands on its own
+    promptPrefix: 'Art Concept: ',
+    imageOutput: true,
+    builtIn: true
+  }
+];
+
+/** Templates a fresh install starts with; once edited, the stored list replaces them. */
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'review',
+    command: 'review',
+    description: 'Ревью диффа',
+    text: 'Проведи ревью этого диффа: найди ошибки, проблемы производительности и безопасности, предложи исправления.\n\n{{diff}}',
+    persona: 'pro',
+  },
+  {
+    id: 'tests',
+    command: 'tests',
+    description: 'Тесты для кода',
+    text: 'Напиши тесты на {{framework}} для этого кода, покрой граничные случаи.\n\n{{code}}',
+    persona: 'pro',
+  },
+  {
+    id: 'art',
+    command: 'art',
+    description: 'Идея → промпт для изображения',
+    text: '{{idea}}. Стиль: {{style}}.',
+    persona: 'eco',
+  },
+];
+
+/** Thinking budgets behind the per-send presets; -1 lets the model decide. */
+export const THINKING_BUDGETS: Record<ThinkingPreset, number> = {
+  off: 0,
+  low: 1024,
+  high: 8192,
+  dynamic: -1,
+};
+
+export const ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+/** Style presets for image-output personas; `prompt` is appended to the user's description. */
+export const ART_STYLES: { id: string; label: MessageKey; prompt: string }[] = [
+  { id: 'photo', label: 'art.style.photo', prompt: 'photorealistic photograph, natural lighting, shallow depth of field' },
+  { id: 'watercolor', label: 'art.style.watercolor', prompt: 'delicate watercolor painting on textured paper' },
+  { id: 'anime', label: 'art.style.anime', prompt: 'anime illustration, clean line art, cel shading' },
+  { id: 'render', label: 'art.style.render', prompt: 'high-detail 3D render, global illumination' },
+  { id: 'pixel', label: 'art.style.pixel', prompt: '16-bit pixel art, limited palette' },
+  { id: 'sketch', label: 'art.style.sketch', prompt: 'pencil sketch, cross-hatching, monochrome' },
+];
+
+export const MAX_VARIATIONS = 4;
+
+/** How many personas a compare prompt can be sent to. */
+export const MAX_COMPARED = 3;
+
+/**
+ * List prices per million tokens for the models the built-in personas use, for cost estimates.
+ * Editable in the usage dashboard; models missing here are shown without a cost.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  // Generated images are billed as output tokens at the image rate
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+};
+
+/** Gemini model that embeds knowledge-base passages and queries when semantic retrieval is on. */
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+
+interface AccentClasses {
+  /** Gradient stops for badges and the send button. */
+  gradient: string;
+  /** Model reply bubble. */
+  bubble: string;
+  /** Meta line under a reply. */
+  meta: string;
+}
+
+export const ACCENTS: Record<AccentColor, AccentClasses> = {
+  emerald: {
+    gradient: 'from-emerald-500 to-green-600',
+    bubble: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-50 shadow-emerald-500/5',
+    meta: 'text-emerald-400/40'
+  },
+  teal: {
+    gradient: 'from-teal-400 to-emerald-600',
+    bubble: 'bg-teal-500/10 border-teal-500/20 text-teal-50 shadow-teal-500/5',
+    meta: 'text-teal-400/40'
+  },
+  cyan: {
+    gradient: 'from-cyan-400 to-blue-500',
+    bubble: 'bg-cyan-500/10 border-cyan-500/20 text-cyan-50 shadow-cyan-500/5',
+    meta: 'text-cyan-400/40'
+  },
+  violet: {
+    gradient: 'from-violet-400 to-fuchsia-600',
+    bubble: 'bg-violet-500/10 border-violet-500/20 text-violet-50 shadow-violet-500/5',
+    meta: 'text-violet-400/40'
+  },
+  rose: {
+    gradient: 'from-rose-400 to-pink-600',
+    bubble: 'bg-rose-500/10 border-rose-500/20 text-rose-50 shadow-rose-500/5',
+    meta: 'text-rose-400/40'
+  },
+  amber: {
+    gradient: 'from-amber-400 to-orange-600',
+    bubble: 'bg-amber-500/10 border-amber-500/20 text-amber-50 shadow-amber-500/5',
+    meta: 'text-amber-400/40'
+  }
+};
@@ -0,0 +1,336 @@
+import type { Catalog } from "../services/i18n";
+
+export const en: Catalog = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.download': 'Download',
+  'common.edit': 'Edit',
+  'common.importFailed': 'Could not import the file.',
+  'common.tokens': { one: '{count} token', other: '{count} tokens' },
+
+  'chat.newTitle': 'New channel',
+  'chat.attachmentOnly': '[Visual request]',
+  'chat.welcome': 'NikiViti Solaris Spectrum v2.0 is online. All memory modules are enabled. I remember every word you say to keep the context precise. How can I help?',
+  'chat.storageUnavailable': 'Memory storage is unavailable. History will not be saved.',
+  'chat.linkError': 'Lost the link to the Solaris core.',
+  'chat.retryFailed': 'Resend this message',
+  'chat.dropFiles': 'Drop files to attach them',
+
+  'header.channels': 'Channels',
+  'header.language': 'Interface language',
+  'header.export': 'Export',
+  'header.gallery': 'Gallery',
+  'header.search': 'Search',
+  'header.usage': 'Usage',
+  'header.knowledge': 'Knowledge',
+  'header.persona': 'Processing Unit',
+  'header.memory': 'Memory',
+
+  'composer.personaEditor': 'Persona editor',
+  'composer.tools': 'Tools',
+  'composer.voice': 'Voice',
+  'composer.compare': 'Compare personas',
+  'composer.templates': 'Templates and commands',
+  'composer.attach': 'Attach files',
+  'composer.placeholder': 'Input command to Solaris...',
+  'composer.placeholderArt': 'Describe the vision...',
+  'composer.stop': 'Stop generation',
+
+  'message.client': 'Client',
+  'message.model': 'NikiViti Core',
+  'message.send': 'Send',
+  'message.generatedArt': 'Generated Art',
+  'message.edit': 'Edit',
+  'message.editImage': 'Edit image',
+  'message.editImageHint': 'Edit this image',
+  'message.regenerate': 'Retry',
+  'message.regenerateHint': 'Generate again',
+  'message.inMemory': 'In memory',
+  'message.inMemoryHint': 'The whole message is sent to the model',
+  'message.archived': 'Archived',
+  'message.archivedHint': 'The message is condensed into the memory summary',
+  'message.thoughtTokens': { one: 'reasoning: {count} token', other: 'reasoning: {count} tokens' },
+  'message.thoughtTokensHint': 'Tokens spent on reasoning; billed as reply tokens',
+  'message.typingArt': 'Synthesizing visuals...',
+  'message.memorySummary': 'Memory summary',
+
+  'code.wrap': 'Wrap',
+  'code.copy': 'Copy',
+  'code.copied': 'Copied',
+  'code.run': 'Run',
+  'code.stop': 'Stop',
+
+  'run.finished': 'Finished',
+  'run.failed': 'Failed',
+  'run.timedOutShort': 'Timed out',
+  'run.timedOut': 'The code did not finish within {seconds} s and was stopped',
+  'run.duration': '{ms} ms',
+  'run.noOutput': 'No output',
+  'run.stopped': 'Run stopped',
+  'run.stoppedShort': 'Stopped',
+  'run.truncated': 'Output truncated after {count} lines',
+  'run.workerFailed': 'Could not start the sandbox',
+  'run.noTranspiler': 'The TypeScript compiler did not load; reload the page',
+  'run.sendError': 'Send error to the model',
+  'run.fixPrompt': 'This code failed:\n\n```{lang}\n{code}\n```\n\nError: {error}\n\nPlease fix it.',
+  'run.fixOutput': 'Output before the error:\n\n```\n{output}\n```',
+
+  'sidebar.create': '+ New channel',
+  'sidebar.import': 'Import from JSON',
+  'sidebar.pin': 'Pin',
+  'sidebar.unpin': 'Unpin',
+  'sidebar.rename': 'Rename',
+
+  'attachments.remove': 'Remove',
+  'attachments.unsupported': 'File “{name}” is not supported: images, PDFs and text files are accepted.',
+  'attachments.tooLarge': 'File “{name}” is too large: the limit is {limit}.',
+  'attachments.readFailed': 'Could not read “{name}”.',
+  'attachments.tooMany': 'At most {max} attachments per message.',
+
+  'reasoning.title': 'Reasoning',
+  'reasoning.thinking': 'Thinking…',
+
+  'thinking.label': 'Reasoning',
+  'thinking.persona': 'Persona ({budget})',
+  'thinking.personaHint': 'Budget from the persona settings',
+  'thinking.off': 'Off',
+  'thinking.low': 'Low',
+  'thinking.high': 'High',
+  'thinking.dynamic': 'Dynamic',
+
+  'compare.label': 'Compare',
+  'compare.count': '{count} of {max}',
+  'compare.tooFew': 'Pick at least two personas to compare.',
+  'compare.title': 'Compared answers',
+  'compare.streaming': 'Answering…',
+  'compare.tokens': 'reply {output} • {total} tokens in total',
+  'compare.noUsage': 'Token usage not reported',
+  'compare.unknownPersona': 'Unknown persona',
+  'compare.pick': 'Continue with this one',
+
+  'tools.title': 'Tools',
+  'tools.disabledHint': 'Tools are turned off for the selected persona — enable them in the persona editor.',
+  'tools.running': 'Running',
+  'tools.done': 'Done',
+  'tools.denied': 'Denied',
+  'tools.error': 'Error',
+  'tools.calculator': 'Calculator',
+  'tools.dateTime': 'Date and time',
+  'tools.unitConversion': 'Unit converter',
+  'tools.attachments': 'Conversation files',
+
+  'voice.title': 'Voice',
+  'voice.language': 'Language',
+  'voice.languageAuto': 'Same as interface',
+  'voice.voice': 'Voice',
+  'voice.defaultVoice': 'Default',
+  'voice.rate': 'Rate',
+  'voice.pitch': 'Pitch',
+  'voice.handsFree': 'Hands-free mode: send what you dictate and read replies aloud',
+  'voice.listen': 'Preview',
+  'voice.sample': 'The NikiViti Solaris core is online. This is how the selected voice sounds.',
+  'voice.handsFreeOn': 'Hands-free mode is on — click to turn it off',
+  'voice.hold': 'Hold to dictate',
+  'voice.unavailable': 'Speech recognition is unavailable ({error}).',
+
+  'speech.code': { one: 'Code block, {count} line.', other: 'Code block, {count} lines.' },
+  'speech.codeLang': { one: 'Code block in {lang}, {count} line.', other: 'Code block in {lang}, {count} lines.' },
+  'speech.inlineCode': 'code snippet',
+  'speech.table': { one: 'Table: {count} row.', other: 'Table: {count} rows.' },
+
+  'export.title': 'Export channel',
+  'export.you': 'You',
+  'export.user': 'User',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.wholeTree': 'The whole channel, including alternative branches.',
+  'export.wholeBranch': 'The whole current branch.',
+  'export.selected': 'Messages selected: {count}.',
+  'export.failed': 'Could not read the stored images for the export',
+  'export.attachment': 'attachment: {name}, {size}',
+  'export.generatedImage': 'generated image',
+
+  'import.rejected': 'Import rejected: {reason}',
+  'import.personasRejected': 'Persona import rejected: {reason}',
+  'import.templatesRejected': 'Template import rejected: {reason}',
+  'import.defaultTitle': 'Import',
+  'import.notJson': 'the file is not JSON',
+  'import.unknownFormat': 'unknown file format',
+  'import.unsupportedVersion': 'unsupported version {version}',
+  'import.noMessages': 'the file has no messages',
+  'import.noPersonas': 'the file has no personas',
+  'import.noTemplates': 'the file has no templates',
+  'import.missing': 'field {field} is missing',
+  'import.duplicate': 'field {field} is duplicated',
+  'import.invalid': 'field {field} is invalid',
+  'import.notString': 'field {field} must be a string',
+  'import.notNumber': 'field {field} must be a number',
+  'import.outOfRange': 'field {field} must be a number from {min} to {max}',
+  'import.notArray': 'field {field} must be an array',
+  'import.notDate': 'field {field} is not a date',
+  'import.notImageUrl': 'field {field} must be a data:image URL',
+  'import.noData': 'field {field} has no data',
+  'import.parentMissing': 'parent {id} not found',
+  'import.parentCycle': 'message {id} is its own ancestor',
+
+  'info.title': 'Details',
+  'info.provider': 'Provider',
+  'info.model': 'Model',
+  'info.tokens': 'Tokens',
+  'info.tokenBreakdown': 'prompt {input} • reply {output} • total {total}',
+  'info.thoughts': 'reasoning {count}',
+  'info.cost': 'Estimated cost',
+  'info.finishReason': 'Finish reason',
+  'info.latency': 'Response time',
+  'info.firstChunk': 'first chunk after {seconds} s',
+  'info.seconds': '{seconds} s',
+  'info.safety': 'Safety',
+  'info.blocked': 'blocked',
+  'info.noUsage': 'The provider did not report token usage.',
+
+  'usage.title': 'Usage',
+  'usage.byConversation': 'By channel',
+  'usage.byDay': 'By day',
+  'usage.conversation': 'Channel',
+  'usage.day': 'Day',
+  'usage.model': 'Model',
+  'usage.replies': 'Replies',
+  'usage.input': 'Prompt',
+  'usage.output': 'Reply',
+  'usage.cost': 'Cost',
+  'usage.total': 'Total',
+  'usage.empty': 'No replies with usage data yet.',
+  'usage.prices': 'Prices, $ per 1M tokens',
+  'usage.resetPrices': 'Reset prices',
+  'usage.noPrice': 'no price',
+  'usage.estimate': 'Costs are estimates from the price table; reasoning tokens are billed at the reply rate.',
+
+  'art.aspectRatio': 'Aspect',
+  'art.style': 'Style',
+  'art.freeStyle': 'Free',
+  'art.variations': 'Variations',
+  'art.style.photo': 'Photo',
+  'art.style.watercolor': 'Watercolor',
+  'art.style.anime': 'Anime',
+  'art.style.render': '3D',
+  'art.style.pixel': 'Pixel art',
+  'art.style.sketch': 'Sketch',
+
+  'gallery.title': 'Gallery',
+  'gallery.empty': 'Generated images will appear here.',
+  'gallery.reusePrompt': 'Reuse prompt',
+  'gallery.lineage': 'Lineage',
+
+  'search.title': 'Search',
+  'search.placeholder': 'Words from a message…',
+  'search.anyRole': 'Any author',
+  'search.anyPersona': 'Any persona',
+  'search.from': 'from',
+  'search.to': 'to',
+  'search.hasImage': 'has image',
+  'search.hasCode': 'has code',
+  'search.image': 'image',
+  'search.code': 'code',
+  'search.found': { one: '{count} message found', other: '{count} messages found' },
+  'search.noResults': 'Nothing found.',
+  'search.hint': 'Type some words or pick a filter to search every channel.',
+
+  'knowledge.title': 'Knowledge base',
+  'knowledge.add': 'Add files',
+  'knowledge.adding': 'Adding…',
+  'knowledge.enabled': 'Add passages to prompts',
+  'knowledge.topK': 'Passages per prompt',
+  'knowledge.embeddings': 'Embeddings',
+  'knowledge.embeddingsHint': 'Rank by meaning as well as by words; documents are sent to the provider to be embedded',
+  'knowledge.embedding': 'Embedding…',
+  'knowledge.embedded': 'vectors',
+  'knowledge.empty': 'Add Markdown, text or code and answers will draw on it and cite their sources.',
+  'knowledge.unsupported': 'File “{name}” is not text: Markdown, text and code are accepted.',
+  'knowledge.chunks': { one: '{count} passage', other: '{count} passages' },
+  'knowledge.summary': { one: '{count} passage in total; up to {top} are sent with each prompt.', other: '{count} passages in total; up to {top} are sent with each prompt.' },
+  'knowledge.sources': 'Sources',
+  'knowledge.lines': 'lines {start}–{end}',
+
+  'persona.title': 'Personas',
+  'persona.new': 'New',
+  'persona.clone': 'Clone',
+  'persona.import': 'Import',
+  'persona.export': 'Export',
+  'persona.blankName': 'New persona',
+  'persona.copyName': '{name} (copy)',
+  'persona.name': 'Name',
+  'persona.description': 'Description',
+  'persona.systemInstruction': 'System instruction',
+  'persona.provider': 'Provider',
+  'persona.model': 'Model',
+  'persona.thinkingHint': 'Empty — no reasoning, -1 — dynamic',
+  'persona.contextBudget': 'Memory budget (tokens)',
+  'persona.promptPrefix': 'Prompt prefix',
+  'persona.accent': 'Accent',
+  'persona.imageOutput': 'Generates images',
+  'persona.toolsEnabled': 'Can call tools',
+  'persona.required': 'Name and model are required.',
+  'persona.reset': 'Reset',
+  'persona.save': 'Save',
+  'persona.saveAndSelect': 'Save and select',
+
+  'template.title': 'Templates',
+  'template.new': 'New',
+  'template.import': 'Import',
+  'template.export': 'Export',
+  'template.command': 'Command',
+  'template.description': 'Description',
+  'template.persona': 'Persona',
+  'template.currentPersona': "Channel's current persona",
+  'template.text': 'Prompt text',
+  'template.textHint': '{{name}} in the text is a variable filled in before sending.',
+  'template.variables': 'Variables: {names}',
+  'template.required': 'Command and text are required.',
+  'template.invalidCommand': 'The command is one word of letters, digits, “-” and “_”.',
+  'template.reservedCommand': '/{command} is a built-in command.',
+  'template.duplicateCommand': 'Template /{command} already exists.',
+  'template.save': 'Save',
+  'template.sendHint': 'Ctrl+Enter',
+
+  'slash.model': "Switch the channel's persona",
+  'slash.clear': 'Clear the channel',
+  'slash.export': 'Export the channel',
+  'slash.retry': 'Answer the last prompt again',
+  'slash.templates': 'Template editor',
+  'slash.hint': '↑↓ select • Enter apply • Esc close',
+  'slash.unknownPersona': 'Unknown persona “{name}”.',
+
+  'cli.usage': 'Usage: npm run cli -- [--prompt <text>|-] [--model <persona>] [--image <file>]... [--thinking off|low|high|dynamic] [--knowledge <file>]... [--lang ru|en]\nWithout --prompt an interactive session starts; "-" reads the prompt from stdin.',
+  'cli.commands': '/model [pro|standard|eco] — switch persona\n/thinking [off|low|high|dynamic|default] — reasoning budget\n/image <file> — attach a file to the next message\n/save [file] — save the channel as JSON\n/new — new channel\n/exit — quit',
+  'cli.welcome': 'NikiViti Solaris: {name}. /help lists the commands.',
+  'cli.model': 'Persona: {name}.',
+  'cli.unknownModel': 'Unknown persona “{id}”. Available: {ids}.',
+  'cli.unknownCommand': 'Unknown command {command}. /help lists the commands.',
+  'cli.thinking': 'Reasoning: {preset}.',
+  'cli.unknownThinking': 'Unknown reasoning preset “{preset}”. Available: {presets}.',
+  'cli.attached': '“{name}” will be sent with the next message.',
+  'cli.saved': 'Channel saved to {path}.',
+  'cli.imageSaved': 'Image saved to {path}.',
+  'cli.newConversation': 'Opened a new channel.',
+  'cli.emptyPrompt': 'The prompt is empty.',
+
+  'error.auth': 'The API key was rejected. Check API_KEY in your environment settings.',
+  'error.rate-limit': 'Too many requests. Wait a moment and try again.',
+  'error.quota': 'The API quota is exhausted. Check your plan and project limits.',
+  'error.safety': 'The reply was blocked by the safety filter. Rephrase the request.',
+  'error.network': 'No connection to the Solaris core. Check your network connection.',
+  'error.timeout': 'The Solaris core did not answer in time. Try again.',
+  'error.empty': 'The Solaris core returned an empty reply. Try again.',
+  'error.unknown': 'Critical Solaris link failure. Please restart the neural node.',
+
+  'model.replyLanguage': 'Reply in English unless the user explicitly asks for another language.',
+  'model.summary': 'Summary of the earlier part of the conversation:\n{summary}',
+  'model.knowledge': "Passages from the user's knowledge base. If they bear on the question, rely on them and cite the source by its number in square brackets, e.g. [1].",
+  'model.citationLines': 'lines {start}–{end}',
+  'model.attachedFile': 'File: {name}',
+  'model.summaryInstruction': "You are NikiViti's memory module. Condense the given part of the conversation into a short summary in the conversation's language. Keep facts, decisions, names, the user's requirements, important code and open questions. If a current summary is given, merge it with the new turns into one. Reply with the summary text only.",
+  'model.summaryTurns': 'Turns:\n{transcript}',
+  'model.summaryUpdate': 'Current summary:\n{summary}\n\nNew turns:\n{transcript}',
+  'model.userLabel': 'User',
+};
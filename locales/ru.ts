@@ -0,0 +1,336 @@
+// Source catalog: every key used by the UI lives here first; other locales are checked against it
+export const ru = {
+  'common.cancel': 'Отмена',
+  'common.close': 'Закрыть',
+  'common.delete': 'Удалить',
+  'common.download': 'Скачать',
+  'common.edit': 'Редактировать',
+  'common.importFailed': 'Не удалось импортировать файл.',
+  'common.tokens': { one: '{count} токен', few: '{count} токена', many: '{count} токенов', other: '{count} токена' },
+
+  'chat.newTitle': 'Новый канал',
+  'chat.attachmentOnly': '[Визуальный запрос]',
+  'chat.welcome': 'Система NikiViti Solaris Spectrum v2.0 активна. Все модули памяти включены. Я запоминаю каждое ваше слово для максимально точного контекста. Чем могу помочь?',
+  'chat.storageUnavailable': 'Хранилище памяти недоступно. История не будет сохранена.',
+  'chat.linkError': 'Ошибка связи с ядром Solaris.',
+  'chat.retryFailed': 'Повторить это сообщение',
+  'chat.dropFiles': 'Отпустите файлы, чтобы прикрепить',
+
+  'header.channels': 'Каналы',
+  'header.language': 'Язык интерфейса',
+  'header.export': 'Экспорт',
+  'header.gallery': 'Галерея',
+  'header.search': 'Поиск',
+  'header.usage': 'Расход',
+  'header.knowledge': 'Знания',
+  'header.persona': 'Узел обработки',
+  'header.memory': 'Память',
+
+  'composer.personaEditor': 'Редактор персон',
+  'composer.tools': 'Инструменты',
+  'composer.voice': 'Голос',
+  'composer.compare': 'Сравнить персоны',
+  'composer.templates': 'Шаблоны и команды',
+  'composer.attach': 'Прикрепить файлы',
+  'composer.placeholder': 'Команда для Solaris...',
+  'composer.placeholderArt': 'Опишите образ...',
+  'composer.stop': 'Остановить генерацию',
+
+  'message.client': 'Клиент',
+  'message.model': 'NikiViti Core',
+  'message.send': 'Отправить',
+  'message.generatedArt': 'Сгенерированное изображение',
+  'message.edit': 'Правка',
+  'message.editImage': 'Правка изображения',
+  'message.editImageHint': 'Редактировать изображение',
+  'message.regenerate': 'Заново',
+  'message.regenerateHint': 'Сгенерировать заново',
+  'message.inMemory': 'В памяти',
+  'message.inMemoryHint': 'Сообщение передаётся модели целиком',
+  'message.archived': 'В архиве',
+  'message.archivedHint': 'Сообщение сжато в сводку памяти',
+  'message.thoughtTokens': { one: 'рассуждения: {count} токен', few: 'рассуждения: {count} токена', many: 'рассуждения: {count} токенов', other: 'рассуждения: {count} токена' },
+  'message.thoughtTokensHint': 'Токены, потраченные на рассуждения; оплачиваются как ответ',
+  'message.typingArt': 'Синтез визуального ряда...',
+  'message.memorySummary': 'Сводка памяти',
+
+  'code.wrap': 'Перенос',
+  'code.copy': 'Копировать',
+  'code.copied': 'Скопировано',
+  'code.run': 'Запустить',
+  'code.stop': 'Остановить',
+
+  'run.finished': 'Выполнено',
+  'run.failed': 'Ошибка',
+  'run.timedOutShort': 'Превышено время',
+  'run.timedOut': 'Код не завершился за {seconds} с и был остановлен',
+  'run.duration': '{ms} мс',
+  'run.noOutput': 'Нет вывода',
+  'run.stopped': 'Выполнение остановлено',
+  'run.stoppedShort': 'Остановлено',
+  'run.truncated': 'Вывод обрезан после {count} строк',
+  'run.workerFailed': 'Не удалось запустить песочницу',
+  'run.noTranspiler': 'Компилятор TypeScript не загрузился; обновите страницу',
+  'run.sendError': 'Отправить ошибку модели',
+  'run.fixPrompt': 'Этот код завершился ошибкой:\n\n```{lang}\n{code}\n```\n\nОшибка: {error}\n\nИсправь его.',
+  'run.fixOutput': 'Вывод до ошибки:\n\n```\n{output}\n```',
+
+  'sidebar.create': '+ Новый канал',
+  'sidebar.import': 'Импорт из JSON',
+  'sidebar.pin': 'Закрепить',
+  'sidebar.unpin': 'Открепить',
+  'sidebar.rename': 'Переименовать',
+
+  'attachments.remove': 'Убрать',
+  'attachments.unsupported': 'Файл «{name}» не поддерживается: допустимы изображения, PDF и текстовые файлы.',
+  'attachments.tooLarge': 'Файл «{name}» слишком большой: максимум {limit}.',
+  'attachments.readFailed': 'Не удалось прочитать «{name}».',
+  'attachments.tooMany': 'Не больше {max} вложений в одном сообщении.',
+
+  'reasoning.title': 'Рассуждения',
+  'reasoning.thinking': 'Размышляет…',
+
+  'thinking.label': 'Рассуждения',
+  'thinking.persona': 'Как у персоны ({budget})',
+  'thinking.personaHint': 'Бюджет из настроек персоны',
+  'thinking.off': 'Выкл',
+  'thinking.low': 'Мало',
+  'thinking.high': 'Много',
+  'thinking.dynamic': 'Авто',
+
+  'compare.label': 'Сравнить',
+  'compare.count': '{count} из {max}',
+  'compare.tooFew': 'Для сравнения выберите хотя бы две персоны.',
+  'compare.title': 'Сравнение ответов',
+  'compare.streaming': 'Отвечает…',
+  'compare.tokens': 'ответ {output} • всего {total} токенов',
+  'compare.noUsage': 'Расход токенов неизвестен',
+  'compare.unknownPersona': 'Неизвестная персона',
+  'compare.pick': 'Продолжить с этим ответом',
+
+  'tools.title': 'Инструменты',
+  'tools.disabledHint': 'У выбранной персоны инструменты выключены — включите их в редакторе персон.',
+  'tools.running': 'Выполняется',
+  'tools.done': 'Готово',
+  'tools.denied': 'Запрещено',
+  'tools.error': 'Ошибка',
+  'tools.calculator': 'Калькулятор',
+  'tools.dateTime': 'Дата и время',
+  'tools.unitConversion': 'Конвертер единиц',
+  'tools.attachments': 'Вложения беседы',
+
+  'voice.title': 'Голос',
+  'voice.language': 'Язык',
+  'voice.languageAuto': 'Как в интерфейсе',
+  'voice.voice': 'Голос',
+  'voice.defaultVoice': 'По умолчанию',
+  'voice.rate': 'Скорость',
+  'voice.pitch': 'Тон',
+  'voice.handsFree': 'Режим без рук: отправлять надиктованное и читать ответы вслух',
+  'voice.listen': 'Прослушать',
+  'voice.sample': 'Ядро NikiViti Solaris на связи. Так звучит выбранный голос.',
+  'voice.handsFreeOn': 'Режим без рук включён — нажмите, чтобы выключить',
+  'voice.hold': 'Удерживайте, чтобы диктовать',
+  'voice.unavailable': 'Распознавание речи недоступно ({error}).',
+
+  'speech.code': { one: 'Фрагмент кода, {count} строка.', few: 'Фрагмент кода, {count} строки.', many: 'Фрагмент кода, {count} строк.', other: 'Фрагмент кода, {count} строки.' },
+  'speech.codeLang': { one: 'Фрагмент кода на {lang}, {count} строка.', few: 'Фрагмент кода на {lang}, {count} строки.', many: 'Фрагмент кода на {lang}, {count} строк.', other: 'Фрагмент кода на {lang}, {count} строки.' },
+  'speech.inlineCode': 'фрагмент кода',
+  'speech.table': { one: 'Таблица: {count} строка.', few: 'Таблица: {count} строки.', many: 'Таблица: {count} строк.', other: 'Таблица: {count} строки.' },
+
+  'export.title': 'Экспорт канала',
+  'export.you': 'Вы',
+  'export.user': 'Пользователь',
+  'export.from': 'С',
+  'export.to': 'По',
+  'export.wholeTree': 'Весь канал, включая альтернативные ветки.',
+  'export.wholeBranch': 'Вся текущая ветка.',
+  'export.selected': 'Выбрано сообщений: {count}.',
+  'export.failed': 'Не удалось прочитать сохранённые изображения для экспорта',
+  'export.attachment': 'вложение: {name}, {size}',
+  'export.generatedImage': 'сгенерированное изображение',
+
+  'import.rejected': 'Импорт отклонён: {reason}',
+  'import.personasRejected': 'Импорт персон отклонён: {reason}',
+  'import.templatesRejected': 'Импорт шаблонов отклонён: {reason}',
+  'import.defaultTitle': 'Импорт',
+  'import.notJson': 'файл не является JSON',
+  'import.unknownFormat': 'неизвестный формат файла',
+  'import.unsupportedVersion': 'неподдерживаемая версия {version}',
+  'import.noMessages': 'в файле нет сообщений',
+  'import.noPersonas': 'в файле нет персон',
+  'import.noTemplates': 'в файле нет шаблонов',
+  'import.missing': 'поле {field} отсутствует',
+  'import.duplicate': 'поле {field} повторяется',
+  'import.invalid': 'поле {field} недопустимо',
+  'import.notString': 'поле {field} должно быть строкой',
+  'import.notNumber': 'поле {field} должно быть числом',
+  'import.outOfRange': 'поле {field} должно быть числом от {min} до {max}',
+  'import.notArray': 'поле {field} должно быть массивом',
+  'import.notDate': 'поле {field} не является датой',
+  'import.notImageUrl': 'поле {field} должно быть data:image URL',
+  'import.noData': 'поле {field} не содержит данных',
+  'import.parentMissing': 'родитель {id} не найден',
+  'import.parentCycle': 'сообщение {id} замыкает цепочку родителей на себя',
+
+  'info.title': 'Сведения',
+  'info.provider': 'Провайдер',
+  'info.model': 'Модель',
+  'info.tokens': 'Токены',
+  'info.tokenBreakdown': 'запрос {input} • ответ {output} • всего {total}',
+  'info.thoughts': 'рассуждения {count}',
+  'info.cost': 'Оценка стоимости',
+  'info.finishReason': 'Завершение',
+  'info.latency': 'Время ответа',
+  'info.firstChunk': 'первый фрагмент через {seconds} с',
+  'info.seconds': '{seconds} с',
+  'info.safety': 'Безопасность',
+  'info.blocked': 'заблокировано',
+  'info.noUsage': 'Провайдер не сообщил расход токенов.',
+
+  'usage.title': 'Расход',
+  'usage.byConversation': 'По каналам',
+  'usage.byDay': 'По дням',
+  'usage.conversation': 'Канал',
+  'usage.day': 'День',
+  'usage.model': 'Модель',
+  'usage.replies': 'Ответов',
+  'usage.input': 'Запрос',
+  'usage.output': 'Ответ',
+  'usage.cost': 'Стоимость',
+  'usage.total': 'Итого',
+  'usage.empty': 'Пока нет ответов с данными о расходе.',
+  'usage.prices': 'Цены, $ за 1 млн токенов',
+  'usage.resetPrices': 'Сбросить цены',
+  'usage.noPrice': 'нет цены',
+  'usage.estimate': 'Стоимость — оценка по таблице цен; токены рассуждений считаются по цене ответа.',
+
+  'art.aspectRatio': 'Формат',
+  'art.style': 'Стиль',
+  'art.freeStyle': 'Свободный',
+  'art.variations': 'Вариантов',
+  'art.style.photo': 'Фото',
+  'art.style.watercolor': 'Акварель',
+  'art.style.anime': 'Аниме',
+  'art.style.render': '3D',
+  'art.style.pixel': 'Пиксель-арт',
+  'art.style.sketch': 'Скетч',
+
+  'gallery.title': 'Галерея',
+  'gallery.empty': 'Сгенерированные изображения появятся здесь.',
+  'gallery.reusePrompt': 'Повторить промпт',
+  'gallery.lineage': 'Родословная',
+
+  'search.title': 'Поиск',
+  'search.placeholder': 'Слова из сообщения…',
+  'search.anyRole': 'Все авторы',
+  'search.anyPersona': 'Все персоны',
+  'search.from': 'с',
+  'search.to': 'по',
+  'search.hasImage': 'с изображением',
+  'search.hasCode': 'с кодом',
+  'search.image': 'изображение',
+  'search.code': 'код',
+  'search.found': { one: 'Найдено {count} сообщение', few: 'Найдено {count} сообщения', many: 'Найдено {count} сообщений', other: 'Найдено {count} сообщения' },
+  'search.noResults': 'Ничего не найдено.',
+  'search.hint': 'Введите слова или выберите фильтр, чтобы искать по всем каналам.',
+
+  'knowledge.title': 'База знаний',
+  'knowledge.add': 'Добавить файлы',
+  'knowledge.adding': 'Добавление…',
+  'knowledge.enabled': 'Подмешивать фрагменты в запросы',
+  'knowledge.topK': 'Фрагментов на запрос',
+  'knowledge.embeddings': 'Эмбеддинги',
+  'knowledge.embeddingsHint': 'Ранжировать не только по словам, но и по смыслу; документы отправляются провайдеру для векторизации',
+  'knowledge.embedding': 'Векторизация…',
+  'knowledge.embedded': 'векторы',
+  'knowledge.empty': 'Добавьте Markdown, текст или код — ответы будут опираться на них и ссылаться на источники.',
+  'knowledge.unsupported': 'Файл «{name}» не текстовый: принимаются Markdown, текст и код.',
+  'knowledge.chunks': { one: '{count} фрагмент', few: '{count} фрагмента', many: '{count} фрагментов', other: '{count} фрагмента' },
+  'knowledge.summary': { one: 'Всего {count} фрагмент; с каждым запросом отправляются до {top}.', few: 'Всего {count} фрагмента; с каждым запросом отправляются до {top}.', many: 'Всего {count} фрагментов; с каждым запросом отправляются до {top}.', other: 'Всего {count} фрагмента; с каждым запросом отправляются до {top}.' },
+  'knowledge.sources': 'Источники',
+  'knowledge.lines': 'строки {start}–{end}',
+
+  'persona.title': 'Персоны',
+  'persona.new': 'Новая',
+  'persona.clone': 'Клон',
+  'persona.import': 'Импорт',
+  'persona.export': 'Экспорт',
+  'persona.blankName': 'Новая персона',
+  'persona.copyName': '{name} (копия)',
+  'persona.name': 'Имя',
+  'persona.description': 'Описание',
+  'persona.systemInstruction': 'Системная инструкция',
+  'persona.provider': 'Провайдер',
+  'persona.model': 'Модель',
+  'persona.thinkingHint': 'Пусто — без рассуждений, -1 — динамически',
+  'persona.contextBudget': 'Бюджет памяти (токены)',
+  'persona.promptPrefix': 'Префикс запроса',
+  'persona.accent': 'Акцент',
+  'persona.imageOutput': 'Генерирует изображения',
+  'persona.toolsEnabled': 'Может вызывать инструменты',
+  'persona.required': 'Имя и модель обязательны.',
+  'persona.reset': 'Сбросить',
+  'persona.save': 'Сохранить',
+  'persona.saveAndSelect': 'Сохранить и выбрать',
+
+  'template.title': 'Шаблоны',
+  'template.new': 'Новый',
+  'template.import': 'Импорт',
+  'template.export': 'Экспорт',
+  'template.command': 'Команда',
+  'template.description': 'Описание',
+  'template.persona': 'Персона',
+  'template.currentPersona': 'Текущая персона канала',
+  'template.text': 'Текст запроса',
+  'template.textHint': '{{имя}} в тексте — переменная, которую заполняют перед отправкой.',
+  'template.variables': 'Переменные: {names}',
+  'template.required': 'Команда и текст обязательны.',
+  'template.invalidCommand': 'Команда — одно слово из букв, цифр, «-» и «_».',
+  'template.reservedCommand': '/{command} — встроенная команда.',
+  'template.duplicateCommand': 'Шаблон /{command} уже есть.',
+  'template.save': 'Сохранить',
+  'template.sendHint': 'Ctrl+Enter',
+
+  'slash.model': 'Сменить персону канала',
+  'slash.clear': 'Очистить канал',
+  'slash.export': 'Экспортировать канал',
+  'slash.retry': 'Ответить на последний запрос заново',
+  'slash.templates': 'Редактор шаблонов',
+  'slash.hint': '↑↓ — выбор • Enter — применить • Esc — закрыть',
+  'slash.unknownPersona': 'Неизвестная персона «{name}».',
+
+  'cli.usage': 'Использование: npm run cli -- [--prompt <текст>|-] [--model <персона>] [--image <файл>]... [--thinking off|low|high|dynamic] [--knowledge <файл>]... [--lang ru|en]\nБез --prompt запускается интерактивный режим; «-» читает запрос из stdin.',
+  'cli.commands': '/model [pro|standard|eco] — сменить персону\n/thinking [off|low|high|dynamic|default] — бюджет рассуждений\n/image <файл> — прикрепить файл к следующему сообщению\n/save [файл] — сохранить канал в JSON\n/new — новый канал\n/exit — выход',
+  'cli.welcome': 'NikiViti Solaris: {name}. /help — список команд.',
+  'cli.model': 'Персона: {name}.',
+  'cli.unknownModel': 'Неизвестная персона «{id}». Доступны: {ids}.',
+  'cli.unknownCommand': 'Неизвестная команда {command}. /help — список команд.',
+  'cli.thinking': 'Рассуждения: {preset}.',
+  'cli.unknownThinking': 'Неизвестный режим рассуждений «{preset}». Доступны: {presets}.',
+  'cli.attached': 'Файл «{name}» будет отправлен со следующим сообщением.',
+  'cli.saved': 'Канал сохранён в {path}.',
+  'cli.imageSaved': 'Изображение сохранено в {path}.',
+  'cli.newConversation': 'Открыт новый канал.',
+  'cli.emptyPrompt': 'Пустой запрос.',
+
+  'error.auth': 'Ключ API отклонён. Проверьте API_KEY в настройках окружения.',
+  'error.rate-limit': 'Слишком много запросов. Подождите немного и повторите.',
+  'error.quota': 'Квота API исчерпана. Проверьте тариф и лимиты проекта.',
+  'error.safety': 'Ответ заблокирован фильтром безопасности. Переформулируйте запрос.',
+  'error.network': 'Нет связи с ядром Solaris. Проверьте подключение к сети.',
+  'error.timeout': 'Ядро Solaris не ответило вовремя. Повторите запрос.',
+  'error.empty': 'Ядро Solaris вернуло пустой ответ. Повторите запрос.',
+  'error.unknown': 'Критический сбой связи Solaris. Пожалуйста, перезапустите нейронный узел.',
+
+  // Sent to the model, not shown: keeps replies in the interface language whatever the persona prompt is written in
+  'model.replyLanguage': 'Отвечайте на русском языке, если пользователь явно не попросит другой язык.',
+  'model.summary': 'Сводка более ранней части диалога:\n{summary}',
+  'model.knowledge': 'Фрагменты базы знаний пользователя. Если они относятся к вопросу, опирайся на них и ссылайся на источник номером в квадратных скобках, например [1].',
+  'model.citationLines': 'строки {start}–{end}',
+  'model.attachedFile': 'Файл: {name}',
+  'model.summaryInstruction': 'Вы — модуль памяти NikiViti. Сожмите переданный фрагмент диалога в краткую сводку на языке диалога. Сохраните факты, решения, имена, требования пользователя, важные фрагменты кода и открытые вопросы. Если дана текущая сводка, объедините её с новыми репликами в одну. Отвечайте только текстом сводки.',
+  'model.summaryTurns': 'Реплики:\n{transcript}',
+  'model.summaryUpdate': 'Текущая сводка:\n{summary}\n\nНовые реплики:\n{transcript}',
+  'model.userLabel': 'Пользователь',
+};
@@ -0,0 +1,33 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { Fixture, FixtureStore } from "../services/fixtures";
+
+/** Directory fixtures are kept in, relative to where the process runs. */
+export const FIXTURE_DIR = process.env.CHAT_FIXTURES_DIR || 'fixtures';
+
+/** File name for a fixture; recording the same request again overwrites it. */
+const fileOf = (fixture: Fixture) => `${fixture.kind}-${fixture.key}.json`;
+
+/**
+ * Fixtures as one JSON file each in `dir`, for Node entry points and the Vite dev server.
+ * Unreadable files are skipped with an error rather than failing the whole replay.
+ */
+export const createFileFixtureStore = (dir = FIXTURE_DIR): FixtureStore => ({
+  async list() {
+    const names = await readdir(dir).catch(() => [] as string[]);
+    const fixtures: Fixture[] = [];
+    for (const name of names.filter(n => n.endsWith('.json')).sort()) {
+      try {
+        fixtures.push(JSON.parse(await readFile(join(dir, name), 'utf8')));
+      } catch (err) {
+        console.error("Solaris Fixture Error:", err);
+      }
+    }
+    return fixtures;
+  },
+
+  async save(fixture) {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, fileOf(fixture)), `${JSON.stringify(fixture, null, 2)}\n`);
+  },
+});
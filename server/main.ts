@@ -0,0 +1,251 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { ChatProvider, ChatRequest, EmbedRequest } from "../services/chatProvider";
+import { DEFAULT_PERSONAS, EMBEDDING_MODEL } from "../constants";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { mockProvider } from "../services/providers/mockProvider";
+import { withFixtures } from "../services/providers/fixtureProvider";
+import { readFixtureConfig, setFixtureStore } from "../services/fixtures";
+import { createFileFixtureStore } from "./fixtureFiles";
+import { createRateLimiter } from "./rateLimit";
+import { createRequestLog, RequestLogEntry } from "./requestLog";
+
+// The key is read here and only here; the browser bundle built with GEMINI_PROXY_URL has none
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(origin => origin.trim());
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT) || 60;
+// Fits a message with the largest allowed attachments plus history, base64-encoded
+const MAX_BODY_BYTES = (Number(process.env.PROXY_MAX_BODY_MB) || 32) * 1024 * 1024;
+// The built-in personas' models; custom personas naming others need them added to PROXY_ALLOWED_MODELS
+const ALLOWED_MODELS = new Set([
+  ...DEFAULT_PERSONAS.map(persona => persona.model),
+  EMBEDDING_MODEL,
+  ...(process.env.PROXY_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean),
+]);
+// Bounds what one request can cost; the largest output of the allowed Gemini models
+const MAX_OUTPUT_TOKENS = Number(process.env.PROXY_MAX_OUTPUT_TOKENS) || 65_536;
+// Behind a reverse proxy every request comes from the same socket address
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === '1';
+
+// CHAT_PROVIDER=mock answers offline, for trying the proxy without a key
+const backend: ChatProvider = process.env.CHAT_PROVIDER === 'mock' ? mockProvider : geminiProvider;
+// CHAT_FIXTURES=record|replay records Gemini's answers to files, or serves them back offline
+const fixtures = readFixtureConfig();
+setFixtureStore(createFileFixtureStore());
+const provider = fixtures ? withFixtures(backend, fixtures) : backend;
+const limiter = createRateLimiter(RATE_LIMIT);
+const log = createRequestLog(process.env.PROXY_LOG_FILE);
+
+/** Rejection with an HTTP status, sent to the client as `{ error }`. */
+class ProxyError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const clientOf = (req: IncomingMessage) => {
+  const forwarded = TRUST_FORWARDED ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Buffer>((resolve, reject) => {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      reject(new ProxyError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ProxyError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        // Drain the rest without buffering it so the 413 can still be delivered
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const parseBody = (body: Buffer): any => {
+  let request: any;
+  try {
+    request = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new ProxyError(400, 'Body is not JSON');
+  }
+  if (typeof request?.model !== 'string' || !request.model) throw new ProxyError(400, 'model must be a non-empty string');
+  if (!ALLOWED_MODELS.has(request.model)) throw new ProxyError(400, `model ${JSON.stringify(request.model)} is not allowed`);
+  return request;
+};
+
+const isFile = (file: any) => typeof file?.mimeType === 'string' && typeof file.data === 'string';
+
+/** What is wrong with a turn, or null; the providers would otherwise fail on it with a 502. */
+const turnProblem = (turn: any): string | null => {
+  if (typeof turn !== 'object' || turn === null) return 'must be an object';
+  if (turn.role !== 'user' && turn.role !== 'model') return 'role must be "user" or "model"';
+  if (typeof turn.text !== 'string') return 'text must be a string';
+  if (turn.files !== undefined && !(Array.isArray(turn.files) && turn.files.every(isFile))) {
+    return 'files must be an array of { mimeType, data } strings';
+  }
+  for (const field of ['toolCalls', 'toolResults']) {
+    if (turn[field] !== undefined && !Array.isArray(turn[field])) return `${field} must be an array`;
+  }
+  return null;
+};
+
+const parseRequest = (body: Buffer): ChatRequest => {
+  const request = parseBody(body);
+  if (!Array.isArray(request.turns) || !request.turns.length) throw new ProxyError(400, 'turns must be a non-empty array');
+  request.turns.forEach((turn: unknown, i: number) => {
+    const problem = turnProblem(turn);
+    if (problem) throw new ProxyError(400, `turns[${i}]: ${problem}`);
+  });
+  const { maxOutputTokens } = request;
+  if (maxOutputTokens !== undefined && !(Number.isInteger(maxOutputTokens) && maxOutputTokens >= 1 && maxOutputTokens <= MAX_OUTPUT_TOKENS)) {
+    throw new ProxyError(400, `maxOutputTokens must be an integer from 1 to ${MAX_OUTPUT_TOKENS}`);
+  }
+  return request;
+};
+
+const parseEmbedRequest = (body: Buffer): EmbedRequest => {
+  const request = parseBody(body);
+  if (!Array.isArray(request.texts) || !request.texts.length || request.texts.some((text: unknown) => typeof text !== 'string')) {
+    throw new ProxyError(400, 'texts must be a non-empty array of strings');
+  }
+  if (request.task !== 'document' && request.task !== 'query') throw new ProxyError(400, 'task must be "document" or "query"');
+  return request;
+};
+
+/** Status to report for a failure of the upstream call; the Gemini SDK puts the HTTP status on its errors. */
+const upstreamStatus = (err: unknown) =>
+  err instanceof ProxyError ? err.status : typeof (err as any)?.status === 'number' ? (err as any).status as number : 502;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const setCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (!origin || !(ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin))) return;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+  res.setHeader('Vary', 'Origin');
+};
+
+const ROUTES = ['/api/generate', '/api/stream', '/api/count-tokens', '/api/embed'];
+
+const handle = async (req: IncomingMessage, res: ServerResponse, entry: RequestLogEntry) => {
+  setCors(req, res);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+  if (req.method === 'GET' && entry.path === '/api/health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+  if (!ROUTES.includes(entry.path)) throw new ProxyError(404, 'Not found');
+  if (req.method !== 'POST') throw new ProxyError(405, 'Method not allowed');
+
+  const { allowed, retryAfterMs } = limiter.take(entry.client);
+  if (!allowed) throw new ProxyError(429, 'Rate limit exceeded', retryAfterMs);
+
+  const body = await readBody(req);
+  entry.requestBytes = body.length;
+
+  // A closed tab or a Stop in the UI cancels the upstream call too
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  if (entry.path === '/api/embed') {
+    const request = parseEmbedRequest(body);
+    entry.model = request.model;
+    entry.texts = request.texts.length;
+    if (!provider.embed) throw new ProxyError(501, 'Embeddings are not supported');
+    sendJson(res, 200, { embeddings: await provider.embed(request, controller.signal) });
+    return;
+  }
+
+  const request = parseRequest(body);
+  entry.model = request.model;
+  entry.turns = request.turns.length;
+  entry.files = request.turns.reduce((sum, turn) => sum + (turn.files?.length ?? 0), 0);
+
+  if (entry.path === '/api/count-tokens') {
+    if (!provider.countTokens) throw new ProxyError(501, 'Token counting is not supported');
+    sendJson(res, 200, { totalTokens: await provider.countTokens(request) });
+    return;
+  }
+
+  if (entry.path === '/api/generate') {
+    const reply = await provider.generate(request, controller.signal);
+    entry.replyChars = reply.text.length;
+    sendJson(res, 200, reply);
+    return;
+  }
+
+  // Streams are newline-delimited JSON chunks; once headers are out, a failure is sent as a final line
+  const stream = provider.stream(request, controller.signal);
+  const first = await stream.next();
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  try {
+    for (let chunk = first; !chunk.done; chunk = await stream.next()) {
+      entry.replyChars = chunk.value.text.length;
+      res.write(`${JSON.stringify(chunk.value)}\n`);
+    }
+  } catch (err) {
+    entry.error = err instanceof Error ? err.message : String(err);
+    res.write(`${JSON.stringify({ error: { status: upstreamStatus(err), message: entry.error } })}\n`);
+  }
+  res.end();
+};
+
+const server = createServer((req, res) => {
+  const started = Date.now();
+  const entry: RequestLogEntry = {
+    time: new Date(started).toISOString(),
+    requestId: randomUUID(),
+    client: clientOf(req),
+    method: req.method ?? 'GET',
+    path: new URL(req.url ?? '/', 'http://localhost').pathname,
+    status: 0,
+    durationMs: 0,
+    requestBytes: 0,
+  };
+  res.setHeader('X-Request-Id', entry.requestId);
+
+  handle(req, res, entry)
+    .catch((err) => {
+      const status = upstreamStatus(err);
+      entry.error = err instanceof Error ? err.message : String(err);
+      if (res.headersSent) return res.end();
+      const headers: Record<string, string> = err instanceof ProxyError && err.retryAfterMs
+        ? { 'Retry-After': String(Math.ceil(err.retryAfterMs / 1000)) }
+        : {};
+      // Upstream messages explain rejected keys, quotas and safety blocks; they never contain the key
+      sendJson(res, status, { error: entry.error }, headers);
+    })
+    .finally(() => {
+      entry.status = res.statusCode;
+      entry.durationMs = Date.now() - started;
+      log(entry);
+    });
+});
+
+server.listen(PORT, () => {
+  console.log(`Solaris proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows a burst of `limit` requests and then says when the next one is due', () => {
+    const limiter = createRateLimiter(3, 60_000);
+    expect([1, 2, 3].map(() => limiter.take('a', 0).allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a', 0)).toEqual({ allowed: false, retryAfterMs: 20_000 });
+  });
+
+  it('refills one request every window / limit', () => {
+    const limiter = createRateLimiter(3, 60_000);
+    for (let i = 0; i < 3; i++) limiter.take('a', 0);
+    expect(limiter.take('a', 15_000)).toEqual({ allowed: false, retryAfterMs: 5_000 });
+    expect(limiter.take('a', 20_000).allowed).toBe(true);
+    expect(limiter.take('a', 20_000).allowed).toBe(false);
+  });
+
+  it('does not count rejected requests against the client', () => {
+    const limiter = createRateLimiter(1, 1_000);
+    limiter.take('a', 0);
+    for (let now = 100; now < 1_000; now += 100) expect(limiter.take('a', now).allowed).toBe(false);
+    expect(limiter.take('a', 1_000).allowed).toBe(true);
+  });
+
+  it('never refills past the limit', () => {
+    const limiter = createRateLimiter(2, 1_000);
+    limiter.take('a', 0);
+    const later = 1_000_000;
+    expect([1, 2, 3].map(() => limiter.take('a', later).allowed)).toEqual([true, true, false]);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter(1, 60_000);
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+  });
+
+  it('still limits busy clients after dropping full buckets', () => {
+    const limiter = createRateLimiter(1, 60_000);
+    limiter.take('busy', 0);
+    for (let i = 0; i < 10_000; i++) limiter.take(`idle-${i}`, 0);
+    // Tracking limit reached: full buckets are dropped, the busy client's empty one is kept
+    expect(limiter.take('busy', 1).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Full buckets carry no information, so they are dropped once this many clients are tracked
+const MAX_TRACKED_CLIENTS = 10_000;
+
+/**
+ * Token bucket per client: each client may burst up to `limit` requests and regains one every
+ * `windowMs / limit` milliseconds.
+ */
+export const createRateLimiter = (limit: number, windowMs = 60_000) => {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = limit / windowMs;
+
+  const available = (bucket: Bucket, now: number) =>
+    Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+  const prune = (now: number) => {
+    for (const [client, bucket] of buckets) {
+      if (available(bucket, now) >= limit) buckets.delete(client);
+    }
+  };
+
+  /** Spends one request for `client`; when none is left, says how long until the next one. */
+  const take = (client: string, now = Date.now()): { allowed: boolean; retryAfterMs: number } => {
+    if (buckets.size >= MAX_TRACKED_CLIENTS) prune(now);
+    const bucket = buckets.get(client) ?? { tokens: limit, updatedAt: now };
+    buckets.set(client, bucket);
+
+    // A rejection leaves the bucket as it is, so polling does not add rounding errors to the refill
+    const tokens = available(bucket, now);
+    if (tokens < 1) return { allowed: false, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+    bucket.tokens = tokens - 1;
+    bucket.updatedAt = now;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+};
@@ -0,0 +1,31 @@
+import { appendFile } from "node:fs/promises";
+
+/** One line of the request log. Prompts and replies are never logged, only their shape. */
+export interface RequestLogEntry {
+  time: string;
+  requestId: string;
+  client: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  model?: string;
+  turns?: number;
+  files?: number;
+  /** Number of texts in an embed request. */
+  texts?: number;
+  /** Characters of reply text sent back, for generate and stream requests. */
+  replyChars?: number;
+  error?: string;
+}
+
+/** Writes entries as JSON lines to `file`, or to stdout when no file is given. */
+export const createRequestLog = (file?: string) => (entry: RequestLogEntry) => {
+  const line = `${JSON.stringify(entry)}\n`;
+  if (!file) {
+    process.stdout.write(line);
+    return;
+  }
+  appendFile(file, line).catch(err => console.error("Solaris Proxy Log Error:", err));
+};
@@ -0,0 +1,56 @@
+// @vitest-environment node
+// jsdom's Blob cannot be read back as bytes, which hashing stored files needs
+import { describe, expect, it, vi } from 'vitest';
+import { Conversation, Role } from '../types';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+const OTHER = 'data:image/png;base64,R0lGODlhAQABAAAAACw=';
+
+const loadStore = async () => {
+  vi.resetModules();
+  return import('./blobStore');
+};
+
+const conversationWith = (imageUrl: string): Conversation => ({
+  id: 'c1',
+  title: 'Art',
+  pinned: false,
+  selectedModel: 'eco',
+  messages: [{ id: 'm1', parentId: null, role: Role.MODEL, text: '', imageUrl, timestamp: new Date() }],
+  activeLeafId: 'm1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe('blobStore', () => {
+  it('stores identical files once and reads them back', async () => {
+    const store = await loadStore();
+    const ref = await store.storeDataUrl(IMAGE);
+    expect(store.isBlobRef(ref)).toBe(true);
+    expect(await store.storeDataUrl(IMAGE)).toBe(ref);
+    expect(store.urlMimeType(ref)).toBe('image/png');
+    expect(await store.readDataUrl(ref)).toBe(IMAGE);
+  });
+
+  it('sweeps files nothing refers to and keeps the rest', async () => {
+    const store = await loadStore();
+    const kept = await store.storeDataUrl(IMAGE);
+    const dropped = await store.storeDataUrl(OTHER);
+    await store.sweepBlobs(() => [conversationWith(kept)]);
+
+    const reloaded = await loadStore();
+    expect(await reloaded.readDataUrl(kept)).toBe(IMAGE);
+    await expect(reloaded.readDataUrl(dropped)).rejects.toThrow('is missing');
+  });
+
+  it('keeps files still queued in the composer', async () => {
+    const store = await loadStore();
+    const queued = await store.storeDataUrl(IMAGE);
+    await store.sweepBlobs(() => [], () => [queued]);
+    expect(await store.readDataUrl(queued)).toBe(IMAGE);
+
+    await store.sweepBlobs(() => []);
+    const reloaded = await loadStore();
+    await expect(reloaded.readDataUrl(queued)).rejects.toThrow('is missing');
+  });
+});
@@ -0,0 +1,191 @@
+import { Conversation, Message } from "../types";
+import { createIdbStore } from "./idb";
+
+const DB_NAME = 'nikiviti-solaris-blobs';
+const DB_VERSION = 1;
+const STORE = 'blobs';
+
+/**
+ * Messages hold `blobref:<mime>;<bytes>;<hash>` in place of a data URL. The hash, SHA-256 of the
+ * bytes, addresses the content, so an image sent twice is stored once; type and size travel in
+ * the ref so they are known without reading the blob back.
+ */
+const REF_PREFIX = 'blobref:';
+
+interface StoredBlob {
+  key: string;
+  blob: Blob;
+}
+
+// Blobs written or read back this session; the object URL images are shown from is made on first use
+const blobs = new Map<string, { blob: Blob; url?: string }>();
+// Reads from IndexedDB by key; kept once settled so a missing blob is not looked up on every render
+const reads = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+const run = createIdbStore(DB_NAME, DB_VERSION, STORE, db => {
+  if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'key' });
+});
+
+// The CLI has no IndexedDB; its blobs live for the session
+const canPersist = () => typeof indexedDB !== 'undefined';
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const isBlobRef = (url: string) => url.startsWith(REF_PREFIX);
+
+const parseRef = (ref: string) => {
+  const [mimeType, bytes, key] = ref.slice(REF_PREFIX.length).split(';');
+  return { mimeType, bytes: Number(bytes), key };
+};
+
+/** Decoded size of a base64 data URL's payload. */
+export const dataUrlBytes = (url: string) => {
+  const payload = url.slice(url.indexOf(',') + 1);
+  return Math.floor(payload.length * 3 / 4) - (payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0);
+};
+
+/** MIME type of a data URL or blob ref. */
+export const urlMimeType = (url: string): string | undefined =>
+  isBlobRef(url) ? parseRef(url).mimeType : url.match(/^data:([^;,]+)/)?.[1];
+
+/** Size in bytes of the file behind a data URL or blob ref. */
+export const urlBytes = (url: string) => (isBlobRef(url) ? parseRef(url).bytes : dataUrlBytes(url));
+
+const decode = (dataUrl: string): Blob => {
+  const comma = dataUrl.indexOf(',');
+  const header = dataUrl.slice('data:'.length, comma);
+  const type = header.split(';')[0] || 'application/octet-stream';
+  const payload = dataUrl.slice(comma + 1);
+  if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(payload)], { type });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const encode = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In slices, as spreading megabytes into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+const digest = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Subscribes to blobs being read back from disk; compatible with React's `useSyncExternalStore`. */
+export const subscribeBlobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Moves a data URL into the store and resolves with its ref once the blob is on disk; refs and
+ * other URLs come back unchanged.
+ */
+export const storeDataUrl = async (url: string): Promise<string> => {
+  if (!url.startsWith('data:')) return url;
+  const blob = decode(url);
+  const key = await digest(blob);
+  if (!blobs.has(key)) {
+    blobs.set(key, { blob });
+    if (canPersist()) {
+      try {
+        await run('readwrite', store => store.put({ key, blob }));
+      } catch (err) {
+        // Not kept in memory either, so the next attempt writes it again
+        blobs.delete(key);
+        throw err;
+      }
+    }
+  }
+  return `${REF_PREFIX}${blob.type};${blob.size};${key}`;
+};
+
+/** Reads the blob behind `ref` back from disk, once; resolves when it is available or known to be missing. */
+export const loadBlob = (ref: string): Promise<void> => {
+  const { key } = parseRef(ref);
+  if (blobs.has(key) || !canPersist()) return Promise.resolve();
+  let read = reads.get(key);
+  if (!read) {
+    read = run<StoredBlob | undefined>('readonly', store => store.get(key))
+      .then(record => {
+        if (!record || blobs.has(key)) return;
+        blobs.set(key, { blob: record.blob });
+        notify();
+      })
+      .catch(err => console.error("Solaris Memory Error:", err));
+    reads.set(key, read);
+  }
+  return read;
+};
+
+/** The URL to show `url` with: a ref's object URL once its blob is loaded (see `loadBlob`), anything else as it is. */
+export const getDisplayUrl = (url: string): string | undefined => {
+  if (!isBlobRef(url)) return url;
+  const entry = blobs.get(parseRef(url).key);
+  if (entry) entry.url ??= URL.createObjectURL(entry.blob);
+  return entry?.url;
+};
+
+/** The data URL behind `url`, for requests and exports; anything but a ref comes back unchanged. */
+export const readDataUrl = async (url: string): Promise<string> => {
+  if (!isBlobRef(url)) return url;
+  await loadBlob(url);
+  const entry = blobs.get(parseRef(url).key);
+  if (!entry) throw new Error(`Stored file ${parseRef(url).key} is missing`);
+  return encode(entry.blob);
+};
+
+/** `messages` with the images and files they refer to inlined again as data URLs, e.g. for a self-contained export. */
+export const withInlineData = (messages: Message[]): Promise<Message[]> =>
+  Promise.all(messages.map(async (message) => {
+    const hasRefs = (message.imageUrl && isBlobRef(message.imageUrl)) || message.attachments?.some(a => a.dataUrl && isBlobRef(a.dataUrl));
+    if (!hasRefs) return message;
+    return {
+      ...message,
+      imageUrl: message.imageUrl && await readDataUrl(message.imageUrl),
+      attachments: message.attachments && await Promise.all(message.attachments.map(async a => (a.dataUrl ? { ...a, dataUrl: await readDataUrl(a.dataUrl) } : a))),
+    };
+  }));
+
+/** Keys of the blobs `conversations` and the `pending` URLs refer to. */
+const referencedKeys = (conversations: Conversation[], pending: string[]): Set<string> => {
+  const keys = new Set<string>();
+  const add = (url?: string) => {
+    if (url && isBlobRef(url)) keys.add(parseRef(url).key);
+  };
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      add(message.imageUrl);
+      message.attachments?.forEach(a => add(a.dataUrl));
+    }
+  }
+  pending.forEach(add);
+  return keys;
+};
+
+/**
+ * Mark and sweep: deletes every blob no message refers to any more, from disk and memory, and
+ * revokes its object URL. `getConversations` must return every conversation there is, and
+ * `getPendingUrls` the files on their way into one, such as those queued in the composer. Both
+ * are called once the stored keys have been listed, so a file stored in the meantime is not swept.
+ */
+export const sweepBlobs = async (getConversations: () => Conversation[], getPendingUrls: () => string[] = () => []): Promise<void> => {
+  const stored = canPersist() ? await run<IDBValidKey[]>('readonly', store => store.getAllKeys()) : [];
+  const used = referencedKeys(getConversations(), getPendingUrls());
+  for (const [key, entry] of blobs) {
+    if (used.has(key)) continue;
+    if (entry.url) URL.revokeObjectURL(entry.url);
+    blobs.delete(key);
+    reads.delete(key);
+  }
+  const unused = stored.filter(key => !used.has(String(key)));
+  await Promise.all(unused.map(key => run('readwrite', store => store.delete(key))));
+};
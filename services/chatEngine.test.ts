@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Message, Role } from '../types';
+import { createChatEngine } from './chatEngine';
+
+beforeEach(() => {
+  vi.stubEnv('CHAT_PROVIDER', 'mock');
+  return () => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  };
+});
+
+/** An engine with one answered prompt in its active conversation. */
+const startEngine = async () => {
+  const engine = createChatEngine();
+  await engine.load();
+  await engine.sendPrompt('hello');
+  return engine;
+};
+
+const activeMessages = (engine: ReturnType<typeof createChatEngine>) =>
+  engine.getState().conversations.find(c => c.id === engine.getState().activeConversationId)!.messages;
+
+const elsewhere: Message = { id: 'gone', parentId: null, role: Role.USER, text: 'not in this branch', timestamp: new Date() };
+
+describe('editMessage', () => {
+  it('answers the edited prompt as a sibling of the original', async () => {
+    const engine = await startEngine();
+    const prompt = activeMessages(engine).find(m => m.text === 'hello')!;
+    await engine.editMessage(prompt, 'hello again');
+
+    const [edited, reply] = activeMessages(engine).slice(-2);
+    expect(edited).toMatchObject({ parentId: prompt.parentId, text: 'hello again', role: Role.USER });
+    expect(reply).toMatchObject({ parentId: edited.id, role: Role.MODEL });
+    expect(activeMessages(engine).filter(m => m.parentId === prompt.parentId)).toHaveLength(2);
+  });
+
+  it('ignores a message that is not on the active branch', async () => {
+    const engine = await startEngine();
+    const before = engine.getState();
+    await engine.editMessage(elsewhere, 'edited');
+    expect(engine.getState()).toBe(before);
+  });
+});
+
+describe('regenerate', () => {
+  it('adds another answer to the same prompt', async () => {
+    const engine = await startEngine();
+    const [prompt, reply] = activeMessages(engine).slice(-2);
+    await engine.regenerate(reply);
+
+    const answers = activeMessages(engine).filter(m => m.parentId === prompt.id);
+    expect(answers).toHaveLength(2);
+    expect(answers[1]).toMatchObject({ role: Role.MODEL, isStreaming: false });
+  });
+
+  it('ignores a message that is not on the active branch', async () => {
+    const engine = await startEngine();
+    const before = engine.getState();
+    await engine.regenerate(elsewhere);
+    expect(engine.getState()).toBe(before);
+  });
+});
+
+describe('deleteConversation', () => {
+  it('stops the replies of the deleted conversation', async () => {
+    const engine = createChatEngine();
+    await engine.load();
+    const { activeConversationId } = engine.getState();
+    const sending = engine.sendPrompt('hello');
+    expect(engine.getState().isLoading).toBe(true);
+
+    engine.deleteConversation(activeConversationId!);
+    expect(await sending).toBe(false);
+    expect(engine.getState().isLoading).toBe(false);
+  });
+
+  it('leaves replies in other conversations running', async () => {
+    // Conversation ids are timestamps
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-01-01T00:00:00Z') });
+    const engine = createChatEngine();
+    await engine.load();
+    const streaming = engine.getState().activeConversationId!;
+    const sending = engine.sendPrompt('hello');
+    vi.setSystemTime(new Date('2025-01-01T00:01:00Z'));
+    const other = engine.createConversation();
+
+    engine.deleteConversation(other.id);
+    expect(await sending).toBe(true);
+    const reply = engine.getState().conversations.find(c => c.id === streaming)!.messages.at(-1)!;
+    expect(reply).toMatchObject({ role: Role.MODEL, isStreaming: false });
+    expect(reply.text).toContain('hello');
+  });
+});
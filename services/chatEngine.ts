@@ -0,0 +1,575 @@
+import { ArtDetails, Attachment, ChatState, Conversation, Message, ModelId, ReplyMetadata, Role, ThinkingPreset } from "../types";
+import { DEFAULT_PERSONA_ID, MAX_COMPARED } from "../constants";
+import { streamMessageToGemini } from "./geminiService";
+import { resolveBackend } from "./chatProvider";
+import { getPersona, hasPersona } from "./personaStore";
+import { parseConversationImport } from "./conversationExport";
+import { condenseHistory, countTokens } from "./contextWindow";
+import { ChatError } from "./errors";
+import { isTranslationOf, t } from "./i18n";
+import { findLatestLeaf, getActivePath, getPathTo, getSiblings } from "../utils/messageTree";
+
+/** Where conversations are persisted; the browser passes the IndexedDB store. */
+export interface ConversationStorage {
+  list(): Promise<Conversation[]>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ChatEngineOptions {
+  /** Omitted in the CLI, where a conversation lives for the session unless saved explicitly. */
+  storage?: ConversationStorage;
+  /** Called once a reply has finished without an error or Stop. */
+  onReply?: (message: Message, conversation: Conversation) => void;
+  /**
+   * Takes the data URL of an image or PDF and resolves with what the message keeps instead, e.g. a
+   * ref into the browser's blob store. Omitted in the CLI, where messages keep their data URLs.
+   */
+  storeFile?: (dataUrl: string) => Promise<string>;
+  /**
+   * Called once conversations have loaded and whenever messages were deleted, so stored files, and
+   * anything else kept per message, that no message refers to any more can be removed.
+   */
+  releaseFiles?: () => void;
+}
+
+export interface PromptOptions {
+  /** Style and aspect ratio for image-output personas. */
+  art?: Omit<ArtDetails, 'prompt'>;
+  /** Number of sibling replies to generate for image-output personas. */
+  variations?: number;
+  /** Overrides the persona's thinking budget for this send; ignored by image-output personas. */
+  thinking?: ThinkingPreset;
+}
+
+// Attachment-only prompts show a placeholder in the chat but reach the model without text
+const promptOf = (message: Message) =>
+  message.attachments?.length && isTranslationOf('chat.attachmentOnly', message.text) ? '' : message.text;
+
+const hasFileData = (message: Message) =>
+  !!message.imageUrl?.startsWith('data:') || !!message.attachments?.some(a => a.dataUrl?.startsWith('data:'));
+
+// Message ids are timestamps; replies started in the same millisecond still get distinct ones
+let lastId = 0;
+const nextId = () => {
+  lastId = Math.max(Date.now(), lastId + 1);
+  return lastId.toString();
+};
+
+interface TurnOptions {
+  /** Persona that answers; defaults to the conversation's selected one. */
+  persona?: ModelId;
+  /** Part of a compare prompt: the reply streams beside the others instead of becoming the active branch. */
+  compared?: boolean;
+}
+
+export const createConversation = (selectedModel: ModelId = DEFAULT_PERSONA_ID): Conversation => {
+  const now = new Date();
+  return {
+    id: now.getTime().toString(),
+    title: t('chat.newTitle'),
+    pinned: false,
+    selectedModel,
+    messages: [
+      {
+        id: 'init',
+        parentId: null,
+        role: Role.MODEL,
+        text: t('chat.welcome'),
+        timestamp: now,
+      },
+    ],
+    activeLeafId: 'init',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Framework-free owner of the conversations: model selection, branching, history building,
+ * sending and persistence. The React UI and the CLI are both thin bindings over it.
+ *
+ * State is immutable and replaced on every change; `subscribe` and `getState` are compatible
+ * with React's `useSyncExternalStore`.
+ */
+export const createChatEngine = ({ storage, onReply, storeFile, releaseFiles }: ChatEngineOptions = {}) => {
+  let state: ChatState = { conversations: [], activeConversationId: null, isLoading: false, error: null, failedTurn: null };
+  const listeners = new Set<() => void>();
+  // Last persisted snapshot of each conversation, used to write only what changed
+  const saved = new Map<string, Conversation>();
+  // One per reply being generated, by conversation; compare prompts stream several at once
+  const aborts = new Map<string, Set<AbortController>>();
+  let loading: Promise<void> | null = null;
+  // Data URLs being handed to `storeFile`, and the results waiting to replace them in the messages
+  const storing = new Set<string>();
+  const storedFiles = new Map<string, string>();
+  // Files are only released against the stored conversations; a failed load knows none of them
+  let hasLoaded = false;
+
+  const isStoring = (message: Message) =>
+    (!!message.imageUrl && storing.has(message.imageUrl)) || !!message.attachments?.some(a => a.dataUrl && storing.has(a.dataUrl));
+
+  const persist = () => {
+    if (!storage) return;
+    for (const conversation of state.conversations) {
+      if (saved.get(conversation.id) === conversation) continue;
+      // Wait for the stream to settle instead of writing on every token
+      if (conversation.messages.some(m => m.isStreaming)) continue;
+      // and for files on their way into `storeFile`; a file that could not be stored is written inline
+      if (storing.size && conversation.messages.some(isStoring)) continue;
+      saved.set(conversation.id, conversation);
+      storage.save(conversation).catch(err => console.error("Solaris Memory Error:", err));
+    }
+  };
+
+  // File data leaves a message as soon as it has been stored, so state, storage writes and renders stay small
+  const storeFiles = (conversation: Conversation): Conversation => {
+    if (!storeFile || !conversation.messages.some(hasFileData)) return conversation;
+    let changed = false;
+    const replace = (url: string) => {
+      const stored = storedFiles.get(url);
+      if (stored) {
+        changed = true;
+        return stored;
+      }
+      if (url.startsWith('data:')) storeLater(url);
+      return url;
+    };
+    const messages = conversation.messages.map(m => (hasFileData(m) ? {
+      ...m,
+      imageUrl: m.imageUrl && replace(m.imageUrl),
+      attachments: m.attachments?.map(a => (a.dataUrl ? { ...a, dataUrl: replace(a.dataUrl) } : a)),
+    } : m));
+    return changed ? { ...conversation, messages } : conversation;
+  };
+
+  // Streamed images repeat in every chunk, so each data URL is stored once however often it arrives
+  const storeLater = (url: string) => {
+    if (!storeFile || storing.has(url)) return;
+    storing.add(url);
+    storeFile(url)
+      .then((stored) => {
+        storedFiles.set(url, stored);
+        setState(prev => ({ ...prev, conversations: prev.conversations.map(storeFiles) }));
+      })
+      .catch(err => console.error("Solaris Memory Error:", err))
+      .finally(() => {
+        storing.delete(url);
+        storedFiles.delete(url);
+      });
+  };
+
+  const setState = (update: (prev: ChatState) => ChatState) => {
+    const prev = state;
+    state = update(state);
+    // Only conversations the update replaced can hold new data URLs
+    const stored = state.conversations.map(c => (prev.conversations.includes(c) ? c : storeFiles(c)));
+    if (stored.some((c, i) => c !== state.conversations[i])) state = { ...state, conversations: stored };
+    persist();
+    listeners.forEach(listener => listener());
+  };
+
+  const updateConversation = (id: string, update: (conversation: Conversation) => Conversation) =>
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.map(c => (c.id === id ? update(c) : c)),
+    }));
+
+  const release = () => {
+    if (hasLoaded) releaseFiles?.();
+  };
+
+  const getActiveConversation = () => state.conversations.find(c => c.id === state.activeConversationId);
+
+  /** Messages of the active branch of the active conversation, oldest first. */
+  const getMessages = () => {
+    const conversation = getActiveConversation();
+    return conversation ? getActivePath(conversation) : [];
+  };
+
+  const attachTokenCount = (conversationId: string, messageId: string, text: string, modelId: ModelId) => {
+    countTokens(text, modelId).then(tokenCount =>
+      updateConversation(conversationId, c => ({
+        ...c,
+        messages: c.messages.map(m => (m.id === messageId ? { ...m, tokenCount } : m)),
+      }))
+    );
+  };
+
+  /**
+   * Streams a reply to `userMessage` into a new model message. `history` is the branch above
+   * `userMessage`; `isNewUserMessage` is false when regenerating an answer to an existing prompt.
+   * Resolves to whether the reply completed without an error or Stop.
+   */
+  const runTurn = async (
+    conversation: Conversation,
+    history: Message[],
+    userMessage: Message,
+    isNewUserMessage: boolean,
+    options: PromptOptions,
+    { persona: currentModel = conversation.selectedModel, compared = false }: TurnOptions = {}
+  ) => {
+    const conversationId = conversation.id;
+    const art = getPersona(currentModel).imageOutput ? options.art : undefined;
+
+    // The reply is rendered in place while it streams in
+    const aiMessageId = nextId();
+    const aiMessage: Message = {
+      id: aiMessageId,
+      parentId: userMessage.id,
+      role: Role.MODEL,
+      text: '',
+      persona: currentModel,
+      timestamp: new Date(),
+      isStreaming: true,
+      art: art && { prompt: promptOf(userMessage), ...art },
+    };
+
+    const updateAiMessage = (patch: Partial<Message>) =>
+      updateConversation(conversationId, c => ({
+        ...c,
+        messages: c.messages.map(m => (m.id === aiMessageId ? { ...m, ...patch } : m)),
+      }));
+
+    const controller = new AbortController();
+    const running = aborts.get(conversationId) ?? new Set<AbortController>();
+    aborts.set(conversationId, running.add(controller));
+
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.map(c => c.id === conversationId ? {
+        ...c,
+        title: isTranslationOf('chat.newTitle', c.title) && promptOf(userMessage).trim() ? promptOf(userMessage).trim().slice(0, 48) : c.title,
+        messages: isNewUserMessage ? [...c.messages, userMessage, aiMessage] : [...c.messages, aiMessage],
+        activeLeafId: compared ? c.activeLeafId : aiMessageId,
+        updatedAt: new Date(),
+      } : c),
+      isLoading: true,
+      error: compared ? prev.error : null,
+      failedTurn: null,
+    }));
+
+    let error: string | null = null;
+    let failedTurn: ChatState['failedTurn'] = null;
+    let replyText = '';
+    let metadata: Omit<ReplyMetadata, 'latencyMs'> | undefined;
+    let startedAt = Date.now();
+    try {
+      // Turns that no longer fit the budget are folded into the running summary before sending
+      let summary = conversation.summary;
+      try {
+        summary = await condenseHistory(history, currentModel, summary, controller.signal);
+        if (summary !== conversation.summary) updateConversation(conversationId, c => ({ ...c, summary }));
+      } catch (err) {
+        console.error("Solaris Memory Error:", err);
+      }
+
+      const { provider, model } = resolveBackend(currentModel);
+      metadata = { provider: provider.id, model };
+      startedAt = Date.now();
+      const stream = streamMessageToGemini(history, promptOf(userMessage), currentModel, userMessage.attachments, {
+        signal: controller.signal,
+        summary,
+        art,
+        thinking: options.thinking,
+      });
+      for await (const chunk of stream) {
+        replyText = chunk.text;
+        metadata = {
+          ...metadata,
+          modelVersion: chunk.modelVersion ?? metadata.modelVersion,
+          usage: chunk.usage ?? metadata.usage,
+          finishReason: chunk.finishReason ?? metadata.finishReason,
+          safetyRatings: chunk.safetyRatings ?? metadata.safetyRatings,
+          firstChunkMs: metadata.firstChunkMs ?? (chunk.text || chunk.reasoning || chunk.imageUrl ? Date.now() - startedAt : undefined),
+        };
+        updateAiMessage({ text: chunk.text, reasoning: chunk.reasoning, imageUrl: chunk.imageUrl, toolSteps: chunk.toolSteps, citations: chunk.citations });
+      }
+    } catch (err) {
+      error = err instanceof ChatError ? err.message : t('chat.linkError');
+      // Safety blocks need a different prompt, so resending as-is is not offered; nor is it for a
+      // compared reply, as the retry would answer with the selected persona only
+      if (!compared && !(err instanceof ChatError && err.kind === 'safety')) failedTurn = { conversationId, userMessageId: userMessage.id };
+    } finally {
+      running.delete(controller);
+      if (!running.size) aborts.delete(conversationId);
+      // Keep partial text after Stop or a mid-stream failure; drop the bubble only if nothing arrived
+      setState(prev => ({
+        ...prev,
+        isLoading: aborts.size > 0,
+        // Compared replies finish in any order; the first error stays shown
+        error: compared ? prev.error ?? error : error,
+        failedTurn,
+        conversations: prev.conversations.map(c => {
+          if (c.id !== conversationId) return c;
+          const reply = c.messages.find(m => m.id === aiMessageId);
+          const keepReply = !!(reply?.text || reply?.reasoning || reply?.imageUrl || reply?.toolSteps?.length);
+          return {
+            ...c,
+            messages: c.messages
+              .filter(m => m.id !== aiMessageId || keepReply)
+              .map(m => (m.id === aiMessageId ? { ...m, isStreaming: false, metadata: metadata && { ...metadata, latencyMs: Date.now() - startedAt } } : m)),
+            activeLeafId: c.activeLeafId === aiMessageId && !keepReply ? userMessage.id : c.activeLeafId,
+            updatedAt: new Date(),
+          };
+        }),
+      }));
+      if (isNewUserMessage) attachTokenCount(conversationId, userMessage.id, userMessage.text, currentModel);
+      if (replyText) attachTokenCount(conversationId, aiMessageId, replyText, currentModel);
+    }
+
+    const completed = !error && !controller.signal.aborted;
+    const finished = state.conversations.find(c => c.id === conversationId);
+    const reply = finished?.messages.find(m => m.id === aiMessageId);
+    // Compared replies are not read aloud, as they finish at about the same time
+    if (completed && finished && reply && !compared) onReply?.(reply, finished);
+    return completed;
+  };
+
+  return {
+    getState: () => state,
+
+    /** Subscribes to state changes; compatible with React's `useSyncExternalStore`. */
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getActiveConversation,
+    getMessages,
+
+    /** Reads stored conversations and opens the most recent one; safe to call more than once. */
+    load: () => {
+      loading ??= (storage ? storage.list() : Promise.resolve([]))
+        .then((stored) => {
+          stored.forEach(c => saved.set(c.id, c));
+          const conversations = stored.length ? stored : [createConversation()];
+          const latest = [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+          setState(prev => ({ ...prev, conversations, activeConversationId: latest.id }));
+          hasLoaded = true;
+          release();
+        })
+        .catch((err) => {
+          console.error("Solaris Memory Error:", err);
+          const fallback = createConversation();
+          setState(prev => ({
+            ...prev,
+            conversations: [fallback],
+            activeConversationId: fallback.id,
+            error: t('chat.storageUnavailable'),
+          }));
+        });
+      return loading;
+    },
+
+    /** Replaces the current error, or clears it with null. */
+    setError: (error: string | null) => setState(prev => ({ ...prev, error })),
+
+    createConversation: () => {
+      const conversation = createConversation(getActiveConversation()?.selectedModel);
+      setState(prev => ({
+        ...prev,
+        conversations: [conversation, ...prev.conversations],
+        activeConversationId: conversation.id,
+        error: null,
+      }));
+      return conversation;
+    },
+
+    selectConversation: (id: string) => setState(prev => ({ ...prev, activeConversationId: id, error: null })),
+
+    renameConversation: (id: string, title: string) => updateConversation(id, c => ({ ...c, title, updatedAt: new Date() })),
+
+    togglePin: (id: string) => updateConversation(id, c => ({ ...c, pinned: !c.pinned })),
+
+    /** Starts a conversation over from the welcome message, keeping its title, pin and persona. */
+    clearConversation: (id = state.activeConversationId) => {
+      const conversation = state.conversations.find(c => c.id === id);
+      if (!conversation || conversation.messages.some(m => m.isStreaming)) return;
+      const { messages, activeLeafId } = createConversation(conversation.selectedModel);
+      setState(prev => ({
+        ...prev,
+        error: null,
+        failedTurn: prev.failedTurn?.conversationId === id ? null : prev.failedTurn,
+        conversations: prev.conversations.map(c =>
+          c.id === id ? { ...c, messages, activeLeafId, summary: undefined, updatedAt: new Date() } : c),
+      }));
+      release();
+    },
+
+    deleteConversation: (id: string) => {
+      aborts.get(id)?.forEach(controller => controller.abort());
+      saved.delete(id);
+      storage?.delete(id).catch(err => console.error("Solaris Memory Error:", err));
+      setState(prev => {
+        let conversations = prev.conversations.filter(c => c.id !== id);
+        if (!conversations.length) conversations = [createConversation()];
+        const activeConversationId = prev.activeConversationId === id ? conversations[0].id : prev.activeConversationId;
+        return { ...prev, conversations, activeConversationId };
+      });
+      release();
+    },
+
+    /** Adds a conversation from an exported JSON document; a rejected file is reported as the error. */
+    importConversation: (json: string) => {
+      try {
+        const conversation = parseConversationImport(json);
+        setState(prev => ({
+          ...prev,
+          conversations: [conversation, ...prev.conversations],
+          activeConversationId: conversation.id,
+          error: null,
+        }));
+        return conversation;
+      } catch (err) {
+        setState(prev => ({ ...prev, error: err instanceof Error ? err.message : t('common.importFailed') }));
+        return null;
+      }
+    },
+
+    selectModel: (modelId: ModelId, conversationId = state.activeConversationId) => {
+      if (conversationId) updateConversation(conversationId, c => ({ ...c, selectedModel: modelId }));
+    },
+
+    /** Sends `text` with `attachments` as a new prompt on the active branch. Resolves to whether every reply completed. */
+    sendPrompt: async (text: string, attachments: Attachment[] = [], options: PromptOptions = {}) => {
+      const conversation = getActiveConversation();
+      if ((!text.trim() && !attachments.length) || state.isLoading || !conversation) return false;
+
+      const messages = getActivePath(conversation);
+      const userMessage: Message = {
+        id: nextId(),
+        parentId: conversation.activeLeafId,
+        role: Role.USER,
+        text: text || (attachments.length ? t('chat.attachmentOnly') : ""),
+        attachments: attachments.length ? attachments : undefined,
+        timestamp: new Date(),
+      };
+
+      // Memory is handled by passing the active branch
+      let completed = await runTurn(conversation, messages, userMessage, true, options);
+      // Further variations are sibling replies to the same prompt, browsable with ‹ n/m ›
+      const variations = getPersona(conversation.selectedModel).imageOutput ? options.variations ?? 1 : 1;
+      for (let i = 1; i < variations && completed; i++) {
+        completed = await runTurn(conversation, messages, userMessage, false, options);
+      }
+      return completed;
+    },
+
+    /**
+     * Sends `text` to two or three personas at once. Their replies stream in side by side as siblings
+     * under the prompt, which stays the active leaf until one of them is picked with `pickReply`.
+     * Resolves to whether every reply completed.
+     */
+    comparePrompt: async (text: string, attachments: Attachment[], personas: ModelId[], options: PromptOptions = {}) => {
+      const conversation = getActiveConversation();
+      const compared = [...new Set(personas)].slice(0, MAX_COMPARED);
+      if ((!text.trim() && !attachments.length) || compared.length < 2 || state.isLoading || !conversation) return false;
+
+      const messages = getActivePath(conversation);
+      const userMessage: Message = {
+        id: nextId(),
+        parentId: conversation.activeLeafId,
+        role: Role.USER,
+        text: text || (attachments.length ? t('chat.attachmentOnly') : ""),
+        attachments: attachments.length ? attachments : undefined,
+        timestamp: new Date(),
+      };
+      setState(prev => ({
+        ...prev,
+        error: null,
+        failedTurn: null,
+        conversations: prev.conversations.map(c =>
+          c.id === conversation.id ? { ...c, messages: [...c.messages, userMessage], activeLeafId: userMessage.id, updatedAt: new Date() } : c),
+      }));
+      attachTokenCount(conversation.id, userMessage.id, userMessage.text, conversation.selectedModel);
+
+      const results = await Promise.all(compared.map(persona =>
+        runTurn(conversation, messages, userMessage, false, options, { persona, compared: true })));
+      return results.every(Boolean);
+    },
+
+    /** Continues the active branch with `message`, one of the replies to a compared prompt, and answers next with its persona. */
+    pickReply: (message: Message) => {
+      const conversation = getActiveConversation();
+      if (!conversation || message.role !== Role.MODEL || message.isStreaming) return;
+      const persona = message.persona && hasPersona(message.persona) ? message.persona : undefined;
+      updateConversation(conversation.id, c => ({
+        ...c,
+        activeLeafId: findLatestLeaf(c.messages, message.id),
+        selectedModel: persona ?? c.selectedModel,
+        updatedAt: new Date(),
+      }));
+    },
+
+    /** Edits a user message by adding a sibling with the new text and answering it. */
+    editMessage: async (message: Message, text: string, options: PromptOptions = {}) => {
+      const conversation = getActiveConversation();
+      if (state.isLoading || !conversation || !text.trim()) return;
+      const messages = getActivePath(conversation);
+      // Gone from the active branch, e.g. switched away from while the edit was open
+      const index = messages.findIndex(m => m.id === message.id);
+      if (index < 0) return;
+      const edited: Message = {
+        ...message,
+        id: nextId(),
+        text,
+        timestamp: new Date(),
+        tokenCount: undefined,
+      };
+      await runTurn(conversation, messages.slice(0, index), edited, true, options);
+    },
+
+    /** Adds another answer to the prompt that produced `message`. */
+    regenerate: async (message: Message, options: PromptOptions = {}) => {
+      const conversation = getActiveConversation();
+      if (state.isLoading || !conversation) return;
+      const messages = getActivePath(conversation);
+      const index = messages.findIndex(m => m.id === message.id);
+      if (index < 0) return;
+      const prompt = messages[index - 1];
+      if (!prompt || prompt.role !== Role.USER) return;
+      await runTurn(conversation, messages.slice(0, index - 1), prompt, false, options);
+    },
+
+    /** Resends the prompt whose reply failed, keeping it in place in the tree. */
+    retryFailed: async (options: PromptOptions = {}) => {
+      const conversation = getActiveConversation();
+      const { failedTurn } = state;
+      if (state.isLoading || !conversation || failedTurn?.conversationId !== conversation.id) return;
+      const prompt = conversation.messages.find(m => m.id === failedTurn.userMessageId);
+      if (!prompt) return;
+      const history = prompt.parentId ? getPathTo(conversation.messages, prompt.parentId) : [];
+      await runTurn(conversation, history, prompt, false, options);
+    },
+
+    switchBranch: (message: Message, direction: -1 | 1) => {
+      const conversation = getActiveConversation();
+      if (!conversation) return;
+      const siblings = getSiblings(conversation.messages, message);
+      const target = siblings[siblings.indexOf(message) + direction];
+      if (!target) return;
+      updateConversation(conversation.id, c => ({ ...c, activeLeafId: findLatestLeaf(c.messages, target.id) }));
+    },
+
+    /** Opens the conversation with `messageId` on the active branch, switching branches only if needed. */
+    revealMessage: (conversationId: string, messageId: string) => {
+      setState(prev => ({
+        ...prev,
+        activeConversationId: conversationId,
+        error: null,
+        conversations: prev.conversations.map(c =>
+          c.id !== conversationId || getActivePath(c).some(m => m.id === messageId)
+            ? c
+            : { ...c, activeLeafId: findLatestLeaf(c.messages, messageId) }),
+      }));
+    },
+
+    /** Stops the reply being generated, keeping what already arrived. */
+    stop: () => aborts.forEach(running => running.forEach(controller => controller.abort())),
+  };
+};
+
+export type ChatEngine = ReturnType<typeof createChatEngine>;
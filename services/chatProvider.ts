@@ -0,0 +1,143 @@
+import { ModelId, Persona, ProviderId, SafetyRating, TokenUsage } from "../types";
+import { getPersona } from "./personaStore";
+import { geminiProvider } from "./providers/geminiProvider";
+import { openAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { proxyProvider } from "./providers/proxyProvider";
+import { withFixtures } from "./providers/fixtureProvider";
+import { FixtureConfig, getFixtureConfig } from "./fixtures";
+
+/** Binary attachment sent inline with a turn: an image or a PDF. */
+export interface InlineFile {
+  mimeType: string;
+  /** Base64 payload without the `data:` prefix. */
+  data: string;
+}
+
+/** Function the model may call, described with a JSON schema. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  /** Opaque provider data that must be echoed back with the call, e.g. Gemini thought signatures. */
+  providerData?: unknown;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  response: unknown;
+}
+
+/** Provider-neutral conversation turn. */
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  files?: InlineFile[];
+  /** Calls requested by the model in this turn. */
+  toolCalls?: ToolCall[];
+  /** Results answering the previous turn's calls. */
+  toolResults?: ToolResult[];
+}
+
+export interface ChatRequest {
+  model: string;
+  turns: ChatTurn[];
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  tools?: ToolDeclaration[];
+  /** Aspect ratio of generated images, e.g. "16:9"; ignored by text-only models. */
+  aspectRatio?: string;
+}
+
+export interface ChatReply {
+  text: string;
+  imageUrl?: string;
+  toolCalls?: ToolCall[];
+  /** Thought summary, for providers and models that report one. */
+  reasoning?: string;
+  /** Set when the provider withheld the reply for safety reasons; holds the blocking category. */
+  blockReason?: string;
+  /** Token counts; streaming providers report them on the last chunks. */
+  usage?: TokenUsage;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  modelVersion?: string;
+}
+
+/** Texts to turn into vectors for semantic retrieval. */
+export interface EmbedRequest {
+  model: string;
+  texts: string[];
+  /** Models that support it embed stored passages and search queries differently. */
+  task: 'document' | 'query';
+}
+
+/** Incremental update yielded by `ChatProvider.stream`: the new delta plus the reply accumulated so far. */
+export interface ChatStreamChunk extends ChatReply {
+  delta: string;
+}
+
+/**
+ * A backend able to answer a `ChatRequest`. Providers throw raw transport errors (HTTP failures
+ * as `HttpError`); classifying and retrying them is the caller's job, see `services/errors.ts`.
+ */
+export interface ChatProvider {
+  id: ProviderId;
+  generate(request: ChatRequest, signal?: AbortSignal): Promise<ChatReply>;
+  stream(request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk>;
+  /** Exact token count for the request's turns. Providers without one are estimated locally. */
+  countTokens?(request: ChatRequest): Promise<number>;
+  /** One vector per text, in order. Providers without embeddings leave retrieval to BM25. */
+  embed?(request: EmbedRequest, signal?: AbortSignal): Promise<number[][]>;
+}
+
+const BACKENDS: Record<ProviderId, ChatProvider> = {
+  // With a proxy configured the browser never talks to Gemini itself and holds no key
+  gemini: process.env.GEMINI_PROXY_URL ? proxyProvider : geminiProvider,
+  openai: openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+// CHAT_FIXTURES=record|replay, or `setFixtureConfig`, puts every backend behind recorded fixtures, see services/fixtures.ts
+let wrapped: { config: FixtureConfig; providers: Record<ProviderId, ChatProvider> } | null = null;
+
+export const getProvider = (id: ProviderId): ChatProvider => {
+  const config = getFixtureConfig();
+  if (!config) return BACKENDS[id];
+  if (wrapped?.config !== config) {
+    const providers = Object.fromEntries(Object.entries(BACKENDS).map(([key, provider]) => [key, withFixtures(provider, config)]));
+    wrapped = { config, providers: providers as Record<ProviderId, ChatProvider> };
+  }
+  return wrapped.providers[id];
+};
+
+/**
+ * Resolves which backend answers a persona. `CHAT_PROVIDER` / `CHAT_MODEL` override every persona at once,
+ * e.g. to run the whole app against a local Ollama server or the mock provider.
+ */
+export const resolveBackend = (modelId: ModelId): { provider: ChatProvider; model: string; persona: Persona } => {
+  const persona = getPersona(modelId);
+  const providerId = (process.env.CHAT_PROVIDER as ProviderId | undefined) || persona.provider;
+  return {
+    provider: getProvider(providerId),
+    model: process.env.CHAT_MODEL || persona.model,
+    persona,
+  };
+};
+
+/** Splits a `data:<mime>;base64,<payload>` URL into an `InlineFile`. */
+export const parseDataUrl = (dataUrl: string): InlineFile => {
+  const [mimeInfo, data] = dataUrl.split(',');
+  const mimeType = mimeInfo.match(/:(.*?);/)?.[1] || 'image/png';
+  return { mimeType, data };
+};
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runCode, type RunnerMessage } from './codeRunner';
+import { SANDBOX_WORKER_SOURCE } from './codeSandbox';
+
+/** The sandbox frame of the run in progress, once its snippet has compiled. */
+const sandboxFrame = () => vi.waitFor(() => {
+  const frame = document.querySelector('iframe');
+  if (!frame) throw new Error('no sandbox frame yet');
+  return frame;
+});
+
+/** Delivers a message to the page the way the sandbox frame posts it. */
+const post = (source: MessageEventSource | null, data: RunnerMessage) =>
+  window.dispatchEvent(new MessageEvent('message', { source, data }));
+
+afterEach(() => {
+  vi.useRealTimers();
+  document.body.innerHTML = '';
+});
+
+describe('runCode', () => {
+  it('runs the snippet in a frame with an opaque origin', async () => {
+    const running = runCode('1', 'javascript');
+    const frame = await sandboxFrame();
+    expect(frame.getAttribute('sandbox')).toBe('allow-scripts');
+    expect(frame.srcdoc).toContain("default-src 'none'");
+    post(frame.contentWindow, { type: 'done' });
+    await running;
+  });
+
+  it('compiles the snippet and hands it to the frame with the worker', async () => {
+    const running = runCode('import fs from "fs";\nconst n: number = 1;', 'typescript');
+    const frame = await sandboxFrame();
+    const send = vi.spyOn(frame.contentWindow!, 'postMessage');
+    frame.dispatchEvent(new Event('load'));
+    const [{ worker, code }] = send.mock.calls[0] as unknown as [{ worker: string; code: string }];
+    expect(worker).toBe(SANDBOX_WORKER_SOURCE);
+    expect(code).toContain('require("fs")');
+    expect(code).not.toContain(': number');
+    post(frame.contentWindow, { type: 'done' });
+    await running;
+  });
+
+  it('collects output from its own frame only and removes the frame when done', async () => {
+    const running = runCode('console.log(1)', 'javascript');
+    const frame = await sandboxFrame();
+    post(window, { type: 'line', level: 'log', text: 'from the page' });
+    post(frame.contentWindow, { type: 'line', level: 'log', text: '1' });
+    post(frame.contentWindow, { type: 'error', text: 'TypeError: late' });
+    post(window, { type: 'done' });
+    expect(document.querySelector('iframe')).toBe(frame);
+    post(frame.contentWindow, { type: 'done' });
+    const result = await running;
+    expect(result).toMatchObject({ status: 'failed', error: 'TypeError: late', lines: [{ level: 'log', text: '1' }] });
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('ends a run that does not finish in time and removes its frame', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const running = runCode('while (true) {}', 'javascript');
+    await sandboxFrame();
+    vi.advanceTimersByTime(5000);
+    const result = await running;
+    expect(result.status).toBe('timedOut');
+    expect(result.error).toBeTruthy();
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('stops when aborted and removes its frame', async () => {
+    const controller = new AbortController();
+    const running = runCode('setInterval(() => {}, 10)', 'javascript', controller.signal);
+    await sandboxFrame();
+    controller.abort();
+    expect((await running).status).toBe('stopped');
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+
+  it('reports a snippet that does not compile without starting a frame', async () => {
+    const result = await runCode('const = 1', 'javascript');
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/Unexpected token/);
+    expect(document.querySelector('iframe')).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { resolveLanguage } from '../utils/highlight';
+import { t } from './i18n';
+import { SANDBOX_WORKER_SOURCE, sandboxDocument } from './codeSandbox';
+
+export type RunLanguage = 'javascript' | 'typescript';
+
+export interface RunLine {
+  /** `result` is the value the snippet evaluated to, printed after its console output. */
+  level: 'log' | 'warn' | 'error' | 'result';
+  text: string;
+}
+
+export interface RunResult {
+  lines: RunLine[];
+  /** `failed` when something was thrown and not caught; `timedOut` and `stopped` runs were cut short. */
+  status: 'finished' | 'failed' | 'timedOut' | 'stopped';
+  /** The first uncaught exception or rejection, or why the run was cut short. */
+  error?: string;
+  durationMs: number;
+}
+
+/** What the sandbox (codeSandbox.worker.js) posts back while a snippet runs. */
+export type RunnerMessage =
+  | { type: 'line'; level: RunLine['level']; text: string }
+  | { type: 'error'; text: string }
+  | { type: 'done' };
+
+// How long a snippet and the timers it schedules may run before its sandbox is removed
+const RUN_TIMEOUT_MS = 5000;
+// Console lines kept per run; a print loop must not freeze the chat
+const MAX_LINES = 500;
+
+// JSX needs React in scope, which the worker does not have
+const RUNNABLE = new Set(['js', 'javascript', 'mjs', 'cjs', 'ts', 'typescript']);
+
+/** The language a fenced block runs as, or null when it cannot be run. */
+export const getRunLanguage = (lang: string): RunLanguage | null => {
+  if (!RUNNABLE.has(lang.trim().toLowerCase())) return null;
+  return resolveLanguage(lang) as RunLanguage;
+};
+
+/**
+ * Compiles the snippet to a plain script: types are stripped and `import`/`export`, dynamic imports
+ * included, become CommonJS, whose `require` fails in the worker. Babel is large, so it is loaded
+ * with the first run rather than with the page.
+ */
+const compile = async (code: string, language: RunLanguage): Promise<string> => {
+  let babel: typeof import('@babel/standalone');
+  try {
+    babel = await import('@babel/standalone');
+  } catch (err) {
+    console.error("Solaris Runner Error:", err);
+    throw new Error(t('run.noTranspiler'));
+  }
+  return babel.transform(code, {
+    filename: language === 'typescript' ? 'snippet.ts' : 'snippet.js',
+    presets: language === 'typescript' ? [['typescript', { allExtensions: true, onlyRemoveTypeImports: true }]] : [],
+    plugins: ['transform-modules-commonjs'],
+    sourceType: 'module',
+  }).code ?? '';
+};
+
+/**
+ * Runs a snippet in a fresh worker inside a sandboxed frame whose content security policy blocks all
+ * requests, collecting its console output, completion value and uncaught errors. The frame has an
+ * opaque origin, so the snippet cannot reach the page or its storage either. Never rejects: failures
+ * are reported in the result.
+ */
+export const runCode = async (code: string, language: RunLanguage, signal?: AbortSignal): Promise<RunResult> => {
+  const startedAt = performance.now();
+  let source: string;
+  try {
+    source = await compile(code, language);
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { lines: [], status: 'failed', error, durationMs: Math.round(performance.now() - startedAt) };
+  }
+
+  return new Promise(resolve => {
+    const lines: RunLine[] = [];
+    let error: string | undefined;
+
+    const frame = document.createElement('iframe');
+    frame.setAttribute('sandbox', 'allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = sandboxDocument(crypto.randomUUID());
+    const finish = (cutShort?: 'timedOut' | 'stopped') => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      window.removeEventListener('message', receive);
+      // Removing the frame ends the worker with it
+      frame.remove();
+      const status = cutShort ?? (error ? 'failed' : 'finished');
+      resolve({ lines, status, error, durationMs: Math.round(performance.now() - startedAt) });
+    };
+    const stop = () => {
+      error ??= t('run.stopped');
+      finish('stopped');
+    };
+    const timer = setTimeout(() => {
+      error ??= t('run.timedOut', { seconds: RUN_TIMEOUT_MS / 1000 });
+      finish('timedOut');
+    }, RUN_TIMEOUT_MS);
+    // Other frames post messages too; only this run's sandbox is listened to
+    const receive = ({ source: sender, data }: MessageEvent<RunnerMessage>) => {
+      if (sender !== frame.contentWindow) return;
+      if (data.type === 'done') return finish();
+      if (data.type === 'error') error ??= data.text || t('run.workerFailed');
+      else if (lines.length < MAX_LINES) lines.push({ level: data.level, text: data.text });
+      else if (lines.length === MAX_LINES) lines.push({ level: 'warn', text: t('run.truncated', { count: MAX_LINES }) });
+    };
+    if (signal?.aborted) return stop();
+    signal?.addEventListener('abort', stop, { once: true });
+    window.addEventListener('message', receive);
+
+    // The frame's origin is opaque, so messages to it cannot name a target origin
+    frame.onload = () => frame.contentWindow?.postMessage({ worker: SANDBOX_WORKER_SOURCE, code: source }, '*');
+    document.body.appendChild(frame);
+  });
+};
+
+/** A code block's latest run; `result` is null while it runs. */
+export interface CodeRun {
+  isRunning: boolean;
+  result: RunResult | null;
+}
+
+// Runs by block id. They are kept here rather than in the block, which the message list unmounts when
+// it scrolls out of view; a run keeps going meanwhile and its output is there when the block returns
+const runs = new Map<string, CodeRun>();
+const runAborts = new Map<string, AbortController>();
+const runListeners = new Set<() => void>();
+
+const setCodeRun = (id: string, run: CodeRun | null) => {
+  if (run) runs.set(id, run);
+  else runs.delete(id);
+  runListeners.forEach(listener => listener());
+};
+
+export const getCodeRun = (id: string): CodeRun | undefined => runs.get(id);
+
+/** Subscribes to code runs; compatible with React's `useSyncExternalStore`. */
+export const subscribeCodeRuns = (listener: () => void) => {
+  runListeners.add(listener);
+  return () => {
+    runListeners.delete(listener);
+  };
+};
+
+/** Runs the block `id`, or stops it when it is already running. */
+export const toggleCodeRun = async (id: string, code: string, language: RunLanguage) => {
+  const running = runAborts.get(id);
+  if (running) return running.abort();
+  const controller = new AbortController();
+  runAborts.set(id, controller);
+  setCodeRun(id, { isRunning: true, result: null });
+  const result = await runCode(code, language, controller.signal);
+  runAborts.delete(id);
+  setCodeRun(id, { isRunning: false, result });
+};
+
+/** Closes the output of a finished run. */
+export const clearCodeRun = (id: string) => {
+  if (!runAborts.has(id)) setCodeRun(id, null);
+};
+
+/** The prompt for a fix-it turn: the snippet, what went wrong and what it printed before. */
+export const buildFixPrompt = (code: string, lang: string, result: RunResult): string => {
+  const output = result.lines.map(line => line.text).join('\n');
+  const prompt = t('run.fixPrompt', { lang, code: code.trimEnd(), error: result.error ?? '' });
+  return output ? `${prompt}\n\n${t('run.fixOutput', { output })}` : prompt;
+};
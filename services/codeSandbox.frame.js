@@ -0,0 +1,15 @@
+// Runs in the sandboxed frame codeRunner.ts creates for each run: starts the worker from the source
+// the page posts, hands it the snippet and relays what it posts back. A worker that fails to start
+// ends the run with its error. Plain script, inlined into the frame's document as it is.
+addEventListener('message', ({ source, data }) => {
+  if (source !== parent) return;
+  const relay = (message) => parent.postMessage(message, '*');
+  const worker = new Worker(URL.createObjectURL(new Blob([data.worker], { type: 'text/javascript' })));
+  worker.onmessage = (event) => relay(event.data);
+  worker.onerror = (event) => {
+    event.preventDefault();
+    relay({ type: 'error', text: event.message });
+    relay({ type: 'done' });
+  };
+  worker.postMessage(data.code);
+}, { once: true });
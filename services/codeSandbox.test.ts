@@ -0,0 +1,108 @@
+import vm from 'node:vm';
+import { describe, expect, it, vi } from 'vitest';
+import { SANDBOX_WORKER_SOURCE, sandboxDocument } from './codeSandbox';
+import type { RunnerMessage } from './codeRunner';
+
+/**
+ * Starts the shipped worker source in a context shaped like a worker's global scope, with the
+ * network and storage APIs a real one has.
+ */
+const startWorker = () => {
+  const messages: RunnerMessage[] = [];
+  const listeners = new Map<string, (event: unknown) => void>();
+  const context = vm.createContext({
+    console: {},
+    postMessage: (message: RunnerMessage) => messages.push(message),
+    setTimeout, setInterval, clearTimeout, clearInterval,
+    addEventListener: (type: string, listener: (event: unknown) => void) => listeners.set(type, listener),
+    fetch: () => Promise.resolve(),
+    XMLHttpRequest: class {},
+    WebSocket: class {},
+    EventSource: class {},
+    importScripts: () => {},
+    indexedDB: {},
+    caches: {},
+    Worker: class {},
+    navigator: {},
+    location: {},
+  });
+  vm.runInContext(SANDBOX_WORKER_SOURCE, context);
+  const run = (code: string) => listeners.get('message')!({ data: code });
+  const settled = () => vi.waitFor(() => expect(messages.at(-1)).toEqual({ type: 'done' }));
+  const printed = () => messages.flatMap(message => (message.type === 'line' ? [message.text] : []));
+  const errors = () => messages.flatMap(message => (message.type === 'error' ? [message.text] : []));
+  return { messages, run, settled, printed, errors };
+};
+
+describe('sandbox worker', () => {
+  it('prints console output and the completion value', async () => {
+    const worker = startWorker();
+    worker.run('console.log("sum", { a: [1, 2] }); 40 + 2');
+    await worker.settled();
+    expect(worker.printed()).toEqual(['sum { a: [1, 2] }', '42']);
+  });
+
+  it.each(['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker', 'navigator', 'location', 'postMessage'])(
+    'takes %s away from the snippet',
+    async (name) => {
+      const worker = startWorker();
+      worker.run(`${name}`);
+      await worker.settled();
+      expect(worker.errors()).toEqual([`ReferenceError: ${name} is not available when running code from the chat`]);
+    },
+  );
+
+  it('keeps the blocked names from being redefined', async () => {
+    const worker = startWorker();
+    worker.run('globalThis.fetch = () => 1; typeof fetch');
+    await worker.settled();
+    expect(worker.errors()).toHaveLength(1);
+  });
+
+  it('cannot see the page', async () => {
+    const worker = startWorker();
+    worker.run('[typeof window, typeof document, typeof parent, typeof localStorage].join()');
+    await worker.settled();
+    expect(worker.printed()).toEqual(['undefined,undefined,undefined,undefined']);
+  });
+
+  it('fails imports compiled to require', async () => {
+    const worker = startWorker();
+    worker.run('require("fs")');
+    await worker.settled();
+    expect(worker.errors()).toEqual(['Error: Cannot import "fs" when running code from the chat']);
+  });
+
+  it('reports uncaught errors from timers and stays running until they are done', async () => {
+    const worker = startWorker();
+    worker.run('setTimeout(() => { throw new TypeError("late") }, 150); "started"');
+    await vi.waitFor(() => expect(worker.printed()).toEqual(['started']), { interval: 5 });
+    expect(worker.messages.at(-1)).not.toEqual({ type: 'done' });
+    await worker.settled();
+    expect(worker.errors()).toEqual(['TypeError: late']);
+  });
+
+  it('is not done while an interval runs', async () => {
+    const worker = startWorker();
+    worker.run('const id = setInterval(() => {}, 5); setTimeout(() => clearInterval(id), 40)');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(worker.messages).not.toContainEqual({ type: 'done' });
+    await worker.settled();
+  });
+
+  it('runs top-level await', async () => {
+    const worker = startWorker();
+    worker.run('const value = await Promise.resolve(7); console.log(value)');
+    await worker.settled();
+    expect(worker.printed()).toEqual(['7']);
+  });
+});
+
+describe('sandboxDocument', () => {
+  it('blocks every request and runs only its own script', () => {
+    const html = sandboxDocument('n0nce');
+    const policy = html.match(/content="([^"]+)"/)![1];
+    expect(policy.split('; ')).toEqual(["default-src 'none'", "script-src 'nonce-n0nce' 'unsafe-eval'", 'worker-src blob:']);
+    expect(html).toContain('<script nonce="n0nce">');
+  });
+});
@@ -0,0 +1,15 @@
+// Both run outside the page's bundle, so they are shipped as their source text rather than compiled in
+import frameSource from './codeSandbox.frame.js?raw';
+import workerSource from './codeSandbox.worker.js?raw';
+
+/** Source of the worker a snippet runs in, for the frame to start from a blob. */
+export const SANDBOX_WORKER_SOURCE = workerSource;
+
+/**
+ * The sandboxed frame's document. Its policy blocks every request, `import()` and `importScripts`
+ * included, and lets only the frame's own script and the worker it starts from a blob run; the
+ * worker inherits the policy. `unsafe-eval` is what runs the snippet itself.
+ */
+export const sandboxDocument = (nonce: string) => `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}' 'unsafe-eval'; worker-src blob:">
+<script nonce="${nonce}">${frameSource}</script>`;
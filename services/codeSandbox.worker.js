@@ -0,0 +1,173 @@
+// The worker a snippet runs in, one per run. codeRunner.ts starts it from a blob inside a sandboxed
+// frame whose content security policy blocks all requests, so this file is plain script shipped as
+// it is: no imports, and its names are kept out of the snippet's global scope.
+(() => {
+  /** Prints any value roughly the way a browser console would; top-level strings are printed as they are. */
+  const inspect = (value) => {
+    // Bounds for printing a value, so a huge or deeply nested object cannot flood the output panel
+    const MAX_DEPTH = 3;
+    const MAX_ITEMS = 50;
+    const MAX_LENGTH = 10_000;
+
+    const inspectValue = (value, depth, seen) => {
+      if (typeof value === 'string') return depth ? JSON.stringify(value) : value;
+      if (typeof value === 'bigint') return `${value}n`;
+      if (typeof value === 'symbol') return value.toString();
+      if (typeof value === 'function') return /^class\b/.test(Function.prototype.toString.call(value)) ? `[class ${value.name || '(anonymous)'}]` : `[Function ${value.name || '(anonymous)'}]`;
+      if (value === null || typeof value !== 'object') return String(value);
+
+      if (value instanceof Error) return value.stack && depth === 0 ? value.stack : `${value.name}: ${value.message}`;
+      if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+      if (value instanceof RegExp) return String(value);
+      if (value instanceof Promise) return 'Promise { … }';
+      if (seen.has(value)) return '[Circular]';
+
+      const nested = (item) => inspectValue(item, depth + 1, seen);
+      const list = (items, total) => (total > MAX_ITEMS ? [...items, `… ${total - MAX_ITEMS} more`] : items).join(', ');
+      seen.add(value);
+      try {
+        if (Array.isArray(value)) {
+          if (depth >= MAX_DEPTH) return `[Array(${value.length})]`;
+          return `[${list(value.slice(0, MAX_ITEMS).map(nested), value.length)}]`;
+        }
+        if (value instanceof Map) {
+          if (depth >= MAX_DEPTH) return `[Map(${value.size})]`;
+          const entries = [...value].slice(0, MAX_ITEMS).map(([k, v]) => `${nested(k)} => ${nested(v)}`);
+          return `Map(${value.size}) {${entries.length ? ` ${list(entries, value.size)} ` : ''}}`;
+        }
+        if (value instanceof Set) {
+          if (depth >= MAX_DEPTH) return `[Set(${value.size})]`;
+          const items = [...value].slice(0, MAX_ITEMS).map(nested);
+          return `Set(${value.size}) {${items.length ? ` ${list(items, value.size)} ` : ''}}`;
+        }
+        const name = Object.getPrototypeOf(value)?.constructor?.name;
+        const prefix = name && name !== 'Object' ? `${name} ` : '';
+        if (depth >= MAX_DEPTH) return `[${name || 'Object'}]`;
+        const keys = Object.keys(value);
+        const entries = keys.slice(0, MAX_ITEMS).map(key => {
+          const label = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+          return `${label}: ${nested(value[key])}`;
+        });
+        return `${prefix}{${entries.length ? ` ${list(entries, keys.length)} ` : ''}}`;
+      } catch {
+        // Getters may throw
+        return '[Object]';
+      } finally {
+        seen.delete(value);
+      }
+    };
+
+    const text = inspectValue(value, 0, new Set());
+    return text.length > MAX_LENGTH ? `${text.slice(0, MAX_LENGTH)}…` : text;
+  };
+
+  const scope = globalThis;
+  const send = scope.postMessage.bind(scope);
+  const nativeSetTimeout = scope.setTimeout.bind(scope);
+  const nativeSetInterval = scope.setInterval.bind(scope);
+  const nativeClearTimer = scope.clearTimeout.bind(scope);
+
+  // Taken from the prototypes too, so `Object.getPrototypeOf(self).fetch` does not bring them back
+  const BLOCKED = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+    'BroadcastChannel', 'Worker', 'SharedWorker', 'postMessage', 'navigator', 'location',
+  ];
+  for (const name of BLOCKED) {
+    for (let target = scope; target; target = Object.getPrototypeOf(target)) {
+      if (Object.getOwnPropertyDescriptor(target, name)?.configurable) delete target[name];
+    }
+    Object.defineProperty(scope, name, {
+      get() { throw new ReferenceError(`${name} is not available when running code from the chat`); },
+      configurable: false,
+    });
+  }
+
+  const describe = (err) => (err instanceof Error ? `${err.name}: ${err.message}` : `Uncaught ${inspect(err)}`);
+  const report = (err) => send({ type: 'error', text: describe(err) });
+
+  const print = (level) => (...args) =>
+    send({ type: 'line', level, text: args.map(inspect).join(' ') });
+  Object.assign(console, {
+    log: print('log'),
+    info: print('log'),
+    debug: print('log'),
+    trace: print('log'),
+    dir: print('log'),
+    table: print('log'),
+    warn: print('warn'),
+    error: print('error'),
+  });
+
+  // The run is done once the snippet has settled and none of its timers are left
+  const timers = new Set();
+  let evaluated = false;
+  const settle = () => nativeSetTimeout(() => {
+    if (evaluated && !timers.size) send({ type: 'done' });
+  });
+
+  const callback = (handler, args) => () => {
+    try {
+      if (typeof handler === 'function') handler(...args);
+    } catch (err) {
+      report(err);
+    }
+  };
+  scope.setTimeout = (handler, ms, ...args) => {
+    const id = nativeSetTimeout(() => {
+      timers.delete(id);
+      callback(handler, args)();
+      settle();
+    }, ms);
+    timers.add(id);
+    return id;
+  };
+  // An interval keeps the run alive until it is cleared or the time limit ends it
+  scope.setInterval = (handler, ms, ...args) => {
+    const id = nativeSetInterval(callback(handler, args), ms);
+    timers.add(id);
+    return id;
+  };
+  scope.clearTimeout = scope.clearInterval = (id) => {
+    nativeClearTimer(id);
+    if (timers.delete(id)) settle();
+  };
+
+  // Compiled modules refer to these; `require` is how an `import` fails
+  scope.exports = {};
+  scope.module = { exports: scope.exports };
+  scope.require = (specifier) => {
+    throw new Error(`Cannot import "${specifier}" when running code from the chat`);
+  };
+
+  const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor;
+
+  /** The completion value of the snippet, like a console prints it; top-level `await` needs a function body instead. */
+  const evaluate = async (source) => {
+    try {
+      return await (0, eval)(source);
+    } catch (err) {
+      if (err instanceof SyntaxError && /\bawait\b/.test(err.message)) return await new AsyncFunction(source)();
+      throw err;
+    }
+  };
+
+  scope.addEventListener('unhandledrejection', (event) => {
+    event.preventDefault();
+    report(event.reason);
+  });
+  scope.addEventListener('error', (event) => {
+    event.preventDefault();
+    report(event.error ?? event.message);
+  });
+
+  scope.addEventListener('message', async ({ data }) => {
+    try {
+      const value = await evaluate(data);
+      if (value !== undefined) send({ type: 'line', level: 'result', text: inspect(value) });
+    } catch (err) {
+      report(err);
+    }
+    evaluated = true;
+    settle();
+  }, { once: true });
+})();
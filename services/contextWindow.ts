@@ -0,0 +1,113 @@
+import { ConversationSummary, Message, ModelId, Role } from "../types";
+import { resolveBackend } from "./chatProvider";
+import { withRetry } from "./errors";
+import { t } from "./i18n";
+
+// Rough average for mixed Russian/English text and code; only used when the provider cannot count.
+const CHARS_PER_TOKEN = 4;
+
+// After a summarization pass the verbatim window shrinks to this share of the budget,
+// so the next few turns fit without another summarization round trip.
+const REFILL_RATIO = 0.75;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const messageTokens = (message: Message) => message.tokenCount ?? estimateTokens(message.text);
+
+/** Counts tokens with the persona's provider when it supports it and the browser is online, else estimates. */
+export const countTokens = async (text: string, modelId: ModelId): Promise<number> => {
+  const { provider, model } = resolveBackend(modelId);
+  const isOnline = typeof navigator === 'undefined' || navigator.onLine;
+  if (provider.countTokens && isOnline) {
+    try {
+      return await provider.countTokens({ model, turns: [{ role: 'user', text }] });
+    } catch (error) {
+      console.warn("Solaris Token Counter fallback:", error);
+    }
+  }
+  return estimateTokens(text);
+};
+
+export interface ContextWindow {
+  /** Messages sent verbatim, oldest first. */
+  inMemory: Message[];
+  /** Messages that fell out of the budget and are not covered by the summary yet. */
+  pending: Message[];
+  /** Summary sent ahead of `inMemory`, if it still matches the conversation. */
+  summary?: ConversationSummary;
+  budget: number;
+  usedTokens: number;
+}
+
+/** Picks the newest messages that fit the persona's budget, after the tokens spent on the summary. */
+export const selectContextWindow = (messages: Message[], modelId: ModelId, summary?: ConversationSummary): ContextWindow => {
+  const budget = resolveBackend(modelId).persona.contextBudget;
+  if (!budget) return { inMemory: [], pending: [], budget, usedTokens: 0 };
+
+  // A summary whose anchor message is gone (e.g. deleted) no longer describes this history
+  const summaryIndex = summary ? messages.findIndex(m => m.id === summary.throughMessageId) : -1;
+  const activeSummary = summaryIndex >= 0 ? summary : undefined;
+  const candidates = messages.slice(summaryIndex + 1).filter(m => !m.isStreaming);
+
+  let usedTokens = activeSummary?.tokenCount ?? 0;
+  let start = candidates.length;
+  while (start > 0 && usedTokens + messageTokens(candidates[start - 1]) <= budget) {
+    usedTokens += messageTokens(candidates[start - 1]);
+    start--;
+  }
+
+  return {
+    inMemory: candidates.slice(start),
+    pending: candidates.slice(0, start),
+    summary: activeSummary,
+    budget,
+    usedTokens,
+  };
+};
+
+/**
+ * Folds the messages that no longer fit the budget into the running summary.
+ * Returns the summary unchanged when nothing overflowed.
+ */
+export const condenseHistory = async (
+  messages: Message[],
+  modelId: ModelId,
+  summary?: ConversationSummary,
+  signal?: AbortSignal
+): Promise<ConversationSummary | undefined> => {
+  const window = selectContextWindow(messages, modelId, summary);
+  if (!window.pending.length) return summary;
+
+  const folded = [...window.pending];
+  const kept = [...window.inMemory];
+  let keptTokens = kept.reduce((sum, m) => sum + messageTokens(m), 0);
+  while (kept.length > 1 && keptTokens > window.budget * REFILL_RATIO) {
+    const message = kept.shift()!;
+    keptTokens -= messageTokens(message);
+    folded.push(message);
+  }
+
+  const transcript = folded
+    .map(m => `${m.role === Role.USER ? t('model.userLabel') : 'NikiViti'}: ${m.text}`)
+    .join('\n\n');
+  const prompt = window.summary
+    ? t('model.summaryUpdate', { summary: window.summary.text, transcript })
+    : t('model.summaryTurns', { transcript });
+
+  const { provider, model } = resolveBackend(modelId);
+  const reply = await withRetry(() => provider.generate({
+    model,
+    systemInstruction: t('model.summaryInstruction'),
+    temperature: 0.2,
+    turns: [{ role: 'user', text: prompt }],
+  }, signal), { signal });
+
+  const text = reply.text.trim();
+  if (!text) throw new Error("Empty summary received.");
+
+  return {
+    text,
+    throughMessageId: folded[folded.length - 1].id,
+    tokenCount: await countTokens(text, modelId),
+  };
+};
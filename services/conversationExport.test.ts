@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseConversationImport } from './conversationExport';
+import { MessageKey, t } from './i18n';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+const message = (id: string, parentId: string | null, extra: Record<string, unknown> = {}) => ({
+  id,
+  parentId,
+  role: 'user',
+  text: `text of ${id}`,
+  timestamp: '2025-01-02T03:04:05.000Z',
+  ...extra,
+});
+
+const exportFile = (messages: unknown[], version = EXPORT_VERSION) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version, conversation: { title: 'Imported', messages } });
+
+const rejection = (reason: MessageKey, params?: Record<string, string>) =>
+  t('import.rejected', { reason: t(reason, params) });
+
+describe('parseConversationImport', () => {
+  it.each<[string, string, string]>([
+    ['a message that is its own parent', exportFile([message('m1', 'm1')]), rejection('import.parentCycle', { id: 'm1' })],
+    ['a cycle through two messages', exportFile([message('m1', null), message('m2', 'm3'), message('m3', 'm2')]), rejection('import.parentCycle', { id: 'm2' })],
+    ['a missing parent', exportFile([message('m1', null), message('m2', 'gone')]), rejection('import.parentMissing', { id: 'gone' })],
+    ['a duplicate id', exportFile([message('m1', null), message('m1', null)]), rejection('import.duplicate', { field: 'messages[1].id' })],
+    ['a missing id', exportFile([message('', null)]), rejection('import.missing', { field: 'messages[0].id' })],
+    ['an unknown role', exportFile([message('m1', null, { role: 'system' })]), rejection('import.invalid', { field: 'messages[0].role' })],
+    ['an unknown provider', exportFile([message('m1', null, { metadata: { provider: 'acme', model: 'x', latencyMs: 1 } })]), rejection('import.invalid', { field: 'messages[0].metadata.provider' })],
+    ['a version 1 image that is a web URL', exportFile([message('m1', null, { inputImageUrl: 'https://example.com/a.png' })], 1), rejection('import.notImageUrl', { field: 'messages[0].inputImageUrl' })],
+    ['a version 1 image that is script', exportFile([message('m1', null, { inputImageUrl: 'javascript:alert(1)' })], 1), rejection('import.notImageUrl', { field: 'messages[0].inputImageUrl' })],
+    ['a generated image that is not a data:image URL', exportFile([message('m1', null, { imageUrl: 'data:text/html;base64,PHNjcmlwdD4=' })]), rejection('import.notImageUrl', { field: 'messages[0].imageUrl' })],
+    ['a newer version', exportFile([message('m1', null)], EXPORT_VERSION + 1), rejection('import.unsupportedVersion', { version: String(EXPORT_VERSION + 1) })],
+    ['another format', JSON.stringify({ format: 'other', version: 1 }), rejection('import.unknownFormat')],
+    ['no messages', exportFile([]), rejection('import.noMessages')],
+    ['text that is not JSON', '{', rejection('import.notJson')],
+  ])('rejects %s', (_, json, error) => {
+    expect(() => parseConversationImport(json)).toThrow(error);
+  });
+
+  it('keeps the branches of a tree', () => {
+    const conversation = parseConversationImport(exportFile([message('m1', null), message('m2', 'm1'), message('m3', 'm1')]));
+    expect(conversation.messages.map(m => [m.id, m.parentId])).toEqual([['m1', null], ['m2', 'm1'], ['m3', 'm1']]);
+    expect(conversation.activeLeafId).toBe('m3');
+  });
+
+  it('chains messages without parentId in file order', () => {
+    const messages = [message('m1', null), message('m2', null), message('m3', null)].map(({ parentId: _, ...rest }) => rest);
+    const conversation = parseConversationImport(exportFile(messages, 1));
+    expect(conversation.messages.map(m => m.parentId)).toEqual([null, 'm1', 'm2']);
+  });
+
+  it('turns the image of a version 1 file into an attachment', () => {
+    const conversation = parseConversationImport(exportFile([message('m1', null, { inputImageUrl: IMAGE })], 1));
+    const [attachment] = conversation.messages[0].attachments!;
+    expect(attachment).toMatchObject({ kind: 'image', mimeType: 'image/png', dataUrl: IMAGE });
+    expect(conversation.messages[0]).not.toHaveProperty('inputImageUrl');
+  });
+
+  it('ignores inputImageUrl in files of the current version', () => {
+    const conversation = parseConversationImport(exportFile([message('m1', null, { inputImageUrl: 'https://example.com/a.png' })]));
+    expect(conversation.messages[0].attachments).toBeUndefined();
+  });
+});
@@ -0,0 +1,314 @@
+import { ArtDetails, Attachment, Citation, Conversation, ConversationSummary, Message, ModelId, PROVIDER_IDS, ReplyMetadata, Role, TokenUsage } from "../types";
+import { hasPersona } from "./personaStore";
+import { DEFAULT_PERSONA_ID } from "../constants";
+import { ATTACHMENT_LIMITS, formatBytes, imageAttachment } from "../utils/attachments";
+import { MessageKey, formatDateTime, getLocale, t } from "./i18n";
+
+export const EXPORT_FORMAT = 'nikiviti-conversation';
+// v2 replaced the single `inputImageUrl` with `attachments`
+export const EXPORT_VERSION = 2;
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+interface ExportedMessage extends Omit<Message, 'timestamp' | 'isStreaming'> {
+  timestamp: string;
+}
+
+interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: {
+    title: string;
+    selectedModel: ModelId;
+    createdAt: string;
+    activeLeafId: string;
+    summary?: ConversationSummary;
+    messages: ExportedMessage[];
+  };
+}
+
+const roleLabel = (message: Message) => (message.role === Role.USER ? t('export.user') : 'NikiViti');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Serializes either the whole conversation tree or, when `range` is given, just those
+ * messages relinked into a single branch.
+ */
+export const exportToJson = (conversation: Conversation, range?: Message[]): string => {
+  const messages = range
+    ? range.map((m, i) => ({ ...m, parentId: i > 0 ? range[i - 1].id : null }))
+    : conversation.messages;
+
+  const payload: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      selectedModel: conversation.selectedModel,
+      createdAt: conversation.createdAt.toISOString(),
+      activeLeafId: range ? range[range.length - 1].id : conversation.activeLeafId,
+      // A partial export may not contain the summarized turns, so the summary only travels with the whole tree
+      summary: range ? undefined : conversation.summary,
+      messages: messages.map(({ isStreaming, ...m }) => ({ ...m, timestamp: m.timestamp.toISOString() })),
+    },
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+export const exportToMarkdown = (title: string, messages: Message[]): string => {
+  const body = messages.map(m => {
+    const lines = [`### ${roleLabel(m)} · ${formatDateTime(m.timestamp)}`, ''];
+    for (const a of m.attachments || []) lines.push(`_[${t('export.attachment', { name: a.name, size: formatBytes(a.size) })}]_`, '');
+    if (m.imageUrl) lines.push(`_[${t('export.generatedImage')}]_`, '');
+    lines.push(m.text);
+    return lines.join('\n');
+  });
+  return [`# ${title}`, '', ...body.flatMap(section => [section, '', '---', ''])].join('\n').trimEnd() + '\n';
+};
+
+export const exportToHtml = (title: string, messages: Message[]): string => {
+  const body = messages.map(m => `
+  <article class="msg ${m.role}">
+    <header>${escapeHtml(roleLabel(m))} · ${escapeHtml(formatDateTime(m.timestamp))}</header>
+    ${(m.attachments || []).map(a => a.kind === 'image' && a.dataUrl
+      ? `<img src="${escapeHtml(a.dataUrl)}" alt="${escapeHtml(a.name)}">`
+      : `<div class="file">📎 ${escapeHtml(a.name)} · ${formatBytes(a.size)}</div>`).join('\n    ')}
+    ${m.imageUrl ? `<img src="${escapeHtml(m.imageUrl)}" alt="${escapeHtml(t('message.generatedArt'))}">` : ''}
+    <div class="text">${escapeHtml(m.text)}</div>
+  </article>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { margin: 0 auto; max-width: 860px; padding: 32px 16px; background: #010409; color: #f8fafc; font-family: Inter, system-ui, sans-serif; }
+  h1 { font-size: 22px; letter-spacing: -0.02em; }
+  .msg { margin: 20px 0; padding: 18px 22px; border-radius: 20px; border: 1px solid rgba(255,255,255,0.1); }
+  .msg.user { background: rgba(255,255,255,0.04); margin-left: 10%; }
+  .msg.model { background: rgba(20,184,166,0.08); border-color: rgba(20,184,166,0.2); margin-right: 10%; }
+  .msg header { font-size: 10px; font-weight: 800; letter-spacing: 0.2em; text-transform: uppercase; opacity: 0.4; margin-bottom: 10px; }
+  .msg img { display: block; max-width: 100%; border-radius: 12px; margin-bottom: 12px; }
+  .msg .file { display: inline-block; font-size: 12px; padding: 6px 12px; border-radius: 10px; background: rgba(255,255,255,0.06); margin: 0 6px 12px 0; }
+  .text { white-space: pre-wrap; line-height: 1.6; font-size: 15px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</body>
+</html>
+`;
+};
+
+const fail = (reason: MessageKey, params?: Record<string, string | number>): never => {
+  throw new Error(t('import.rejected', { reason: t(reason, params) }));
+};
+
+const parseDate = (value: unknown, field: string): Date => {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) fail('import.notDate', { field });
+  return date!;
+};
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') fail('import.notString', { field });
+  return value as string;
+};
+
+const optionalImage = (value: unknown, field: string): string | undefined => {
+  const url = optionalString(value, field);
+  if (url !== undefined && !/^data:image\/[\w.+-]+;base64,/.test(url)) fail('import.notImageUrl', { field });
+  return url;
+};
+
+const KINDS = Object.keys(ATTACHMENT_LIMITS);
+
+const parseAttachments = (value: unknown, field: string): Attachment[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) fail('import.notArray', { field });
+  return (value as any[]).map((raw, i) => {
+    const at = `${field}[${i}]`;
+    if (!KINDS.includes(raw?.kind)) fail('import.invalid', { field: `${at}.kind` });
+    if (typeof raw.name !== 'string') fail('import.notString', { field: `${at}.name` });
+    const dataUrl = optionalString(raw.dataUrl, `${at}.dataUrl`);
+    const text = optionalString(raw.text, `${at}.text`);
+    if (raw.kind === 'text' ? text === undefined : !dataUrl?.startsWith('data:')) fail('import.noData', { field: at });
+    return {
+      id: typeof raw.id === 'string' && raw.id ? raw.id : `${field}-${i}`,
+      kind: raw.kind,
+      name: raw.name,
+      mimeType: typeof raw.mimeType === 'string' ? raw.mimeType : 'application/octet-stream',
+      size: typeof raw.size === 'number' ? raw.size : (text ?? dataUrl!).length,
+      dataUrl,
+      text,
+      sourceMessageId: optionalString(raw.sourceMessageId, `${at}.sourceMessageId`),
+    };
+  });
+};
+
+const parseArt = (value: any, field: string): ArtDetails | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value.prompt !== 'string') fail('import.notString', { field: `${field}.prompt` });
+  return {
+    prompt: value.prompt,
+    style: optionalString(value.style, `${field}.style`),
+    aspectRatio: optionalString(value.aspectRatio, `${field}.aspectRatio`),
+  };
+};
+
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number') fail('import.notNumber', { field });
+  return value as number;
+};
+
+const parseUsage = (value: any, field: string): TokenUsage | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const count = (key: string) => optionalNumber(value[key], `${field}.${key}`) ?? fail('import.missing', { field: `${field}.${key}` });
+  return { input: count('input'), output: count('output'), thoughts: optionalNumber(value.thoughts, `${field}.thoughts`), total: count('total') };
+};
+
+const parseMetadata = (value: any, field: string): ReplyMetadata | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!PROVIDER_IDS.includes(value.provider)) fail('import.invalid', { field: `${field}.provider` });
+  if (typeof value.model !== 'string') fail('import.notString', { field: `${field}.model` });
+  if (value.safetyRatings !== undefined && !Array.isArray(value.safetyRatings)) fail('import.notArray', { field: `${field}.safetyRatings` });
+  return {
+    provider: value.provider,
+    model: value.model,
+    modelVersion: optionalString(value.modelVersion, `${field}.modelVersion`),
+    usage: parseUsage(value.usage, `${field}.usage`),
+    finishReason: optionalString(value.finishReason, `${field}.finishReason`),
+    safetyRatings: value.safetyRatings?.map((rating: any) => ({
+      category: String(rating?.category),
+      probability: String(rating?.probability),
+      blocked: rating?.blocked === true || undefined,
+    })),
+    firstChunkMs: optionalNumber(value.firstChunkMs, `${field}.firstChunkMs`),
+    latencyMs: optionalNumber(value.latencyMs, `${field}.latencyMs`) ?? 0,
+  };
+};
+
+const parseCitations = (value: any, field: string): Citation[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) fail('import.notArray', { field });
+  return value.map((raw: any, i: number) => {
+    const at = `${field}[${i}]`;
+    const count = (key: string) => optionalNumber(raw?.[key], `${at}.${key}`) ?? fail('import.missing', { field: `${at}.${key}` });
+    const text = (key: string) => optionalString(raw?.[key], `${at}.${key}`) ?? fail('import.missing', { field: `${at}.${key}` });
+    return {
+      index: count('index'),
+      documentId: text('documentId'),
+      documentName: text('documentName'),
+      heading: optionalString(raw.heading, `${at}.heading`),
+      startLine: count('startLine'),
+      endLine: count('endLine'),
+      text: text('text'),
+    };
+  });
+};
+
+/** Validates an exported JSON document and rebuilds it as a new conversation. */
+export const parseConversationImport = (json: string): Conversation => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return fail('import.notJson');
+  }
+
+  if (data?.format !== EXPORT_FORMAT) fail('import.unknownFormat');
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) fail('import.unsupportedVersion', { version: String(data.version) });
+
+  const source = data.conversation;
+  if (!source || !Array.isArray(source.messages) || !source.messages.length) fail('import.noMessages');
+
+  const ids = new Set<string>();
+  const messages: Message[] = source.messages.map((raw: any, i: number) => {
+    const at = `messages[${i}]`;
+    if (typeof raw?.id !== 'string' || !raw.id) fail('import.missing', { field: `${at}.id` });
+    if (ids.has(raw.id)) fail('import.duplicate', { field: `${at}.id` });
+    ids.add(raw.id);
+    if (raw.role !== Role.USER && raw.role !== Role.MODEL) fail('import.invalid', { field: `${at}.role` });
+    if (typeof raw.text !== 'string') fail('import.notString', { field: `${at}.text` });
+    if (raw.tokenCount !== undefined && typeof raw.tokenCount !== 'number') fail('import.notNumber', { field: `${at}.tokenCount` });
+    // Version 1 files carry at most one image in inputImageUrl
+    const legacyImage = data.version < 2 ? optionalImage(raw.inputImageUrl, `${at}.inputImageUrl`) : undefined;
+
+    return {
+      id: raw.id,
+      // Version 1 files always carry parentId; fall back to linear order for hand-written files
+      parentId: raw.parentId === undefined ? (i > 0 ? source.messages[i - 1].id : null) : optionalString(raw.parentId, `${at}.parentId`) ?? null,
+      role: raw.role,
+      text: raw.text,
+      persona: optionalString(raw.persona, `${at}.persona`),
+      imageUrl: optionalImage(raw.imageUrl, `${at}.imageUrl`),
+      art: parseArt(raw.art, `${at}.art`),
+      reasoning: optionalString(raw.reasoning, `${at}.reasoning`),
+      citations: parseCitations(raw.citations, `${at}.citations`),
+      attachments: legacyImage ? [imageAttachment(legacyImage)] : parseAttachments(raw.attachments, `${at}.attachments`),
+      timestamp: parseDate(raw.timestamp, `${at}.timestamp`),
+      tokenCount: raw.tokenCount,
+      metadata: parseMetadata(raw.metadata, `${at}.metadata`),
+    };
+  });
+
+  const parents = new Map(messages.map(m => [m.id, m.parentId]));
+  // Messages whose chain of parents is known to end at a root
+  const rooted = new Set<string>();
+  for (const message of messages) {
+    if (message.parentId !== null && !ids.has(message.parentId)) fail('import.parentMissing', { id: message.parentId });
+    // A chain that loops back on itself would make walking the branch never stop
+    const visited = new Set<string>();
+    for (let id: string | null = message.id; id !== null && !rooted.has(id); id = parents.get(id) ?? null) {
+      if (visited.has(id)) fail('import.parentCycle', { id: message.id });
+      visited.add(id);
+    }
+    visited.forEach(id => rooted.add(id));
+  }
+
+  const selectedModel: ModelId = typeof source.selectedModel === 'string' && hasPersona(source.selectedModel) ? source.selectedModel : DEFAULT_PERSONA_ID;
+  const now = new Date();
+  const summary: ConversationSummary | undefined =
+    source.summary && typeof source.summary.text === 'string' && ids.has(source.summary.throughMessageId)
+      ? { text: source.summary.text, throughMessageId: source.summary.throughMessageId, tokenCount: Number(source.summary.tokenCount) || 0 }
+      : undefined;
+
+  return {
+    id: now.getTime().toString(),
+    title: typeof source.title === 'string' && source.title.trim() ? source.title : t('import.defaultTitle'),
+    pinned: false,
+    selectedModel,
+    messages,
+    activeLeafId: ids.has(source.activeLeafId) ? source.activeLeafId : messages[messages.length - 1].id,
+    summary,
+    createdAt: source.createdAt ? parseDate(source.createdAt, 'createdAt') : now,
+    updatedAt: now,
+  };
+};
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mime: string }> = {
+  markdown: { extension: 'md', mime: 'text/markdown' },
+  json: { extension: 'json', mime: 'application/json' },
+  html: { extension: 'html', mime: 'text/html' },
+};
+
+/** File name for an export of the conversation titled `title`, safe on every OS. */
+export const exportFileName = (title: string, format: ExportFormat) =>
+  `${title.replace(/[\\/:*?"<>|]+/g, '_').slice(0, 64) || 'nikiviti'}.${FILE_TYPES[format].extension}`;
+
+export const downloadExport = (title: string, format: ExportFormat, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${FILE_TYPES[format].mime};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(title, format);
+  link.click();
+  URL.revokeObjectURL(url);
+};
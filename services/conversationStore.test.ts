@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+/** Writes raw records the way an older build of the app left them. */
+const seed = (records: object[]) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('nikiviti-solaris', 1);
+    request.onupgradeneeded = () => request.result.createObjectStore('conversations', { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction('conversations', 'readwrite');
+      records.forEach(record => tx.objectStore('conversations').put(record));
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+
+const loadStore = async () => {
+  vi.resetModules();
+  return import('./conversationStore');
+};
+
+const record = (schemaVersion: number | undefined, messages: object[], extra: object = {}) => ({
+  id: `c${schemaVersion}`,
+  title: 'Old chat',
+  pinned: false,
+  selectedModel: 'pro',
+  messages,
+  createdAt: new Date('2024-05-01T10:00:00Z'),
+  updatedAt: new Date('2024-05-01T10:05:00Z'),
+  ...(schemaVersion === undefined ? {} : { schemaVersion }),
+  ...extra,
+});
+
+const linearMessages = [
+  { id: 'm1', role: 'user', text: 'Draw this', inputImageUrl: IMAGE, timestamp: new Date('2024-05-01T10:00:00Z') },
+  { id: 'm2', role: 'model', text: 'Done', timestamp: new Date('2024-05-01T10:01:00Z') },
+  { id: 'm3', role: 'user', text: 'Thanks', timestamp: new Date('2024-05-01T10:02:00Z') },
+];
+
+describe('conversationStore migrations', () => {
+  it.each([undefined, 1])('links a linear history of version %s into a tree and moves its image to attachments', async (version) => {
+    await seed([record(version, linearMessages)]);
+    const [conversation] = await (await loadStore()).listConversations();
+
+    expect(conversation.messages.map(m => [m.id, m.parentId])).toEqual([['m1', null], ['m2', 'm1'], ['m3', 'm2']]);
+    expect(conversation.activeLeafId).toBe('m3');
+    expect(conversation.messages[0].attachments).toEqual([expect.objectContaining({ kind: 'image', mimeType: 'image/png', dataUrl: IMAGE })]);
+    expect(conversation.messages[0]).not.toHaveProperty('inputImageUrl');
+    expect(conversation).not.toHaveProperty('schemaVersion');
+  });
+
+  it('keeps the branches of a version 2 tree and moves its images to attachments', async () => {
+    const tree = [
+      { id: 'm1', parentId: null, role: 'user', text: 'Hi', inputImageUrl: IMAGE, timestamp: new Date() },
+      { id: 'm2', parentId: 'm1', role: 'model', text: 'First answer', timestamp: new Date() },
+      { id: 'm3', parentId: 'm1', role: 'model', text: 'Second answer', timestamp: new Date() },
+    ];
+    await seed([record(2, tree, { activeLeafId: 'm2' })]);
+    const [conversation] = await (await loadStore()).listConversations();
+
+    expect(conversation.messages.map(m => [m.id, m.parentId])).toEqual([['m1', null], ['m2', 'm1'], ['m3', 'm1']]);
+    expect(conversation.activeLeafId).toBe('m2');
+    expect(conversation.messages[0].attachments).toHaveLength(1);
+    expect(conversation.messages[0]).not.toHaveProperty('inputImageUrl');
+  });
+
+  it('leaves current records as they are and never stores streaming flags', async () => {
+    const store = await loadStore();
+    const conversation = {
+      ...record(undefined, [{ id: 'm1', parentId: null, role: 'user', text: 'Hi', timestamp: new Date(), isStreaming: true }]),
+      activeLeafId: 'm1',
+    } as any;
+    await store.saveConversation(conversation);
+
+    const [loaded] = await (await loadStore()).listConversations();
+    const { isStreaming, ...message } = conversation.messages[0];
+    expect(loaded).toEqual({ ...conversation, messages: [message] });
+  });
+
+  it('deletes a conversation', async () => {
+    await seed([record(1, linearMessages)]);
+    const store = await loadStore();
+    await store.deleteConversation('c1');
+    expect(await store.listConversations()).toEqual([]);
+  });
+});
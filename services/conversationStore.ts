@@ -0,0 +1,72 @@
+import { Conversation, Message } from "../types";
+import { imageAttachment } from "../utils/attachments";
+import { createIdbStore } from "./idb";
+
+const DB_NAME = 'nikiviti-solaris';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+/**
+ * Version of the persisted conversation record. Bump it together with a new entry in
+ * `MIGRATIONS` whenever `Conversation` or `Message` gains a field that old records lack.
+ */
+export const SCHEMA_VERSION = 3;
+
+interface StoredConversation extends Conversation {
+  schemaVersion: number;
+}
+
+// Each migration upgrades a record from version `n` to `n + 1`.
+const MIGRATIONS: Record<number, (record: any) => any> = {
+  // v1 stored a linear history; link it into a single-branch tree
+  1: (record) => ({
+    ...record,
+    messages: record.messages.map((msg: any, i: number) => ({ ...msg, parentId: i > 0 ? record.messages[i - 1].id : null })),
+    activeLeafId: record.messages[record.messages.length - 1]?.id,
+  }),
+  // v2 allowed a single image per message in `inputImageUrl`
+  2: (record) => ({
+    ...record,
+    messages: record.messages.map(({ inputImageUrl, ...msg }: any) =>
+      inputImageUrl ? { ...msg, attachments: [imageAttachment(inputImageUrl)] } : msg),
+  }),
+};
+
+const migrate = (record: any): Conversation => {
+  let current = record;
+  let version: number = record.schemaVersion ?? 0;
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (step) current = step(current);
+    version++;
+  }
+  const { schemaVersion, ...conversation } = current;
+  return conversation as Conversation;
+};
+
+// Streaming flags are transient UI state and never reach the disk.
+const toStored = (conversation: Conversation): StoredConversation => ({
+  ...conversation,
+  messages: conversation.messages.map(({ isStreaming, ...msg }): Message => msg),
+  schemaVersion: SCHEMA_VERSION,
+});
+
+const run = createIdbStore(DB_NAME, DB_VERSION, STORE, db => {
+  if (!db.objectStoreNames.contains(STORE)) {
+    const store = db.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('updatedAt', 'updatedAt');
+  }
+});
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const records = await run<any[]>('readonly', store => store.getAll());
+  return records.map(migrate);
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await run('readwrite', store => store.put(toStored(conversation)));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
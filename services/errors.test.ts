@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { backoff, ChatError, ChatErrorKind, classifyError, HttpError, parseRetryAfter, withRetry } from './errors';
+
+const withStatus = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('classifyError', () => {
+  it.each<[string, unknown, ChatErrorKind]>([
+    ['a 401', new HttpError(401, 'Unauthorized'), 'auth'],
+    ['a 403', withStatus(403, 'Forbidden'), 'auth'],
+    ['a 400 for a bad Gemini key', withStatus(400, 'API key not valid. Please pass a valid API key. [API_KEY_INVALID]'), 'auth'],
+    ['a bad key without a status', new Error('Invalid API key provided'), 'auth'],
+    ['a 400 that only mentions a key', withStatus(400, 'Unknown field "api_key" in request'), 'unknown'],
+    ['a 500 that mentions a permission denial', withStatus(500, 'PERMISSION_DENIED while reading the cache'), 'network'],
+    ['a 429', new HttpError(429, 'Too many requests'), 'rate-limit'],
+    ['a per-minute quota', withStatus(429, 'Quota exceeded for requests per minute'), 'rate-limit'],
+    ['a daily quota', withStatus(429, 'Quota exceeded for requests per day'), 'quota'],
+    ['a billing limit', new Error('RESOURCE_EXHAUSTED: check your billing details'), 'quota'],
+    ['a TimeoutError', Object.assign(new Error('signal timed out'), { name: 'TimeoutError' }), 'timeout'],
+    ['a 504', withStatus(504, 'Gateway Timeout'), 'timeout'],
+    ['a deadline', new Error('Deadline exceeded'), 'timeout'],
+    ['a failed fetch', new TypeError('Failed to fetch'), 'network'],
+    ['a 503', withStatus(503, 'Service Unavailable'), 'network'],
+    ['anything else', new Error('Something odd'), 'unknown'],
+    ['a thrown string', 'boom', 'unknown'],
+  ])('classifies %s', (_, raw, kind) => {
+    expect(classifyError(raw).kind).toBe(kind);
+  });
+
+  it('passes a ChatError through and keeps the cause of others', () => {
+    const error = new ChatError('safety', { category: 'HARM_CATEGORY_HARASSMENT' });
+    expect(classifyError(error)).toBe(error);
+    const raw = new HttpError(429, 'Slow down', 3000);
+    expect(classifyError(raw)).toMatchObject({ cause: raw, retryAfterMs: 3000 });
+  });
+
+  it('treats the offline browser as a network failure', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(classifyError(new Error('Something odd')).kind).toBe('network');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    vi.useFakeTimers({ now: Date.parse('2025-01-01T00:00:00Z') });
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30_000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT')).toBe(0);
+  });
+});
+
+describe('backoff', () => {
+  /** How long `backoff` waits, on the fake clock. */
+  const delayOf = async (attempt: number, error: ChatError, options = {}) => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const waiting = backoff(attempt, error, options);
+    await vi.runAllTimersAsync();
+    await waiting;
+    return Date.now();
+  };
+
+  it('waits up to the doubled base delay, capped at maxDelayMs', async () => {
+    const error = new ChatError('network');
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(await delayOf(0, error, { baseDelayMs: 100 })).toBe(50);
+    expect(await delayOf(3, error, { baseDelayMs: 100 })).toBe(400);
+    expect(await delayOf(10, error, { baseDelayMs: 100, maxDelayMs: 1000 })).toBe(500);
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(await delayOf(3, error, { baseDelayMs: 100 })).toBe(0);
+  });
+
+  it('waits at least as long as Retry-After asks, up to maxRetryAfterMs', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(await delayOf(0, new ChatError('rate-limit', { retryAfterMs: 5000 }))).toBe(5000);
+    expect(await delayOf(0, new ChatError('rate-limit', { retryAfterMs: 3_600_000 }), { maxRetryAfterMs: 10_000 })).toBe(10_000);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('stopped'));
+    await expect(backoff(0, new ChatError('network'), { signal: controller.signal })).rejects.toThrow('stopped');
+  });
+
+  it('rejects when the signal is aborted while waiting', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const waiting = backoff(0, new ChatError('network'), { signal: controller.signal, baseDelayMs: 1000 });
+    controller.abort(new Error('stopped'));
+    await expect(waiting).rejects.toThrow('stopped');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures and gives up on the rest', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const flaky = vi.fn().mockRejectedValueOnce(new TypeError('Failed to fetch')).mockResolvedValue('ok');
+    await expect(withRetry(flaky)).resolves.toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const refused = vi.fn().mockRejectedValue(new HttpError(401, 'Unauthorized'));
+    await expect(withRetry(refused)).rejects.toMatchObject({ kind: 'auth' });
+    expect(refused).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after the given number of retries', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const down = vi.fn().mockRejectedValue(new HttpError(503, 'Service Unavailable'));
+    await expect(withRetry(down, { retries: 2 })).rejects.toMatchObject({ kind: 'network' });
+    expect(down).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,138 @@
+import { t } from "./i18n";
+
+export type ChatErrorKind = 'auth' | 'rate-limit' | 'quota' | 'safety' | 'network' | 'timeout' | 'empty' | 'unknown';
+
+// Kinds worth retrying automatically; the rest need the user to change something first
+const TRANSIENT: ChatErrorKind[] = ['rate-limit', 'network', 'timeout', 'empty'];
+
+/** Failure of a chat request, classified so the UI can say what went wrong and whether to retry. */
+export class ChatError extends Error {
+  readonly kind: ChatErrorKind;
+  /** Safety category that blocked the reply, for `safety` errors. */
+  readonly category?: string;
+  /** Server-suggested wait before retrying, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ChatErrorKind, options: { category?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+    // Actionable, user-facing text in the interface language
+    const message = options.category ? `${t(`error.${kind}`)} (${options.category})` : t(`error.${kind}`);
+    super(message, { cause: options.cause });
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.category = options.category;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get transient() {
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+/** Non-2xx response from an HTTP provider, thrown with enough detail for `classifyError`. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** Parses a `Retry-After` header given either in seconds or as an HTTP date. */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini rejects a bad key with a plain 400 and this in the message
+const INVALID_KEY = /API_KEY_INVALID|api[ _]?key not valid|invalid api[ _]?key/i;
+
+/**
+ * Whether the request was refused for its credentials. The status decides when there is one: a
+ * 400 or 500 whose message merely mentions a key or permission is not an auth failure.
+ */
+const isAuthFailure = (status: number | undefined, message: string) => {
+  if (status === 401 || status === 403) return true;
+  if (status === 400) return INVALID_KEY.test(message);
+  return status === undefined && (INVALID_KEY.test(message) || /unauthori[sz]ed|permission[ _]denied/i.test(message));
+};
+
+/** Maps a raw provider or transport error onto a `ChatError`. */
+export const classifyError = (error: unknown): ChatError => {
+  if (error instanceof ChatError) return error;
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status as number : undefined;
+  const name = (error as any)?.name as string | undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const options = { cause: error, retryAfterMs: error instanceof HttpError ? error.retryAfterMs : undefined };
+
+  if (name === 'TimeoutError' || status === 408 || status === 504 || /deadline|timed? ?out/i.test(message)) {
+    return new ChatError('timeout', options);
+  }
+  if (isAuthFailure(status, message)) {
+    return new ChatError('auth', options);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+    // Gemini reports both as 429; daily or billing limits only clear later, so they are not retried
+    return /quota|billing|per day|limit: 0/i.test(message) && !/per minute/i.test(message)
+      ? new ChatError('quota', options)
+      : new ChatError('rate-limit', options);
+  }
+  if (
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    (error instanceof TypeError && /fetch|network|load failed/i.test(message)) ||
+    (status !== undefined && status >= 500)
+  ) {
+    return new ChatError('network', options);
+  }
+  return new ChatError('unknown', options);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // An abort that already happened fires no event
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  /** Retries after the first attempt. */
+  retries?: number;
+  /** Delay before the first retry; doubles on every further retry. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest `Retry-After` honoured; a server asking for more is waited on this long. */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Waits before retry number `attempt` (0-based) using exponential backoff with full jitter,
+ * or the server's `Retry-After` when it asked for longer, up to `maxRetryAfterMs`.
+ */
+export const backoff = (attempt: number, error: ChatError, options: RetryOptions = {}) => {
+  const { baseDelayMs = 1000, maxDelayMs = 16000, maxRetryAfterMs = 60000 } = options;
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const delay = Math.max(Math.random() * ceiling, Math.min(error.retryAfterMs ?? 0, maxRetryAfterMs));
+  return sleep(delay, options.signal);
+};
+
+/** Runs `operation`, retrying transient failures with backoff. Rejects with a classified `ChatError`. */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (raw) {
+      const error = classifyError(raw);
+      if (signal?.aborted || !error.transient || attempt >= retries) throw error;
+      console.error(`Solaris Retry ${attempt + 1}/${retries}:`, raw);
+      await backoff(attempt, error, options);
+    }
+  }
+};
@@ -0,0 +1,191 @@
+import { ChatReply, ChatRequest, ChatStreamChunk, EmbedRequest } from "./chatProvider";
+import { hash } from "../utils/hash";
+
+export type FixtureKind = 'generate' | 'stream' | 'embed';
+
+/** A request split the way the Gemini API takes it: the model, the conversation and everything else. */
+export interface FixtureRequest {
+  model: string;
+  contents: ChatRequest['turns'] | string[];
+  config: Record<string, unknown>;
+}
+
+/** One recorded provider call: the request, and the reply or the error it produced. */
+export interface Fixture {
+  version: 1;
+  kind: FixtureKind;
+  /** Hash of the kind and the whole request; replay serves the fixture whose key matches exactly. */
+  key: string;
+  /** Hash of the kind, model and last prompt text, for requests that differ only in volatile parts such as tool results. */
+  promptKey: string;
+  request: FixtureRequest;
+  reply?: ChatReply;
+  /** Every chunk of a streamed reply, in order. */
+  chunks?: ChatStreamChunk[];
+  vectors?: number[][];
+  error?: RecordedError;
+  recordedAt: string;
+}
+
+/** Enough of a thrown error to throw an equivalent one on replay and have it classified the same way. */
+export interface RecordedError {
+  name: string;
+  message: string;
+  status?: number;
+}
+
+/** Where fixtures are read from and written to. */
+export interface FixtureStore {
+  list(): Promise<Fixture[]>;
+  save(fixture: Fixture): Promise<void>;
+}
+
+/**
+ * A failure injected on replay. HTTP statuses and `network`/`timeout` are thrown like the real
+ * transport errors; `blocked` and `empty` come back as replies the service then rejects.
+ */
+export type InjectedFailure = { kind: number | 'network' | 'timeout' | 'blocked' | 'empty'; midStream: boolean };
+
+export interface FixtureConfig {
+  mode: 'record' | 'replay';
+  /** Delay before a replayed reply starts. */
+  latencyMs: number;
+  /** Delay between replayed stream chunks. */
+  chunkDelayMs: number;
+  /** Failures by 1-based number of the generate or stream call, retries included. */
+  failures: Map<number, InjectedFailure>;
+}
+
+// The Vite dev server answers here when CHAT_FIXTURES is set, see vite.config.ts
+const FIXTURE_ENDPOINT = '/__fixtures';
+
+export const toFixtureRequest = (request: ChatRequest | EmbedRequest): FixtureRequest => {
+  if ('texts' in request) {
+    const { model, texts, ...config } = request;
+    return { model, contents: texts, config };
+  }
+  const { model, turns, ...config } = request;
+  return { model, contents: turns, config };
+};
+
+export const fixtureKeys = (kind: FixtureKind, request: FixtureRequest) => {
+  const prompt = typeof request.contents[0] === 'string'
+    ? (request.contents as string[]).join('\n')
+    : [...(request.contents as ChatRequest['turns'])].reverse().find(turn => turn.role === 'user' && turn.text)?.text ?? '';
+  return {
+    key: hash(JSON.stringify([kind, request])),
+    promptKey: hash(JSON.stringify([kind, request.model, prompt])),
+  };
+};
+
+export const recordError = (error: unknown): RecordedError => ({
+  name: (error as any)?.name ?? 'Error',
+  message: error instanceof Error ? error.message : String(error),
+  status: typeof (error as any)?.status === 'number' ? (error as any).status : undefined,
+});
+
+/** Parses `CHAT_REPLAY_FAILURES`, e.g. `2:429,4:network,6:503:mid`. */
+export const parseFailures = (spec = ''): Map<number, InjectedFailure> => {
+  const failures = new Map<number, InjectedFailure>();
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [call, kind, when] = entry.split(':');
+    const status = Number(kind);
+    if (!(Number(call) > 0) || (isNaN(status) && !['network', 'timeout', 'blocked', 'empty'].includes(kind))) {
+      console.error("Solaris Fixture Error:", `Ignoring failure "${entry}"`);
+      continue;
+    }
+    failures.set(Number(call), { kind: isNaN(status) ? kind as InjectedFailure['kind'] : status, midStream: when === 'mid' });
+  }
+  return failures;
+};
+
+/** Record/replay settings from the environment; null when `CHAT_FIXTURES` is unset and providers are used as they are. */
+export const readFixtureConfig = (): FixtureConfig | null => {
+  const mode = process.env.CHAT_FIXTURES;
+  if (mode !== 'record' && mode !== 'replay') return null;
+  return {
+    mode,
+    latencyMs: Number(process.env.CHAT_REPLAY_LATENCY_MS) || 0,
+    chunkDelayMs: Number(process.env.CHAT_REPLAY_CHUNK_MS) || 0,
+    failures: parseFailures(process.env.CHAT_REPLAY_FAILURES),
+  };
+};
+
+/** Fixtures held in memory, e.g. handed to a test suite without touching the disk. */
+export const createMemoryFixtureStore = (initial: Fixture[] = []): FixtureStore => {
+  const fixtures = [...initial];
+  return {
+    list: async () => fixtures,
+    save: async (fixture) => {
+      const index = fixtures.findIndex(f => f.key === fixture.key);
+      if (index >= 0) fixtures[index] = fixture;
+      else fixtures.push(fixture);
+    },
+  };
+};
+
+/** Fixtures in the dev server's fixture directory, for the browser. */
+const httpFixtureStore: FixtureStore = {
+  async list() {
+    const response = await fetch(FIXTURE_ENDPOINT);
+    if (!response.ok) throw new Error(`Fixture server responded ${response.status}`);
+    return response.json();
+  },
+  async save(fixture) {
+    const response = await fetch(FIXTURE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture),
+    });
+    if (!response.ok) throw new Error(`Fixture server responded ${response.status}`);
+  },
+};
+
+// Node entry points without a browser swap in the file store from server/fixtureFiles.ts
+let store: FixtureStore = typeof window !== 'undefined' ? httpFixtureStore : createMemoryFixtureStore();
+let config = readFixtureConfig();
+
+// Replay progress, shared by every backend: calls numbered for injected failures, how many
+// near-matches each prompt key has been served, and the fixtures read from the store
+let calls = 0;
+const served = new Map<string, number>();
+let listed: Promise<Fixture[]> | null = null;
+
+export const getFixtureStore = () => store;
+
+/** Replaces where fixtures are kept, and starts replay over from the new store's fixtures. */
+export const setFixtureStore = (next: FixtureStore) => {
+  store = next;
+  resetFixtureState();
+};
+
+export const getFixtureConfig = () => config;
+
+/**
+ * Replaces the record/replay settings read from the environment, e.g. for one test, and starts
+ * replay over; null sends requests straight to the providers.
+ */
+export const setFixtureConfig = (next: FixtureConfig | null) => {
+  config = next;
+  resetFixtureState();
+};
+
+/** Numbers calls from 1 again, rewinds near-match replay and rereads the store on the next request. */
+export const resetFixtureState = () => {
+  calls = 0;
+  served.clear();
+  listed = null;
+};
+
+/** Number of the generate or stream call being replayed, as `CHAT_REPLAY_FAILURES` counts them. */
+export const nextReplayCall = () => ++calls;
+
+/** How many near-matches for `promptKey` were served before this one. */
+export const nextServed = (promptKey: string) => {
+  const count = served.get(promptKey) ?? 0;
+  served.set(promptKey, count + 1);
+  return count;
+};
+
+/** Every fixture in the store, read once until the state is reset. */
+export const listFixtures = () => (listed ??= store.list());
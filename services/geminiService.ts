@@ -1,77 +1,213 @@
+import { ArtDetails, Attachment, Citation, ConversationSummary, Message, Role, ModelId, Persona, ThinkingPreset, TokenUsage, ToolStep } from "../types";
+import { ART_STYLES, THINKING_BUDGETS } from "../constants";
+import { ChatProvider, ChatReply, ChatRequest, ChatStreamChunk, ChatTurn, parseDataUrl, resolveBackend } from "./chatProvider";
+import { selectContextWindow } from "./contextWindow";
+import { ChatError, backoff, classifyError } from "./errors";
+import { getToolDeclarations, runTool } from "./tools";
+import { retrieveKnowledge } from "./knowledgeBase";
+import { readDataUrl } from "./blobStore";
+import { withTextAttachments } from "../utils/attachments";
+import { addUsage } from "../utils/usage";
+import { t } from "./i18n";
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Message, Role, ModelId } from "../types";
+// Upper bound on model → tool → model round trips for one reply, so a looping model cannot run forever
+const MAX_TOOL_ROUNDS = 5;
 
-const SYSTEM_INSTRUCTIONS: Record<ModelId, string> = {
-  standard: "Вы — NikiViti. Основной нейронный узел Solaris Spectrum. Ваша цель — быстрое, вежливое и точное общение. Вы всегда помните контекст беседы и адаптируетесь под стиль пользователя. Вы лаконичны, но глубоки в своих знаниях.",
-  pro: "Вы — NikiViti 2.0. Элитный модуль программирования и системного анализа. Вы — старший инженер с глубочайшим пониманием архитектуры ПО, алгоритмов и современного стека (React, TS, Python, Go, Rust). Ваш код всегда чист (Clean Code), документирован и готов к продакшну. Вы используете сложные рассуждения, чтобы решать нестандартные задачи. Вы обладаете идеальной памятью на контекст текущей сессии.",
-  eco: "Вы — NikiViti Art. Творческий синтезатор Solaris. Ваша задача — переводить абстрактные идеи в детализированные визуальные описания (промпты). Вы используете поэтичный, художественный и технически точный язык для описания света, текстур и композиции. Вы вдохновляете пользователя на создание визуальных шедевров."
+const MAX_RETRIES = 3;
+
+// How long to wait for the first chunk before treating the request as timed out
+const FIRST_CHUNK_TIMEOUT_MS = 60_000;
+
+export interface SendOptions {
+  signal?: AbortSignal;
+  /** Running summary of the turns that no longer fit the persona's context budget. */
+  summary?: ConversationSummary;
+  /** Style and aspect ratio for image-output personas. */
+  art?: Omit<ArtDetails, 'prompt'>;
+  /** Replaces the persona's thinking budget; image-output personas do not think. */
+  thinking?: ThinkingPreset;
+}
+
+const formatCitation = (citation: Citation) => {
+  const source = [citation.documentName, citation.heading].filter(Boolean).join(' › ');
+  return `[${citation.index}] ${source} (${t('model.citationLines', { start: citation.startLine, end: citation.endLine })})\n${citation.text}`;
+};
+
+const buildRequest = (history: Message[], newMessage: string, modelId: ModelId, persona: Persona, model: string, attachments: Attachment[], citations: Citation[], options: SendOptions): ChatRequest => {
+  const window = selectContextWindow(history, modelId, options.summary);
+  // Earlier images and PDFs are not resent; text files stay in context with their message
+  const turns: ChatTurn[] = window.inMemory.map(msg => ({
+    role: msg.role === Role.USER ? "user" : "model",
+    text: withTextAttachments(msg.text, msg.attachments)
+  }));
+
+  const style = persona.imageOutput ? ART_STYLES.find(s => s.id === options.art?.style) : undefined;
+  const styleSuffix = style ? `\nStyle: ${style.prompt}` : '';
+
+  // Append current turn
+  turns.push({
+    role: "user",
+    text: withTextAttachments(`${persona.promptPrefix ?? ''}${newMessage}${styleSuffix}`, attachments),
+    files: attachments.filter(a => a.dataUrl).map(a => parseDataUrl(a.dataUrl!))
+  });
+
+  const instructions = [persona.systemInstruction, t('model.replyLanguage')];
+  if (window.summary) instructions.push(t('model.summary', { summary: window.summary.text }));
+  if (citations.length) instructions.push([t('model.knowledge'), ...citations.map(formatCitation)].join('\n\n'));
+  const systemInstruction = instructions.filter(Boolean).join('\n\n');
+
+  return {
+    model,
+    turns,
+    systemInstruction,
+    temperature: persona.temperature,
+    topP: persona.topP,
+    maxOutputTokens: persona.maxOutputTokens,
+    thinkingBudget: options.thinking && !persona.imageOutput ? THINKING_BUDGETS[options.thinking] : persona.thinkingBudget,
+    tools: persona.toolsEnabled ? getToolDeclarations() : undefined,
+    aspectRatio: persona.imageOutput ? options.art?.aspectRatio : undefined
+  };
 };
 
+/** Stream chunk of a whole reply, including the tool steps run while producing it. */
+export interface ReplyChunk extends ChatStreamChunk {
+  toolSteps?: ToolStep[];
+  /** Knowledge-base passages sent with the prompt. */
+  citations?: Citation[];
+}
+
 export const sendMessageToGemini = async (
   history: Message[],
   newMessage: string,
   modelId: ModelId,
-  imageInput?: string
-): Promise<{ text: string; imageUrl?: string }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const modelName = modelId === 'eco' 
-    ? 'gemini-2.5-flash-image' 
-    : modelId === 'pro' 
-      ? 'gemini-3-pro-preview' 
-      : 'gemini-3-flash-preview';
-
-  const parts: any[] = [{ text: modelId === 'eco' ? `Art Concept: ${newMessage}` : newMessage }];
-  
-  if (imageInput) {
-    const [mimeInfo, data] = imageInput.split(',');
-    const mimeType = mimeInfo.match(/:(.*?);/)?.[1] || 'image/png';
-    parts.unshift({
-      inlineData: {
-        mimeType: mimeType,
-        data: data
+  attachments: Attachment[] = [],
+  options: SendOptions = {}
+): Promise<ChatReply & { toolSteps?: ToolStep[]; citations?: Citation[] }> => {
+  let last: ReplyChunk | undefined;
+  for await (const chunk of streamMessageToGemini(history, newMessage, modelId, attachments, options)) last = chunk;
+  if (!last) throw new ChatError('empty');
+
+  const { delta, ...reply } = last;
+  return reply;
+};
+
+/**
+ * Streams one provider round, retrying transient failures with backoff as long as nothing
+ * has been shown yet. Safety blocks and empty replies are raised as `ChatError`s.
+ */
+async function* streamWithRetry(provider: ChatProvider, request: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = new AbortController();
+    const timer = setTimeout(() => timeout.abort(), FIRST_CHUNK_TIMEOUT_MS);
+    let shown = false;
+
+    try {
+      let last: ChatStreamChunk | undefined;
+      for await (const chunk of provider.stream(request, signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal)) {
+        clearTimeout(timer);
+        if (signal?.aborted) return;
+        shown = shown || !!chunk.text || !!chunk.imageUrl;
+        last = chunk;
+        yield chunk;
       }
-    });
+
+      if (last?.blockReason) throw new ChatError('safety', { category: last.blockReason });
+      if (!last || (!last.text && !last.imageUrl && !last.toolCalls?.length)) throw new ChatError('empty');
+      return;
+    } catch (raw) {
+      if (signal?.aborted) return;
+      const error = timeout.signal.aborted ? new ChatError('timeout', { cause: raw }) : classifyError(raw);
+      if (shown || !error.transient || attempt >= MAX_RETRIES) throw error;
+      console.error(`Solaris Retry ${attempt + 1}/${MAX_RETRIES}:`, raw);
+      await backoff(attempt, error, { signal });
+    } finally {
+      clearTimeout(timer);
+    }
   }
+}
 
-  // Optimized Context Window: Memory retention of the last 15 messages for better coherence.
-  const contents = modelId === 'eco' ? [] : history.slice(-15).map(msg => ({
-    role: msg.role === Role.USER ? "user" : "model",
-    parts: [{ text: msg.text }]
-  }));
+/**
+ * Streaming counterpart of `sendMessageToGemini`. Yields the reply as it is generated.
+ * Aborting `options.signal` ends the iteration quietly, so callers keep whatever was already yielded.
+ *
+ * When the persona has tools enabled, tool calls requested by the model are run locally and their
+ * results sent back, for up to `MAX_TOOL_ROUNDS` rounds. Text from every round is joined into one reply.
+ *
+ * Passages from the knowledge base that match the prompt go into the system instruction, numbered
+ * so the model can cite them; every chunk carries them as `citations`.
+ *
+ * Failures are thrown as a classified `ChatError`; transient ones are retried first.
+ */
+export async function* streamMessageToGemini(
+  history: Message[],
+  newMessage: string,
+  modelId: ModelId,
+  attachments: Attachment[] = [],
+  options: SendOptions = {}
+): AsyncGenerator<ReplyChunk> {
+  const { provider, model, persona } = resolveBackend(modelId);
+  const { signal } = options;
+  // Image personas draw from the prompt alone; a failed lookup only costs the extra context
+  const citations = persona.imageOutput ? [] : await retrieveKnowledge(newMessage, signal).catch(err => {
+    console.error("Solaris Knowledge Error:", err);
+    return [];
+  });
+  // Stored images and PDFs are read back from the blob store
+  const files = await Promise.all(attachments.map(async a => (a.dataUrl ? { ...a, dataUrl: await readDataUrl(a.dataUrl) } : a)));
+  if (signal?.aborted) return;
+  const request = buildRequest(history, newMessage, modelId, persona, model, files, citations, options);
+  const cited = citations.length ? citations : undefined;
 
-  // Append current turn
-  contents.push({ role: "user", parts: (parts.length > 1 || imageInput) ? parts : [{ text: newMessage }] });
+  let previousText = '';
+  let previousReasoning = '';
+  const toolSteps: ToolStep[] = [];
+  // Usage of the finished rounds; each chunk reports its own round only
+  let spent: TokenUsage | undefined;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: modelName,
-      contents,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTIONS[modelId],
-        temperature: modelId === 'pro' ? 0.2 : 0.8, // Low temperature for 2.0 ensures precision in code.
-        thinkingConfig: modelId === 'pro' ? { thinkingBudget: 4000 } : undefined // Enable reasoning for 2.0
+    for (let round = 0; ; round++) {
+      let reply: ChatReply = { text: '' };
+
+      for await (const chunk of streamWithRetry(provider, request, signal)) {
+        if (signal?.aborted) return;
+        reply = chunk;
+        yield {
+          ...chunk,
+          text: previousText + chunk.text,
+          reasoning: previousReasoning + (chunk.reasoning ?? '') || undefined,
+          usage: addUsage(spent, chunk.usage),
+          toolSteps: toolSteps.length ? [...toolSteps] : undefined,
+          citations: cited
+        };
       }
-    });
+      spent = addUsage(spent, reply.usage);
 
-    let text = "";
-    let imageUrl = undefined;
+      const calls = reply.toolCalls;
+      if (!calls?.length || round >= MAX_TOOL_ROUNDS) break;
 
-    const resParts = response.candidates?.[0]?.content?.parts || [];
-    
-    for (const part of resParts) {
-      if (part.text) text += part.text;
-      if (part.inlineData && part.inlineData.mimeType.startsWith('image/')) {
-        imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
-    }
+      previousText += reply.text ? `${reply.text}\n\n` : '';
+      previousReasoning += reply.reasoning ? `${reply.reasoning}\n\n` : '';
+      request.turns.push({ role: 'model', text: reply.text, toolCalls: calls });
 
-    if (!text && !imageUrl) throw new Error("Neural link failed. No data received.");
-    
-    return { text, imageUrl };
+      const pending = calls.map<ToolStep>(call => ({ id: call.id, name: call.name, args: call.args, status: 'running' }));
+      toolSteps.push(...pending);
+      yield { text: previousText, delta: '', reasoning: previousReasoning || undefined, imageUrl: reply.imageUrl, usage: spent, modelVersion: reply.modelVersion, toolSteps: [...toolSteps], citations: cited };
+
+      const context = { history, attachments };
+      const finished = await Promise.all(calls.map(call => runTool(call, context)));
+      if (signal?.aborted) return;
+      toolSteps.splice(toolSteps.length - finished.length, finished.length, ...finished);
+      yield { text: previousText, delta: '', reasoning: previousReasoning || undefined, imageUrl: reply.imageUrl, usage: spent, modelVersion: reply.modelVersion, toolSteps: [...toolSteps], citations: cited };
+
+      request.turns.push({
+        role: 'user',
+        text: '',
+        toolResults: finished.map(step => ({ callId: step.id, name: step.name, response: step.result }))
+      });
+    }
   } catch (error) {
+    if (signal?.aborted) return;
     console.error("Solaris Link Error:", error);
-    throw new Error("Критический сбой связи Solaris. Пожалуйста, перезапустите нейронный узел.");
+    throw classifyError(error);
   }
-};
+}
@@ -0,0 +1,86 @@
+import { ru } from "../locales/ru";
+import { en } from "../locales/en";
+
+export type Locale = 'ru' | 'en';
+
+/** Plural variants of one message, picked by `Intl.PluralRules` from the `count` parameter. */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/** Every catalog has the keys of the Russian one, which is the source of truth. */
+export type Catalog = { [K in keyof typeof ru]: string | PluralForms };
+export type MessageKey = keyof typeof ru;
+
+export const LOCALES: { id: Locale; label: string; tag: string }[] = [
+  { id: 'ru', label: 'RU', tag: 'ru-RU' },
+  { id: 'en', label: 'EN', tag: 'en-US' },
+];
+
+const CATALOGS: Record<Locale, Catalog> = { ru, en };
+
+const STORAGE_KEY = 'nikiviti.locale';
+
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+
+// A saved choice wins; otherwise English browsers get English and everyone else the original Russian UI
+const detect = (): Locale => {
+  const stored = storage?.getItem(STORAGE_KEY);
+  if (stored && stored in CATALOGS) return stored as Locale;
+  const preferred = typeof navigator !== 'undefined' ? navigator.language : '';
+  return preferred?.toLowerCase().startsWith('en') ? 'en' : 'ru';
+};
+
+let locale: Locale = detect();
+const listeners = new Set<() => void>();
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+export const getLocale = (): Locale => locale;
+
+export const setLocale = (next: Locale) => {
+  if (next === locale) return;
+  locale = next;
+  storage?.setItem(STORAGE_KEY, next);
+  listeners.forEach(listener => listener());
+};
+
+/** Subscribes to locale changes; compatible with React's `useSyncExternalStore`. */
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** BCP 47 tag of the current locale, for `Intl` formatting and speech. */
+export const getLocaleTag = () => LOCALES.find(l => l.id === locale)!.tag;
+
+const selectPlural = (forms: PluralForms, count: number) => {
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(getLocaleTag()));
+  return forms[pluralRules.get(locale)!.select(count)] ?? forms.other;
+};
+
+/**
+ * Message `key` in the current locale with `{name}` placeholders filled from `params`; numbers
+ * are formatted for the locale. Plural messages choose their form by `params.count`.
+ */
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const entry = CATALOGS[locale][key] ?? ru[key];
+  const template = typeof entry === 'string' ? entry : selectPlural(entry, Number(params.count ?? 0));
+  return template.replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    return value === undefined ? match : typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
+/** Whether `text` is message `key` in any locale, for recognizing defaults stored under another language. */
+export const isTranslationOf = (key: MessageKey, text: string) =>
+  Object.values(CATALOGS).some(catalog => catalog[key] === text);
+
+export const formatTime = (date: Date) => date.toLocaleTimeString(getLocaleTag(), { hour: '2-digit', minute: '2-digit' });
+
+export const formatDateTime = (date: Date) => date.toLocaleString(getLocaleTag());
+
+export const formatNumber = (value: number) => value.toLocaleString(getLocaleTag());
+
+/** Amount in US dollars; small amounts keep enough digits to tell them apart. */
+export const formatUsd = (value: number) =>
+  value.toLocaleString(getLocaleTag(), { style: 'currency', currency: 'USD', maximumFractionDigits: value < 1 ? 4 : 2 });
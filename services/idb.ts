@@ -0,0 +1,39 @@
+/**
+ * Runs one request against an object store and resolves with its result once the transaction
+ * has committed.
+ */
+export type IdbRun = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+
+/**
+ * Returns the `run` helper for the object store `store` in the database `name`. The database is
+ * opened on first use; `upgrade` creates the store when the database is new or older than `version`.
+ */
+export const createIdbStore = (name: string, version: number, store: string, upgrade: (db: IDBDatabase) => void): IdbRun => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  return async (mode, action) => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const request = action(tx.objectStore(store));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+};
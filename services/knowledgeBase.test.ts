@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+
+/** A fresh knowledge base on the empty database the test setup provides. */
+const loadModule = async () => {
+  vi.resetModules();
+  return import('./knowledgeBase');
+};
+
+describe('retrieveKnowledge', () => {
+  it('finds a one-word query in a knowledge base of one passage', async () => {
+    const kb = await loadModule();
+    await kb.addKnowledgeDocument('proxy.md', 'The proxy holds the key and makes the Gemini calls.');
+
+    const citations = await kb.retrieveKnowledge('proxy');
+    expect(citations.map(c => c.documentName)).toEqual(['proxy.md']);
+    expect(citations[0].index).toBe(1);
+  });
+
+  it('sends nothing for a prompt made only of stopwords', async () => {
+    const kb = await loadModule();
+    await kb.addKnowledgeDocument('proxy.md', 'The proxy is started by npm run server.');
+    await kb.addKnowledgeDocument('voice.md', 'Speech is read out by the browser.');
+
+    expect(await kb.retrieveKnowledge('by the way, what is it?')).toEqual([]);
+  });
+
+  it('sends nothing for a prompt the passages barely touch', async () => {
+    const kb = await loadModule();
+    await kb.addKnowledgeDocument('proxy.md', 'The proxy holds the key and makes the Gemini calls.');
+    await kb.addKnowledgeDocument('voice.md', 'Hold the microphone button to dictate into the input.');
+
+    expect(await kb.retrieveKnowledge('bake a chocolate cake with the key lime recipe')).toEqual([]);
+  });
+
+  it('sends nothing while retrieval is off', async () => {
+    const kb = await loadModule();
+    await kb.addKnowledgeDocument('proxy.md', 'The proxy holds the key.');
+    kb.setKnowledgeSettings({ enabled: false });
+
+    expect(await kb.retrieveKnowledge('proxy')).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+import { Citation, KnowledgeChunk, KnowledgeDocument, ProviderId } from "../types";
+import { EMBEDDING_MODEL } from "../constants";
+import { getProvider } from "./chatProvider";
+import { deleteKnowledgeDocument, listKnowledgeDocuments, saveKnowledgeDocument } from "./knowledgeStore";
+import { Bm25Index, ScoredId, createBm25Index } from "../utils/bm25";
+import { chunkText } from "../utils/chunking";
+
+export interface KnowledgeSettings {
+  /** Whether passages are retrieved and sent with prompts at all. */
+  enabled: boolean;
+  /** Passages sent with each prompt. */
+  topK: number;
+  /** Rank by embeddings as well as BM25; needs a provider that can embed. */
+  embeddings: boolean;
+}
+
+export interface KnowledgeState {
+  documents: KnowledgeDocument[];
+  settings: KnowledgeSettings;
+  /** Documents are being embedded in the background. */
+  isEmbedding: boolean;
+}
+
+const SETTINGS_KEY = 'nikiviti.knowledge';
+const DEFAULT_SETTINGS: KnowledgeSettings = { enabled: true, topK: 4, embeddings: false };
+
+// Gemini accepts at most 100 texts per embedding request
+const EMBED_BATCH = 100;
+// Candidates each ranking contributes before they are fused
+const CANDIDATES = 50;
+// Reciprocal rank fusion constant; larger values flatten the advantage of the top ranks
+const RRF_K = 60;
+// Least share of the prompt (weighted by how distinctive each word is) a passage must match to be
+// sent at all. A BM25 score cannot be held to a fixed bar, as it depends on the number of passages
+const MIN_COVERAGE = 0.5;
+// Cosine similarity below which an embedding match is taken as unrelated
+const MIN_SIMILARITY = 0.6;
+
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+// The CLI runs without IndexedDB; documents added there live for the session
+const persistent = typeof indexedDB !== 'undefined';
+
+const loadSettings = (): KnowledgeSettings => {
+  try {
+    const stored = storage?.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Solaris Knowledge Error:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let state: KnowledgeState = { documents: [], settings: loadSettings(), isEmbedding: false };
+const listeners = new Set<() => void>();
+let loading: Promise<void> | null = null;
+// Rebuilt on the first retrieval after the documents change
+let bm25: Bm25Index | null = null;
+
+const setState = (patch: Partial<KnowledgeState>) => {
+  state = { ...state, ...patch };
+  if (patch.documents) bm25 = null;
+  listeners.forEach(listener => listener());
+};
+
+// CHAT_PROVIDER=mock embeds offline, like it answers offline
+const embedder = () => getProvider((process.env.CHAT_PROVIDER as ProviderId | undefined) || 'gemini');
+
+const embed = async (texts: string[], task: 'document' | 'query', signal?: AbortSignal): Promise<number[][]> => {
+  const provider = embedder();
+  if (!provider.embed) throw new Error(`Provider ${provider.id} cannot embed`);
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH) {
+    vectors.push(...await provider.embed({ model: EMBEDDING_MODEL, texts: texts.slice(i, i + EMBED_BATCH), task }, signal));
+  }
+  return vectors;
+};
+
+const withEmbeddings = async (document: KnowledgeDocument): Promise<KnowledgeDocument> => {
+  const vectors = await embed(document.chunks.map(chunk => chunk.text), 'document');
+  return {
+    ...document,
+    chunks: document.chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] })),
+    embeddingModel: EMBEDDING_MODEL,
+  };
+};
+
+const persist = (document: KnowledgeDocument) => {
+  if (persistent) saveKnowledgeDocument(document).catch(err => console.error("Solaris Knowledge Error:", err));
+};
+
+/** Embeds every document that has no vectors from the current model yet. */
+const embedMissing = async () => {
+  const missing = state.documents.filter(d => d.embeddingModel !== EMBEDDING_MODEL);
+  if (!missing.length || state.isEmbedding) return;
+  setState({ isEmbedding: true });
+  try {
+    for (const document of missing) {
+      const embedded = await withEmbeddings(document);
+      // The document may have been removed while its vectors were on the way; saving it would bring it back
+      if (!state.documents.some(d => d.id === embedded.id)) continue;
+      persist(embedded);
+      setState({ documents: state.documents.map(d => (d.id === embedded.id ? embedded : d)) });
+    }
+  } catch (err) {
+    console.error("Solaris Knowledge Error:", err);
+  } finally {
+    setState({ isEmbedding: false });
+  }
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/** Reciprocal rank fusion: a passage ranked well by either method rises, one ranked well by both rises most. */
+const fuse = (rankings: ScoredId[][]): string[] => {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach(({ id }, rank) => scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+  return [...scores].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+};
+
+export const getKnowledge = (): KnowledgeState => state;
+
+/** Subscribes to knowledge-base changes; compatible with React's `useSyncExternalStore`. */
+export const subscribeKnowledge = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Reads the stored documents once; later calls wait for the same load. */
+export const loadKnowledge = (): Promise<void> => {
+  loading ??= (persistent ? listKnowledgeDocuments() : Promise.resolve([]))
+    .then(stored => {
+      setState({ documents: [...stored, ...state.documents].sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime()) });
+      if (state.settings.embeddings) embedMissing();
+    })
+    .catch(err => console.error("Solaris Knowledge Error:", err));
+  return loading;
+};
+
+/**
+ * Chunks a text file and adds it to the knowledge base. With embeddings on, the passages are
+ * embedded first; if that fails the document is still added and ranked by BM25 alone.
+ */
+export const addKnowledgeDocument = async (name: string, text: string): Promise<KnowledgeDocument> => {
+  await loadKnowledge();
+  const id = `kb-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const chunks: KnowledgeChunk[] = chunkText(text, { markdown: /\.(md|markdown)$/i.test(name) })
+    .map((chunk, i) => ({ ...chunk, id: `${id}-${i}` }));
+  let document: KnowledgeDocument = { id, name, size: new Blob([text]).size, addedAt: new Date(), chunks };
+
+  if (state.settings.embeddings) {
+    setState({ isEmbedding: true });
+    try {
+      document = await withEmbeddings(document);
+    } catch (err) {
+      console.error("Solaris Knowledge Error:", err);
+    } finally {
+      setState({ isEmbedding: false });
+    }
+  }
+
+  persist(document);
+  setState({ documents: [document, ...state.documents] });
+  return document;
+};
+
+export const removeKnowledgeDocument = (id: string) => {
+  if (persistent) deleteKnowledgeDocument(id).catch(err => console.error("Solaris Knowledge Error:", err));
+  setState({ documents: state.documents.filter(d => d.id !== id) });
+};
+
+export const setKnowledgeSettings = (patch: Partial<KnowledgeSettings>) => {
+  const settings = { ...state.settings, ...patch };
+  storage?.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  setState({ settings });
+  if (patch.embeddings) embedMissing();
+};
+
+/**
+ * The passages most relevant to `query`, numbered for citation. Ranked by BM25, fused with
+ * embedding similarity when that is on; an embedding failure falls back to BM25 alone. Passages
+ * below the relevance thresholds are left out, so an unrelated prompt gets no citations.
+ */
+export const retrieveKnowledge = async (query: string, signal?: AbortSignal): Promise<Citation[]> => {
+  await loadKnowledge();
+  const { documents, settings } = state;
+  if (!settings.enabled || !documents.length || !query.trim()) return [];
+
+  const chunks = new Map(documents.flatMap(document => document.chunks.map(chunk => [chunk.id, { chunk, document }] as const)));
+  bm25 ??= createBm25Index([...chunks.values()].map(({ chunk, document }) => ({
+    id: chunk.id,
+    text: [document.name, chunk.heading ?? '', chunk.text].join('\n'),
+  })));
+  const rankings: ScoredId[][] = [bm25.search(query, CANDIDATES).filter(({ coverage }) => coverage >= MIN_COVERAGE)];
+
+  if (settings.embeddings) {
+    try {
+      const [vector] = await embed([query], 'query', signal);
+      const similar = [...chunks.values()]
+        .filter(({ chunk, document }) => chunk.embedding && document.embeddingModel === EMBEDDING_MODEL)
+        .map(({ chunk }) => ({ id: chunk.id, score: cosine(vector, chunk.embedding!) }))
+        .filter(({ score }) => score >= MIN_SIMILARITY)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATES);
+      rankings.push(similar);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.error("Solaris Knowledge Error:", err);
+    }
+  }
+
+  return fuse(rankings).slice(0, settings.topK).map((id, i) => {
+    const { chunk, document } = chunks.get(id)!;
+    return {
+      index: i + 1,
+      documentId: document.id,
+      documentName: document.name,
+      heading: chunk.heading,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      text: chunk.text,
+    };
+  });
+};
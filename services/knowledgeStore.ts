@@ -0,0 +1,21 @@
+import { KnowledgeDocument } from "../types";
+import { createIdbStore } from "./idb";
+
+// A database of its own, so the knowledge base can change shape without migrating conversations
+const DB_NAME = 'nikiviti-knowledge';
+const DB_VERSION = 1;
+const STORE = 'documents';
+
+const run = createIdbStore(DB_NAME, DB_VERSION, STORE, db => {
+  if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+export const listKnowledgeDocuments = (): Promise<KnowledgeDocument[]> => run<KnowledgeDocument[]>('readonly', store => store.getAll());
+
+export const saveKnowledgeDocument = async (document: KnowledgeDocument): Promise<void> => {
+  await run('readwrite', store => store.put(document));
+};
+
+export const deleteKnowledgeDocument = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,135 @@
+import { AccentColor, ModelId, Persona, PROVIDER_IDS } from "../types";
+import { ACCENTS, DEFAULT_PERSONAS, DEFAULT_PERSONA_ID } from "../constants";
+import { MessageKey, t } from "./i18n";
+
+const STORAGE_KEY = 'nikiviti.personas';
+
+export const PERSONA_EXPORT_FORMAT = 'nikiviti-personas';
+export const PERSONA_EXPORT_VERSION = 1;
+
+// Personas live in localStorage rather than IndexedDB: they are small, and the send path
+// needs them synchronously.
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+
+const load = (): Persona[] => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PERSONAS;
+    const parsed = JSON.parse(stored) as Persona[];
+    // Built-ins deleted from storage by older builds come back with their defaults
+    const missing = DEFAULT_PERSONAS.filter(d => !parsed.some(p => p.id === d.id));
+    return [...missing, ...parsed];
+  } catch (error) {
+    console.error("Solaris Persona Error:", error);
+    return DEFAULT_PERSONAS;
+  }
+};
+
+let personas: Persona[] = load();
+const listeners = new Set<() => void>();
+
+const commit = (next: Persona[]) => {
+  personas = next;
+  storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+};
+
+export const listPersonas = (): Persona[] => personas;
+
+/** Looks a persona up by id, falling back to the default persona for ids that no longer exist. */
+export const getPersona = (id: ModelId): Persona =>
+  personas.find(p => p.id === id) ?? personas.find(p => p.id === DEFAULT_PERSONA_ID) ?? personas[0];
+
+export const hasPersona = (id: ModelId): boolean => personas.some(p => p.id === id);
+
+/** Subscribes to persona changes; compatible with React's `useSyncExternalStore`. */
+export const subscribePersonas = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const savePersona = (persona: Persona) => {
+  const exists = personas.some(p => p.id === persona.id);
+  commit(exists ? personas.map(p => (p.id === persona.id ? persona : p)) : [...personas, persona]);
+};
+
+export const deletePersona = (id: ModelId) => {
+  if (personas.find(p => p.id === id)?.builtIn) return;
+  commit(personas.filter(p => p.id !== id));
+};
+
+export const resetPersona = (id: ModelId) => {
+  const original = DEFAULT_PERSONAS.find(p => p.id === id);
+  if (original) savePersona(original);
+};
+
+export const createPersonaId = () => `persona-${Date.now().toString(36)}`;
+
+export const clonePersona = (persona: Persona): Persona => ({
+  ...persona,
+  id: createPersonaId(),
+  name: t('persona.copyName', { name: persona.name }),
+  builtIn: false,
+});
+
+export const exportPersonas = (selection: Persona[] = personas): string =>
+  JSON.stringify({ format: PERSONA_EXPORT_FORMAT, version: PERSONA_EXPORT_VERSION, personas: selection }, null, 2);
+
+const fail = (reason: MessageKey, params?: Record<string, string | number>): never => {
+  throw new Error(t('import.personasRejected', { reason: t(reason, params) }));
+};
+
+const optionalNumber = (value: unknown, field: string, min: number, max: number): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || isNaN(value) || value < min || value > max) fail('import.outOfRange', { field, min, max });
+  return value as number;
+};
+
+const validatePersona = (raw: any, at: string): Persona => {
+  if (typeof raw?.id !== 'string' || !raw.id) fail('import.missing', { field: `${at}.id` });
+  if (typeof raw.name !== 'string' || !raw.name.trim()) fail('import.missing', { field: `${at}.name` });
+  if (typeof raw.systemInstruction !== 'string') fail('import.notString', { field: `${at}.systemInstruction` });
+  if (!PROVIDER_IDS.includes(raw.provider)) fail('import.invalid', { field: `${at}.provider` });
+  if (typeof raw.model !== 'string' || !raw.model) fail('import.missing', { field: `${at}.model` });
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    systemInstruction: raw.systemInstruction,
+    provider: raw.provider,
+    model: raw.model,
+    temperature: optionalNumber(raw.temperature, `${at}.temperature`, 0, 2) ?? 0.8,
+    topP: optionalNumber(raw.topP, `${at}.topP`, 0, 1),
+    maxOutputTokens: optionalNumber(raw.maxOutputTokens, `${at}.maxOutputTokens`, 1, 1_000_000),
+    thinkingBudget: optionalNumber(raw.thinkingBudget, `${at}.thinkingBudget`, -1, 100_000),
+    accentColor: raw.accentColor in ACCENTS ? raw.accentColor as AccentColor : 'emerald',
+    badge: typeof raw.badge === 'string' && raw.badge.trim() ? raw.badge.slice(0, 3) : undefined,
+    contextBudget: optionalNumber(raw.contextBudget, `${at}.contextBudget`, 0, 2_000_000) ?? 16000,
+    promptPrefix: typeof raw.promptPrefix === 'string' ? raw.promptPrefix : undefined,
+    imageOutput: raw.imageOutput === true ? true : undefined,
+    toolsEnabled: raw.toolsEnabled === true ? true : undefined,
+    builtIn: DEFAULT_PERSONAS.some(d => d.id === raw.id) || undefined,
+  };
+};
+
+/** Validates an exported persona file and merges it in; personas with known ids are replaced. */
+export const importPersonas = (json: string): Persona[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return fail('import.notJson');
+  }
+  if (data?.format !== PERSONA_EXPORT_FORMAT) fail('import.unknownFormat');
+  if (typeof data.version !== 'number' || data.version > PERSONA_EXPORT_VERSION) fail('import.unsupportedVersion', { version: String(data.version) });
+  if (!Array.isArray(data.personas) || !data.personas.length) fail('import.noPersonas');
+
+  const imported = data.personas.map((raw: any, i: number) => validatePersona(raw, `personas[${i}]`));
+  const byId = new Map(personas.map(p => [p.id, p]));
+  for (const persona of imported) byId.set(persona.id, persona);
+  commit([...byId.values()]);
+  return imported;
+};
@@ -0,0 +1,44 @@
+import { ModelPrice } from "../types";
+import { DEFAULT_PRICES } from "../constants";
+
+const STORAGE_KEY = 'nikiviti.prices';
+
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+
+// Only the user's overrides are stored, so corrected defaults in later builds still apply
+const load = (): Record<string, ModelPrice> => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Solaris Pricing Error:", error);
+    return {};
+  }
+};
+
+let overrides: Record<string, ModelPrice> = load();
+let prices: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...overrides };
+const listeners = new Set<() => void>();
+
+const commit = (next: Record<string, ModelPrice>) => {
+  overrides = next;
+  prices = { ...DEFAULT_PRICES, ...next };
+  storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+};
+
+/** Price table in effect: defaults with the user's overrides on top. */
+export const getPrices = (): Record<string, ModelPrice> => prices;
+
+export const setPrice = (model: string, price: ModelPrice) => commit({ ...overrides, [model]: price });
+
+/** Drops every override, going back to `DEFAULT_PRICES`. */
+export const resetPrices = () => commit({});
+
+/** Subscribes to price changes; compatible with React's `useSyncExternalStore`. */
+export const subscribePrices = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,171 @@
+import { ChatProvider, ChatReply, ChatRequest, ChatStreamChunk, EmbedRequest } from "../chatProvider";
+import { HttpError } from "../errors";
+import {
+  Fixture,
+  FixtureConfig,
+  FixtureKind,
+  InjectedFailure,
+  RecordedError,
+  fixtureKeys,
+  getFixtureStore,
+  listFixtures,
+  nextReplayCall,
+  nextServed,
+  recordError,
+  toFixtureRequest,
+} from "../fixtures";
+
+// Resolves early on abort; callers check the signal afterwards
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    if (!ms || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/** Rebuilds a recorded or injected error so `classifyError` treats it like the original. */
+const toError = (recorded: RecordedError): Error => {
+  if (recorded.status !== undefined) return new HttpError(recorded.status, recorded.message);
+  const error = recorded.name === 'TypeError' ? new TypeError(recorded.message) : new Error(recorded.message);
+  error.name = recorded.name;
+  return error;
+};
+
+const injectedError = (failure: InjectedFailure): Error | null => {
+  if (typeof failure.kind === 'number') return toError({ name: 'HttpError', message: `Injected HTTP ${failure.kind}`, status: failure.kind });
+  if (failure.kind === 'network') return toError({ name: 'TypeError', message: 'Failed to fetch (injected)' });
+  if (failure.kind === 'timeout') return toError({ name: 'TimeoutError', message: 'Injected timeout' });
+  return null;
+};
+
+// Replies the service rejects on its own, as a blocked or empty response would be
+const injectedReply = (failure: InjectedFailure, request: ChatRequest): ChatReply =>
+  failure.kind === 'blocked'
+    ? { text: '', blockReason: 'HARM_CATEGORY_DANGEROUS_CONTENT', finishReason: 'SAFETY', modelVersion: request.model }
+    : { text: '', finishReason: 'STOP', modelVersion: request.model };
+
+/**
+ * Wraps `provider` for `CHAT_FIXTURES`. In record mode every call goes through and is saved with its
+ * reply or error; in replay mode `provider` is never called and answers come from the saved fixtures.
+ */
+export const withFixtures = (provider: ChatProvider, config: FixtureConfig): ChatProvider => {
+  const save = (kind: FixtureKind, request: ChatRequest | EmbedRequest, result: Pick<Fixture, 'reply' | 'chunks' | 'vectors' | 'error'>) => {
+    const fixtureRequest = toFixtureRequest(request);
+    const fixture: Fixture = { version: 1, kind, ...fixtureKeys(kind, fixtureRequest), request: fixtureRequest, ...result, recordedAt: new Date().toISOString() };
+    getFixtureStore().save(fixture).catch(err => console.error("Solaris Fixture Error:", err));
+  };
+
+  /** The recording for `request`: an exact match first, then one for the same prompt. */
+  const find = async (kinds: FixtureKind[], request: ChatRequest | EmbedRequest): Promise<Fixture> => {
+    const all = await listFixtures();
+    const fixtureRequest = toFixtureRequest(request);
+    for (const kind of kinds) {
+      const { key } = fixtureKeys(kind, fixtureRequest);
+      const exact = all.find(f => f.key === key);
+      if (exact) return exact;
+    }
+    for (const kind of kinds) {
+      const { promptKey } = fixtureKeys(kind, fixtureRequest);
+      const similar = all.filter(f => f.promptKey === promptKey);
+      if (!similar.length) continue;
+      // Repeated near-matches walk through the recordings in order
+      return similar[nextServed(promptKey) % similar.length];
+    }
+    throw new HttpError(404, `No fixture for ${kinds[0]} request ${fixtureKeys(kinds[0], fixtureRequest).key}`);
+  };
+
+  const replayChunks = (fixture: Fixture): ChatStreamChunk[] =>
+    fixture.chunks ?? (fixture.reply ? [{ ...fixture.reply, delta: fixture.reply.text }] : []);
+
+  if (config.mode === 'record') {
+    return {
+      id: provider.id,
+
+      async generate(request, signal) {
+        try {
+          const reply = await provider.generate(request, signal);
+          save('generate', request, { reply });
+          return reply;
+        } catch (err) {
+          if (!signal?.aborted) save('generate', request, { error: recordError(err) });
+          throw err;
+        }
+      },
+
+      async *stream(request, signal) {
+        const chunks: ChatStreamChunk[] = [];
+        try {
+          for await (const chunk of provider.stream(request, signal)) {
+            chunks.push(chunk);
+            yield chunk;
+          }
+          if (!signal?.aborted) save('stream', request, { chunks });
+        } catch (err) {
+          if (!signal?.aborted) save('stream', request, { chunks, error: recordError(err) });
+          throw err;
+        }
+      },
+
+      countTokens: provider.countTokens && (request => provider.countTokens!(request)),
+
+      embed: provider.embed && (async (request, signal) => {
+        const vectors = await provider.embed!(request, signal);
+        save('embed', request, { vectors });
+        return vectors;
+      }),
+    };
+  }
+
+  // Replay has no exact token counts; the context window falls back to its local estimate
+  return {
+    id: provider.id,
+
+    async generate(request, signal) {
+      const failure = config.failures.get(nextReplayCall());
+      await wait(config.latencyMs, signal);
+      if (signal?.aborted) throw signal.reason;
+      if (failure) {
+        const error = injectedError(failure);
+        if (error) throw error;
+        return injectedReply(failure, request);
+      }
+      const fixture = await find(['generate', 'stream'], request);
+      if (fixture.error) throw toError(fixture.error);
+      return fixture.reply ?? replayChunks(fixture).at(-1)!;
+    },
+
+    async *stream(request, signal) {
+      const failure = config.failures.get(nextReplayCall());
+      await wait(config.latencyMs, signal);
+      if (signal?.aborted) return;
+      if (failure && !failure.midStream) {
+        const error = injectedError(failure);
+        if (error) throw error;
+        yield { ...injectedReply(failure, request), delta: '' };
+        return;
+      }
+
+      const fixture = await find(['stream', 'generate'], request);
+      const chunks = replayChunks(fixture);
+      // A mid-stream failure cuts the reply in half, after part of it has been shown
+      const cut = failure ? Math.max(1, Math.floor(chunks.length / 2)) : chunks.length;
+      for (const [i, chunk] of chunks.slice(0, cut).entries()) {
+        if (i > 0) await wait(config.chunkDelayMs, signal);
+        if (signal?.aborted) return;
+        yield chunk;
+      }
+      if (failure) throw injectedError(failure) ?? toError({ name: 'TypeError', message: 'Stream interrupted (injected)' });
+      if (fixture.error) throw toError(fixture.error);
+    },
+
+    async embed(request, signal) {
+      await wait(config.latencyMs, signal);
+      const fixture = await find(['embed'], request);
+      if (fixture.error) throw toError(fixture.error);
+      return fixture.vectors ?? [];
+    },
+  };
+};
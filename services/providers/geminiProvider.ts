@@ -0,0 +1,181 @@
+import { GoogleGenAI, GenerateContentResponse, Content, GenerateContentConfig, Part } from "@google/genai";
+import { ChatProvider, ChatReply, ChatRequest, ToolCall } from "../chatProvider";
+
+// Vectors are stored with every knowledge-base passage; the full 3072 dimensions buy little for retrieval
+const EMBEDDING_DIMENSIONS = 768;
+
+const toParts = (turn: ChatRequest['turns'][number]): Part[] => {
+  const parts: Part[] = (turn.files || []).map(file => ({ inlineData: file }));
+  if (turn.text || (!turn.toolCalls?.length && !turn.toolResults?.length)) parts.push({ text: turn.text });
+  for (const call of turn.toolCalls || []) {
+    parts.push({
+      functionCall: { id: call.id, name: call.name, args: call.args },
+      thoughtSignature: call.providerData as string | undefined
+    });
+  }
+  for (const result of turn.toolResults || []) {
+    // Gemini expects an object; scalars and arrays are wrapped
+    const response = result.response && typeof result.response === 'object' && !Array.isArray(result.response)
+      ? result.response as Record<string, unknown>
+      : { result: result.response };
+    parts.push({ functionResponse: { id: result.callId, name: result.name, response } });
+  }
+  return parts;
+};
+
+const toContents = (request: ChatRequest): Content[] =>
+  request.turns.map(turn => ({
+    role: turn.role,
+    parts: toParts(turn),
+  }));
+
+const toConfig = (request: ChatRequest, signal?: AbortSignal): GenerateContentConfig => ({
+  systemInstruction: request.systemInstruction,
+  temperature: request.temperature,
+  topP: request.topP,
+  maxOutputTokens: request.maxOutputTokens,
+  // Thought summaries come back as parts flagged `thought`; there are none to ask for with thinking off
+  thinkingConfig: request.thinkingBudget !== undefined
+    ? { thinkingBudget: request.thinkingBudget, includeThoughts: request.thinkingBudget !== 0 }
+    : undefined,
+  tools: request.tools?.length
+    ? [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+    : undefined,
+  imageConfig: request.aspectRatio ? { aspectRatio: request.aspectRatio } : undefined,
+  abortSignal: signal
+});
+
+// Finish reasons meaning the candidate was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+const getBlockReason = (response: GenerateContentResponse): string | undefined => {
+  if (response.promptFeedback?.blockReason) return response.promptFeedback.blockReason;
+  const candidate = response.candidates?.[0];
+  if (!candidate?.finishReason || !BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) return undefined;
+  return candidate.safetyRatings?.find(rating => rating.blocked)?.category ?? candidate.finishReason;
+};
+
+const extractMetadata = (response: GenerateContentResponse): Pick<ChatReply, 'usage' | 'finishReason' | 'safetyRatings' | 'modelVersion'> => {
+  const usage = response.usageMetadata;
+  const candidate = response.candidates?.[0];
+  return {
+    usage: usage && {
+      input: usage.promptTokenCount ?? 0,
+      output: usage.candidatesTokenCount ?? 0,
+      thoughts: usage.thoughtsTokenCount,
+      total: usage.totalTokenCount ?? 0,
+    },
+    finishReason: candidate?.finishReason,
+    safetyRatings: candidate?.safetyRatings?.map(rating => ({
+      category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED',
+      probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED',
+      blocked: rating.blocked,
+    })),
+    modelVersion: response.modelVersion,
+  };
+};
+
+const extractReply = (response: GenerateContentResponse): ChatReply => {
+  let text = "";
+  let reasoning = "";
+  let imageUrl = undefined;
+  const toolCalls: ToolCall[] = [];
+
+  const resParts = response.candidates?.[0]?.content?.parts || [];
+  
+  for (const part of resParts) {
+    if (part.text && part.thought) reasoning += part.text;
+    else if (part.text) text += part.text;
+    if (part.inlineData && part.inlineData.mimeType?.startsWith('image/')) {
+      imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    }
+    if (part.functionCall?.name) {
+      toolCalls.push({
+        id: part.functionCall.id || `call-${Date.now()}-${toolCalls.length}`,
+        name: part.functionCall.name,
+        args: part.functionCall.args || {},
+        providerData: part.thoughtSignature
+      });
+    }
+  }
+
+  return {
+    text,
+    reasoning: reasoning || undefined,
+    imageUrl,
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+    blockReason: getBlockReason(response),
+    ...extractMetadata(response),
+  };
+};
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+
+  async generate(request, signal) {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: toContents(request),
+      config: toConfig(request, signal)
+    });
+    return extractReply(response);
+  },
+
+  async *stream(request, signal) {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: toContents(request),
+      config: toConfig(request, signal)
+    });
+
+    let text = "";
+    let reasoning = "";
+    let imageUrl: string | undefined = undefined;
+    let toolCalls: ToolCall[] | undefined = undefined;
+    let blockReason: string | undefined = undefined;
+    // Usage is cumulative and arrives with the last chunks, so the newest report wins
+    let metadata: ReturnType<typeof extractMetadata> = {};
+    for await (const response of stream) {
+      if (signal?.aborted) return;
+      const chunk = extractReply(response);
+      text += chunk.text;
+      reasoning += chunk.reasoning ?? "";
+      imageUrl = chunk.imageUrl || imageUrl;
+      blockReason = chunk.blockReason || blockReason;
+      if (chunk.toolCalls) toolCalls = [...(toolCalls || []), ...chunk.toolCalls];
+      metadata = {
+        usage: chunk.usage || metadata.usage,
+        finishReason: chunk.finishReason || metadata.finishReason,
+        safetyRatings: chunk.safetyRatings || metadata.safetyRatings,
+        modelVersion: chunk.modelVersion || metadata.modelVersion,
+      };
+      yield { delta: chunk.text, text, reasoning: reasoning || undefined, imageUrl, toolCalls, blockReason, ...metadata };
+    }
+  },
+
+  async countTokens(request) {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.countTokens({
+      model: request.model,
+      contents: toContents(request)
+    });
+    return response.totalTokens ?? 0;
+  },
+
+  async embed(request, signal) {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.embedContent({
+      model: request.model,
+      // One content per text; a bare string array would be embedded as a single content
+      contents: request.texts.map(text => ({ parts: [{ text }] })),
+      config: {
+        taskType: request.task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: EMBEDDING_DIMENSIONS,
+        abortSignal: signal
+      }
+    });
+    return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+  },
+};
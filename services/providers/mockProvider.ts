@@ -0,0 +1,67 @@
+import { TokenUsage } from "../../types";
+import { ChatProvider, ChatRequest } from "../chatProvider";
+import { words } from "../../utils/search";
+
+// Deterministic: the same request always produces the same reply, with no network involved.
+const buildReply = (request: ChatRequest): string => {
+  const lastUser = [...request.turns].reverse().find(turn => turn.role === 'user');
+  const files = lastUser?.files?.length ?? 0;
+  return [
+    `[mock:${request.model}] Получено сообщение #${request.turns.length}.`,
+    `Эхо: ${lastUser?.text ?? ''}`,
+    files ? `Файлов во вложении: ${files}.` : '',
+  ].filter(Boolean).join('\n');
+};
+
+// Stands in for a thought summary whenever the request leaves thinking on
+const buildReasoning = (request: ChatRequest): string | undefined =>
+  request.thinkingBudget !== undefined && request.thinkingBudget !== 0
+    ? `**Разбор запроса**\n\nБюджет рассуждений: ${request.thinkingBudget < 0 ? 'динамический' : request.thinkingBudget}. Реплик в запросе: ${request.turns.length}.`
+    : undefined;
+
+// Made-up but stable token counts, so usage and cost can be exercised offline
+const buildUsage = (request: ChatRequest, reply: string, reasoning?: string): TokenUsage => {
+  const input = Math.ceil([request.systemInstruction ?? '', ...request.turns.map(turn => turn.text)].join('').length / 4);
+  const output = Math.ceil(reply.length / 4);
+  const thoughts = reasoning ? Math.ceil(reasoning.length / 4) : undefined;
+  return { input, output, thoughts, total: input + output + (thoughts ?? 0) };
+};
+
+// Hashed bag of words: texts sharing words get similar vectors, which is enough to exercise hybrid retrieval
+const MOCK_DIMENSIONS = 64;
+
+const hashEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(MOCK_DIMENSIONS).fill(0);
+  for (const word of words(text)) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.codePointAt(0)!) >>> 0;
+    vector[hash % MOCK_DIMENSIONS] += 1;
+  }
+  return vector;
+};
+
+export const mockProvider: ChatProvider = {
+  id: 'mock',
+
+  async generate(request) {
+    const text = buildReply(request);
+    const reasoning = buildReasoning(request);
+    return { text, reasoning, usage: buildUsage(request, text, reasoning), finishReason: 'STOP', modelVersion: request.model };
+  },
+
+  async *stream(request, signal) {
+    const reasoning = buildReasoning(request);
+    if (reasoning) yield { delta: '', text: '', reasoning };
+    let text = '';
+    for (const delta of buildReply(request).split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      text += delta;
+      yield { delta, text, reasoning };
+    }
+    yield { delta: '', text, reasoning, usage: buildUsage(request, text, reasoning), finishReason: 'STOP', modelVersion: request.model };
+  },
+
+  async embed(request) {
+    return request.texts.map(hashEmbedding);
+  },
+};
@@ -0,0 +1,181 @@
+import { TokenUsage } from "../../types";
+import { ChatProvider, ChatRequest, ToolCall } from "../chatProvider";
+import { HttpError, parseRetryAfter } from "../errors";
+
+// Ollama serves the OpenAI-compatible API under /v1; llama.cpp's server uses the same paths.
+const BASE_URL = (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, '');
+
+const toMessages = (request: ChatRequest) => {
+  const messages: any[] = [];
+  if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+
+  for (const turn of request.turns) {
+    const role = turn.role === 'model' ? 'assistant' : 'user';
+
+    if (turn.toolResults?.length) {
+      for (const result of turn.toolResults) {
+        messages.push({ role: 'tool', tool_call_id: result.callId, content: JSON.stringify(result.response) });
+      }
+      continue;
+    }
+
+    if (turn.toolCalls?.length) {
+      messages.push({
+        role,
+        content: turn.text || null,
+        tool_calls: turn.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      });
+      continue;
+    }
+
+    // The chat completions API has no document parts, so only images are forwarded
+    const images = (turn.files || []).filter(file => file.mimeType.startsWith('image/'));
+    if (!images.length) {
+      messages.push({ role, content: turn.text });
+      continue;
+    }
+    messages.push({
+      role,
+      content: [
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+        { type: 'text', text: turn.text },
+      ],
+    });
+  }
+  return messages;
+};
+
+const parseArgs = (json: string | undefined): Record<string, unknown> => {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+};
+
+const toUsage = (usage: any): TokenUsage | undefined =>
+  usage && {
+    input: usage.prompt_tokens ?? 0,
+    output: usage.completion_tokens ?? 0,
+    thoughts: usage.completion_tokens_details?.reasoning_tokens,
+    total: usage.total_tokens ?? 0,
+  };
+
+const post = async (request: ChatRequest, stream: boolean, signal?: AbortSignal) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.OPENAI_API_KEY) headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+
+  const response = await fetch(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model: request.model,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      top_p: request.topP,
+      max_tokens: request.maxOutputTokens,
+      tools: request.tools?.length
+        ? request.tools.map(tool => ({ type: 'function', function: tool }))
+        : undefined,
+      stream,
+      // Without this the streamed reply carries no token counts
+      stream_options: stream ? { include_usage: true } : undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new HttpError(
+      response.status,
+      `OpenAI-compatible server responded ${response.status}: ${await response.text()}`,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+};
+
+export const openAiCompatibleProvider: ChatProvider = {
+  id: 'openai',
+
+  async generate(request, signal) {
+    const response = await post(request, false, signal);
+    const json = await response.json();
+    const choice = json.choices?.[0];
+    const message = choice?.message;
+    const toolCalls: ToolCall[] | undefined = message?.tool_calls?.map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      args: parseArgs(call.function.arguments),
+    }));
+    return {
+      text: message?.content ?? '',
+      toolCalls: toolCalls?.length ? toolCalls : undefined,
+      blockReason: choice?.finish_reason === 'content_filter' ? 'content_filter' : undefined,
+      usage: toUsage(json.usage),
+      finishReason: choice?.finish_reason ?? undefined,
+      modelVersion: json.model,
+    };
+  },
+
+  async *stream(request, signal) {
+    const response = await post(request, true, signal);
+    if (!response.body) throw new Error('OpenAI-compatible server returned no body');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let blockReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+    let modelVersion: string | undefined;
+    // Tool calls stream as fragments keyed by index; arguments arrive as partial JSON strings
+    const pendingCalls: { id: string; name: string; arguments: string }[] = [];
+
+    const finishedCalls = (): ToolCall[] | undefined =>
+      pendingCalls.length
+        ? pendingCalls.map(call => ({ id: call.id, name: call.name, args: parseArgs(call.arguments) }))
+        : undefined;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Server-sent events: one `data: {...}` payload per line, terminated by `data: [DONE]`
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const payload = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !payload) continue;
+        if (payload === '[DONE]') {
+          yield { delta: '', text, toolCalls: finishedCalls(), blockReason, usage, finishReason, modelVersion };
+          return;
+        }
+        const json = JSON.parse(payload);
+        // The usage report comes in a final chunk of its own, with no choices
+        usage = toUsage(json.usage) ?? usage;
+        modelVersion = json.model ?? modelVersion;
+        const choice = json.choices?.[0];
+        finishReason = choice?.finish_reason ?? finishReason;
+        if (choice?.finish_reason === 'content_filter') blockReason = 'content_filter';
+        const delta = choice?.delta ?? {};
+        for (const fragment of delta.tool_calls || []) {
+          const call = pendingCalls[fragment.index ?? 0] ??= { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+        const content: string = delta.content ?? '';
+        if (!content) continue;
+        text += content;
+        yield { delta: content, text };
+      }
+    }
+    yield { delta: '', text, toolCalls: finishedCalls(), blockReason, usage, finishReason, modelVersion };
+  },
+};
@@ -0,0 +1,74 @@
+import { ChatProvider, ChatRequest, ChatStreamChunk, EmbedRequest } from "../chatProvider";
+import { HttpError, parseRetryAfter } from "../errors";
+
+// Origin of the proxy server (server/main.ts), which holds the Gemini key on the browser's behalf
+const BASE_URL = (process.env.GEMINI_PROXY_URL || '').replace(/\/$/, '');
+
+const post = async (path: string, request: ChatRequest | EmbedRequest, signal?: AbortSignal) => {
+  const response = await fetch(`${BASE_URL}/api/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new HttpError(
+      response.status,
+      body?.error ?? `Proxy responded ${response.status}`,
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  return response;
+};
+
+/**
+ * Gemini through the proxy: the same requests and replies as `geminiProvider`, with the API call
+ * made server-side. Used in place of it when `GEMINI_PROXY_URL` is configured.
+ */
+export const proxyProvider: ChatProvider = {
+  id: 'gemini',
+
+  async generate(request, signal) {
+    const response = await post('generate', request, signal);
+    return response.json();
+  },
+
+  async *stream(request, signal) {
+    const response = await post('stream', request, signal);
+    if (!response.body) throw new Error('Proxy returned no body');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Newline-delimited JSON: one chunk per line, or an error once the stream has already begun
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const payload = JSON.parse(line) as ChatStreamChunk | { error: { status: number; message: string } };
+        if ('error' in payload) throw new HttpError(payload.error.status, payload.error.message);
+        yield payload;
+      }
+    }
+  },
+
+  async countTokens(request) {
+    const response = await post('count-tokens', request);
+    const { totalTokens } = await response.json();
+    return totalTokens;
+  },
+
+  async embed(request, signal) {
+    const response = await post('embed', request, signal);
+    const { embeddings } = await response.json();
+    return embeddings;
+  },
+};
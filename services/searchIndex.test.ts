@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { Conversation, Message, Role } from '../types';
+import { createSearchIndex } from './searchIndex';
+
+const message = (id: string, text: string, extra: Partial<Message> = {}): Message => ({
+  id,
+  parentId: null,
+  role: Role.USER,
+  text,
+  timestamp: new Date(`2025-03-0${id.slice(-1)}T12:00:00Z`),
+  ...extra,
+});
+
+const conversation = (id: string, messages: Message[], selectedModel = 'standard'): Conversation => ({
+  id,
+  title: id,
+  pinned: false,
+  selectedModel,
+  messages,
+  activeLeafId: messages[messages.length - 1]?.id ?? null,
+  createdAt: new Date('2025-03-01T00:00:00Z'),
+  updatedAt: new Date('2025-03-01T00:00:00Z'),
+});
+
+const ids = (results: { message: Message }[]) => results.map(result => result.message.id);
+
+describe('createSearchIndex', () => {
+  it('matches every query word as a word prefix, newest first', () => {
+    const index = createSearchIndex();
+    index.sync([conversation('c1', [
+      message('m1', 'Настройка прокси-сервера'),
+      message('m2', 'Proxy server settings'),
+      message('m3', 'The server is down'),
+    ])]);
+
+    expect(ids(index.search('serv'))).toEqual(['m3', 'm2']);
+    expect(ids(index.search('PROX serv'))).toEqual(['m2']);
+    expect(ids(index.search('прокс'))).toEqual(['m1']);
+    expect(ids(index.search('erver'))).toEqual([]);
+    expect(ids(index.search('proxy missing'))).toEqual([]);
+  });
+
+  it('treats ё as е and finds attachment names', () => {
+    const index = createSearchIndex();
+    index.sync([conversation('c1', [
+      message('m1', 'Ёлка готова'),
+      message('m2', 'See attached', { attachments: [{ id: 'a1', kind: 'text', name: 'report.pdf', mimeType: 'application/pdf', size: 1, text: '' }] }),
+    ])]);
+
+    expect(ids(index.search('елк'))).toEqual(['m1']);
+    expect(ids(index.search('report'))).toEqual(['m2']);
+  });
+
+  it('indexes an edited message again under its new words only', () => {
+    const index = createSearchIndex();
+    const before = conversation('c1', [message('m1', 'old wording'), message('m2', 'kept as is')]);
+    index.sync([before]);
+    const after = { ...before, messages: [{ ...before.messages[0], text: 'new phrasing' }, before.messages[1]] };
+    index.sync([after]);
+
+    expect(ids(index.search('old'))).toEqual([]);
+    expect(ids(index.search('phras'))).toEqual(['m1']);
+    expect(ids(index.search('kept'))).toEqual(['m2']);
+  });
+
+  it('forgets deleted messages and conversations', () => {
+    const index = createSearchIndex();
+    const first = conversation('c1', [message('m1', 'shared word'), message('m2', 'shared too')]);
+    const second = conversation('c2', [message('m3', 'shared here')]);
+    index.sync([first, second]);
+    index.sync([{ ...first, messages: [first.messages[0]] }, second]);
+    expect(ids(index.search('shared'))).toEqual(['m3', 'm1']);
+
+    index.sync([second]);
+    expect(ids(index.search('shared'))).toEqual(['m3']);
+    expect(ids(index.search(''))).toEqual(['m3']);
+  });
+
+  it('leaves streaming messages out until they settle', () => {
+    const index = createSearchIndex();
+    const streaming = conversation('c1', [message('m1', 'partial answ', { isStreaming: true })]);
+    index.sync([streaming]);
+    expect(ids(index.search('partial'))).toEqual([]);
+
+    index.sync([{ ...streaming, messages: [{ ...streaming.messages[0], text: 'partial answer', isStreaming: false }] }]);
+    expect(ids(index.search('answer'))).toEqual(['m1']);
+  });
+
+  it('filters by the persona of the reply, or of the conversation when the reply has none', () => {
+    const index = createSearchIndex();
+    index.sync([
+      conversation('c1', [
+        message('m1', 'topic prompt'),
+        message('m2', 'topic reply by pro', { role: Role.MODEL, persona: 'pro' }),
+        message('m3', 'topic reply of old', { role: Role.MODEL }),
+      ], 'standard'),
+      conversation('c2', [message('m4', 'topic in another chat')], 'pro'),
+    ]);
+
+    expect(ids(index.search('topic', { persona: 'pro' }))).toEqual(['m4', 'm2']);
+    expect(ids(index.search('topic', { persona: 'standard' }))).toEqual(['m3', 'm1']);
+    expect(ids(index.search('topic', { persona: 'pro', role: Role.MODEL }))).toEqual(['m2']);
+  });
+
+  it('filters by date, images and code', () => {
+    const index = createSearchIndex();
+    index.sync([conversation('c1', [
+      message('m1', 'code ```js\n1\n```'),
+      message('m2', 'picture', { imageUrl: 'blob:1' }),
+      message('m3', 'plain'),
+    ])]);
+
+    expect(ids(index.search('', { hasCode: true }))).toEqual(['m1']);
+    expect(ids(index.search('', { hasImage: true }))).toEqual(['m2']);
+    expect(ids(index.search('', { from: new Date('2025-03-02T00:00:00Z'), to: new Date('2025-03-02T12:00:00Z') }))).toEqual(['m2']);
+  });
+});
@@ -0,0 +1,159 @@
+import { Conversation, Message, ModelId, Role } from "../types";
+import { tokenize } from "../utils/search";
+
+export interface SearchDocument {
+  conversationId: string;
+  message: Message;
+  hasImage: boolean;
+  hasCode: boolean;
+}
+
+export interface SearchFilters {
+  role?: Role;
+  /**
+   * Persona that wrote the reply. Prompts, and replies from before personas were recorded, are
+   * matched by the persona of their conversation.
+   */
+  persona?: ModelId;
+  /** Inclusive bounds on the message timestamp. */
+  from?: Date;
+  to?: Date;
+  hasImage?: boolean;
+  hasCode?: boolean;
+}
+
+interface IndexedConversation {
+  conversation: Conversation;
+  documents: Map<string, SearchDocument>;
+}
+
+// Enough for a results list; a query that matches more should be narrowed down
+const MAX_RESULTS = 200;
+
+const keyOf = (conversationId: string, messageId: string) => `${conversationId}\n${messageId}`;
+
+// Attachment names are searchable too, so "report.pdf" finds the message it was sent with
+const wordsOf = (message: Message) => tokenize([message.text, ...(message.attachments?.map(a => a.name) ?? [])].join(' '));
+
+const toDocument = (conversationId: string, message: Message): SearchDocument => ({
+  conversationId,
+  message,
+  hasImage: !!message.imageUrl || !!message.attachments?.some(a => a.kind === 'image'),
+  hasCode: /```|~~~/.test(message.text) || !!message.attachments?.some(a => a.kind === 'text'),
+});
+
+/**
+ * In-memory inverted index over the text of every message. `sync` is meant to run on every
+ * state change: conversations and messages are immutable, so unchanged ones are recognised
+ * by identity and skipped, and only new or edited messages are tokenized again.
+ * Messages still streaming are left out until they settle.
+ */
+export const createSearchIndex = () => {
+  const conversations = new Map<string, IndexedConversation>();
+  const documents = new Map<string, SearchDocument>();
+  // Word → keys of the documents containing it
+  const postings = new Map<string, Set<string>>();
+
+  const add = (document: SearchDocument) => {
+    const key = keyOf(document.conversationId, document.message.id);
+    documents.set(key, document);
+    for (const word of wordsOf(document.message)) {
+      let keys = postings.get(word);
+      if (!keys) postings.set(word, (keys = new Set()));
+      keys.add(key);
+    }
+  };
+
+  const remove = (document: SearchDocument) => {
+    const key = keyOf(document.conversationId, document.message.id);
+    documents.delete(key);
+    for (const word of wordsOf(document.message)) {
+      const keys = postings.get(word);
+      keys?.delete(key);
+      if (keys && !keys.size) postings.delete(word);
+    }
+  };
+
+  const syncConversation = (conversation: Conversation, previous?: IndexedConversation): IndexedConversation => {
+    const next = new Map<string, SearchDocument>();
+    for (const message of conversation.messages) {
+      if (message.isStreaming) continue;
+      const existing = previous?.documents.get(message.id);
+      if (existing?.message === message) {
+        next.set(message.id, existing);
+        continue;
+      }
+      if (existing) remove(existing);
+      const document = toDocument(conversation.id, message);
+      add(document);
+      next.set(message.id, document);
+    }
+    previous?.documents.forEach((document, id) => {
+      if (!next.has(id)) remove(document);
+    });
+    return { conversation, documents: next };
+  };
+
+  /** Keys of the documents containing a word that starts with `term`. */
+  const lookup = (term: string): Set<string> => {
+    const found = new Set<string>();
+    for (const [word, keys] of postings) {
+      if (word.startsWith(term)) keys.forEach(key => found.add(key));
+    }
+    return found;
+  };
+
+  const matchesFilters = (document: SearchDocument, filters: SearchFilters) => {
+    const { message } = document;
+    const time = message.timestamp.getTime();
+    if (filters.role && message.role !== filters.role) return false;
+    if (filters.persona && (message.persona ?? conversations.get(document.conversationId)?.conversation.selectedModel) !== filters.persona) return false;
+    if (filters.from && time < filters.from.getTime()) return false;
+    if (filters.to && time > filters.to.getTime()) return false;
+    if (filters.hasImage && !document.hasImage) return false;
+    if (filters.hasCode && !document.hasCode) return false;
+    return true;
+  };
+
+  return {
+    /** Brings the index up to date with `list`, touching only what changed since the last call. */
+    sync: (list: Conversation[]) => {
+      const seen = new Set<string>();
+      for (const conversation of list) {
+        seen.add(conversation.id);
+        const previous = conversations.get(conversation.id);
+        if (previous?.conversation === conversation) continue;
+        conversations.set(conversation.id, syncConversation(conversation, previous));
+      }
+      for (const [id, indexed] of conversations) {
+        if (seen.has(id)) continue;
+        indexed.documents.forEach(remove);
+        conversations.delete(id);
+      }
+    },
+
+    /**
+     * Messages containing every word of `query` (each as a word prefix) and passing `filters`,
+     * newest first. An empty query lists everything the filters let through.
+     */
+    search: (query: string, filters: SearchFilters = {}): SearchDocument[] => {
+      const terms = tokenize(query);
+      let keys: Iterable<string> = documents.keys();
+      if (terms.length) {
+        // Start from the rarest term so the intersection stays small
+        const sets = terms.map(lookup).sort((a, b) => a.size - b.size);
+        keys = [...sets[0]].filter(key => sets.every(set => set.has(key)));
+      }
+      const results: SearchDocument[] = [];
+      for (const key of keys) {
+        const document = documents.get(key);
+        if (document && matchesFilters(document, filters)) results.push(document);
+      }
+      return results
+        .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+        .slice(0, MAX_RESULTS);
+    },
+  };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
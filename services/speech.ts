@@ -0,0 +1,123 @@
+import { toSpeechText } from "../utils/speechText";
+import { getLocaleTag } from "./i18n";
+
+export interface VoiceSettings {
+  /** `SpeechSynthesisVoice.voiceURI`; empty picks the browser default for `lang`. */
+  voiceURI: string;
+  /** BCP 47 language for dictation and the default voice; empty follows the interface locale. */
+  lang: string;
+  rate: number;
+  pitch: number;
+  /** Hands-free mode: dictation submits on its own and replies are read aloud. */
+  handsFree: boolean;
+}
+
+const STORAGE_KEY = 'nikiviti.voice';
+
+const DEFAULT_SETTINGS: VoiceSettings = { voiceURI: '', lang: '', rate: 1, pitch: 1, handsFree: false };
+
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+const synth = typeof speechSynthesis !== 'undefined' ? speechSynthesis : null;
+
+const load = (): VoiceSettings => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error("Solaris Voice Error:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let settings: VoiceSettings = load();
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const getVoiceSettings = (): VoiceSettings => settings;
+
+export const saveVoiceSettings = (patch: Partial<VoiceSettings>) => {
+  settings = { ...settings, ...patch };
+  storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+  notify();
+};
+
+/** Subscribes to settings and playback changes; compatible with React's `useSyncExternalStore`. */
+export const subscribeVoice = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Language actually used for dictation and speech. */
+export const getSpeechLang = () => settings.lang || getLocaleTag();
+
+export const isSpeechSupported = () => !!synth;
+
+export const listVoices = (): SpeechSynthesisVoice[] => synth?.getVoices() ?? [];
+
+// Voices load asynchronously in Chrome; re-render pickers once they arrive
+synth?.addEventListener?.('voiceschanged', notify);
+
+// --- Playback queue ---------------------------------------------------------
+// One queue for the whole app, so starting a message never talks over another one.
+
+interface QueueItem {
+  id: string;
+  text: string;
+  onEnd?: () => void;
+}
+
+const queue: QueueItem[] = [];
+let speakingId: string | null = null;
+
+/** Id of the message being read aloud, or null. */
+export const getSpeakingId = () => speakingId;
+
+const playNext = () => {
+  const item = queue.shift();
+  speakingId = item?.id ?? null;
+  notify();
+  if (!item || !synth) return;
+
+  const utterance = new SpeechSynthesisUtterance(item.text);
+  const voice = listVoices().find(v => v.voiceURI === settings.voiceURI);
+  utterance.voice = voice ?? null;
+  utterance.lang = voice?.lang ?? getSpeechLang();
+  utterance.rate = settings.rate;
+  utterance.pitch = settings.pitch;
+  const finish = () => {
+    // A cancelled utterance may still fire; ignore it once something else is playing
+    if (speakingId !== item.id) return;
+    item.onEnd?.();
+    playNext();
+  };
+  utterance.onend = finish;
+  utterance.onerror = finish;
+  synth.speak(utterance);
+};
+
+/** Queues a Markdown message for reading; it plays after anything already queued. */
+export const enqueueSpeech = (id: string, markdown: string, onEnd?: () => void) => {
+  const text = toSpeechText(markdown);
+  if (!synth || !text) {
+    onEnd?.();
+    return;
+  }
+  queue.push({ id, text, onEnd });
+  if (!speakingId) playNext();
+};
+
+/** Stops playback and clears the queue. */
+export const stopSpeech = () => {
+  queue.length = 0;
+  speakingId = null;
+  synth?.cancel();
+  notify();
+};
+
+/** Reads one message now, interrupting and replacing whatever was playing. */
+export const speakNow = (id: string, markdown: string) => {
+  stopSpeech();
+  enqueueSpeech(id, markdown);
+};
@@ -0,0 +1,68 @@
+// The Web Speech API is not in TypeScript's DOM lib yet; this is the subset the app uses.
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+const RecognitionImpl: (new () => Recognition) | undefined =
+  typeof window !== 'undefined' ? (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition : undefined;
+
+export const isRecognitionSupported = () => !!RecognitionImpl;
+
+export interface DictationHandlers {
+  /** Text heard so far in this session: finished phrases plus the phrase in progress. */
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onEnd: () => void;
+  onError?: (error: string) => void;
+}
+
+export interface Dictation {
+  /** Stops listening and delivers what was heard. */
+  stop(): void;
+  /** Stops listening and discards the phrase in progress. */
+  cancel(): void;
+}
+
+/** Starts listening in `lang`. Returns null when the browser has no speech recognition. */
+export const startDictation = (lang: string, handlers: DictationHandlers): Dictation | null => {
+  if (!RecognitionImpl) return null;
+
+  const recognition = new RecognitionImpl();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let finished = '';
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) finished += result[0].transcript;
+      else interim += result[0].transcript;
+    }
+    handlers.onTranscript((finished + interim).trim(), !interim);
+  };
+  recognition.onerror = (event) => {
+    // "no-speech" and "aborted" are normal ends of a push-to-talk press
+    if (event.error !== 'no-speech' && event.error !== 'aborted') handlers.onError?.(event.error);
+  };
+  recognition.onend = handlers.onEnd;
+  recognition.start();
+
+  return {
+    stop: () => recognition.stop(),
+    cancel: () => recognition.abort(),
+  };
+};
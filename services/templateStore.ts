@@ -0,0 +1,109 @@
+import { PromptTemplate } from "../types";
+import { DEFAULT_TEMPLATES } from "../constants";
+import { MessageKey, t } from "./i18n";
+import { COMMAND_NAME, isBuiltinCommand } from "../utils/templates";
+
+const STORAGE_KEY = 'nikiviti.templates';
+
+export const TEMPLATE_EXPORT_FORMAT = 'nikiviti-templates';
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+// Like personas, templates are small and read synchronously while typing
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+
+const load = (): PromptTemplate[] => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as PromptTemplate[] : DEFAULT_TEMPLATES;
+  } catch (error) {
+    console.error("Solaris Template Error:", error);
+    return DEFAULT_TEMPLATES;
+  }
+};
+
+let templates: PromptTemplate[] = load();
+const listeners = new Set<() => void>();
+
+const commit = (next: PromptTemplate[]) => {
+  templates = next;
+  storage?.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach(listener => listener());
+};
+
+export const listTemplates = (): PromptTemplate[] => templates;
+
+/** Subscribes to template changes; compatible with React's `useSyncExternalStore`. */
+export const subscribeTemplates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Why `template` cannot be saved as it is, or null when it can. */
+export const validateTemplate = (template: PromptTemplate, others: PromptTemplate[] = templates): string | null => {
+  const command = template.command.toLowerCase();
+  if (!command || !template.text.trim()) return t('template.required');
+  if (!COMMAND_NAME.test(command)) return t('template.invalidCommand');
+  if (isBuiltinCommand(command)) return t('template.reservedCommand', { command });
+  if (others.some(existing => existing.id !== template.id && existing.command.toLowerCase() === command)) return t('template.duplicateCommand', { command });
+  return null;
+};
+
+export const saveTemplate = (template: PromptTemplate) => {
+  const exists = templates.some(existing => existing.id === template.id);
+  commit(exists ? templates.map(existing => (existing.id === template.id ? template : existing)) : [...templates, template]);
+};
+
+export const deleteTemplate = (id: string) => commit(templates.filter(existing => existing.id !== id));
+
+export const createTemplateId = () => `template-${Date.now().toString(36)}`;
+
+export const exportTemplates = (selection: PromptTemplate[] = templates): string =>
+  JSON.stringify({ format: TEMPLATE_EXPORT_FORMAT, version: TEMPLATE_EXPORT_VERSION, templates: selection }, null, 2);
+
+const fail = (reason: MessageKey, params?: Record<string, string | number>): never => {
+  throw new Error(t('import.templatesRejected', { reason: t(reason, params) }));
+};
+
+const validateImported = (raw: any, at: string): PromptTemplate => {
+  if (typeof raw?.id !== 'string' || !raw.id) fail('import.missing', { field: `${at}.id` });
+  if (typeof raw.command !== 'string' || !COMMAND_NAME.test(raw.command) || isBuiltinCommand(raw.command.toLowerCase())) {
+    fail('import.invalid', { field: `${at}.command` });
+  }
+  if (typeof raw.text !== 'string' || !raw.text.trim()) fail('import.missing', { field: `${at}.text` });
+  if (raw.persona !== undefined && typeof raw.persona !== 'string') fail('import.notString', { field: `${at}.persona` });
+
+  return {
+    id: raw.id,
+    command: raw.command,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    text: raw.text,
+    // Kept even if this install lacks the persona; sending then stays on the current one
+    persona: raw.persona || undefined,
+  };
+};
+
+/** Validates an exported template file and merges it in; templates with a known id or command are replaced. */
+export const importTemplates = (json: string): PromptTemplate[] => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return fail('import.notJson');
+  }
+  if (data?.format !== TEMPLATE_EXPORT_FORMAT) fail('import.unknownFormat');
+  if (typeof data.version !== 'number' || data.version > TEMPLATE_EXPORT_VERSION) fail('import.unsupportedVersion', { version: String(data.version) });
+  if (!Array.isArray(data.templates) || !data.templates.length) fail('import.noTemplates');
+
+  const imported: PromptTemplate[] = data.templates.map((raw: any, i: number) => validateImported(raw, `templates[${i}]`));
+  const commands = new Set<string>();
+  imported.forEach((template, i) => {
+    const command = template.command.toLowerCase();
+    if (commands.has(command)) fail('import.duplicate', { field: `templates[${i}].command` });
+    commands.add(command);
+  });
+  const kept = templates.filter(existing => !imported.some(template => template.id === existing.id || template.command.toLowerCase() === existing.command.toLowerCase()));
+  commit([...kept, ...imported]);
+  return imported;
+};
@@ -0,0 +1,58 @@
+import { Attachment, Role } from "../../types";
+import { urlBytes, urlMimeType } from "../blobStore";
+import { ToolDefinition } from "./types";
+
+type Source = 'uploaded' | 'generated';
+
+const describe = (attachment: Attachment) => ({
+  name: attachment.name,
+  kind: attachment.kind,
+  mimeType: attachment.mimeType,
+  sizeBytes: attachment.size,
+});
+
+export const attachmentsTool: ToolDefinition<{ source?: Source }> = {
+  name: 'list_attachments',
+  title: 'tools.attachments',
+  description: 'Lists the files in the current conversation — images, PDFs and text files uploaded by the user, and images generated by the model — with their type, size, time and the message they belong to. Read-only.',
+  parameters: {
+    type: 'object',
+    properties: {
+      source: { type: 'string', enum: ['uploaded', 'generated'], description: 'Only list uploaded or only generated files.' },
+    },
+  },
+  execute: ({ source }, { history, attachments: current }) => {
+    const attachments = history.flatMap(message => {
+      const meta = {
+        messageId: message.id,
+        author: message.role === Role.USER ? 'user' : 'model',
+        timestamp: message.timestamp.toISOString(),
+        caption: message.text.slice(0, 120),
+      };
+      const found = (message.attachments || []).map(a => ({ ...meta, source: 'uploaded' as Source, ...describe(a) }));
+      if (message.imageUrl) {
+        found.push({
+          ...meta,
+          source: 'generated',
+          name: 'generated-image',
+          kind: 'image',
+          mimeType: urlMimeType(message.imageUrl) ?? 'unknown',
+          sizeBytes: urlBytes(message.imageUrl),
+        });
+      }
+      return found;
+    });
+    for (const a of current) {
+      attachments.push({
+        messageId: 'current',
+        author: 'user',
+        timestamp: new Date().toISOString(),
+        caption: '',
+        source: 'uploaded',
+        ...describe(a),
+      });
+    }
+    const filtered = source ? attachments.filter(a => a.source === source) : attachments;
+    return { count: filtered.length, attachments: filtered };
+  },
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculatorTool, evaluateExpression } from './calculator';
+
+const context = { history: [], attachments: [] };
+
+describe('evaluateExpression', () => {
+  it.each<[string, number]>([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 10', 1024],
+    ['-2 ^ 2', -4],
+    ['--3', 3],
+    ['+4', 4],
+    ['7 % 4', 3],
+    ['.5 + .25', 0.75],
+    ['-.5 * 4', -2],
+    ['5. * 2', 10],
+    ['1.5e3', 1500],
+    ['2.5E-1', 0.25],
+    ['sqrt(16) + abs(-2)', 6],
+    ['max(1, 5, 3) - min(4, 2)', 3],
+    ['pow(2, 8)', 256],
+    ['log(1000) + ln(e) + log2(8)', 7],
+    ['round(PI * 100) / 100', 3.14],
+    ['Floor(2.7) + CEIL(2.1)', 5],
+  ])('evaluates %s', (expression, value) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(value, 10);
+  });
+
+  it.each<[string, RegExp]>([
+    ['1 +', /end of expression/],
+    ['(1 + 2', /Expected "\)"/],
+    ['1 2', /Unexpected "2"/],
+    ['foo(1)', /Unknown function "foo"/],
+    ['x + 1', /Unknown symbol "x"/],
+    ['constructor(1)', /Unknown function/],
+    ['__proto__', /Unknown symbol/],
+    ['toString', /Unknown symbol/],
+    ['1 & 2', /Unexpected "&"/],
+    ['.', /Unknown symbol "\."/],
+  ])('rejects %s', (expression, error) => {
+    expect(() => evaluateExpression(expression)).toThrow(error);
+  });
+});
+
+describe('calculatorTool', () => {
+  it('returns the expression with its value', () => {
+    expect(calculatorTool.execute({ expression: '.1 + .2' }, context)).toEqual({ expression: '.1 + .2', value: 0.1 + 0.2 });
+  });
+
+  it.each(['1 / 0', 'sqrt(-1)', '10 ^ 400'])('refuses the non-finite result of %s', (expression) => {
+    expect(() => calculatorTool.execute({ expression }, context)).toThrow('Result is not a finite number');
+  });
+});
@@ -0,0 +1,115 @@
+import { ToolDefinition } from "./types";
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  min: Math.min, max: Math.max, pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Recursive-descent evaluator for arithmetic expressions. Grammar:
+ * expr = term (('+' | '-') term)*; term = unary (('*' | '/' | '%') unary)*;
+ * unary = '-' unary | power; power = call ('^' unary)?; call = name '(' args ')' | name | number | '(' expr ')'.
+ */
+export const evaluateExpression = (source: string): number => {
+  const tokens = source.match(/(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) || [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected && token !== expected) throw new Error(`Expected "${expected}" but found "${token ?? 'end of input'}"`);
+    return token;
+  };
+
+  const expr = (): number => {
+    let value = term();
+    while (peek() === '+' || peek() === '-') value = take() === '+' ? value + term() : value - term();
+    return value;
+  };
+
+  const term = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const rhs = unary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+
+  const power = (): number => {
+    const base = call();
+    if (peek() === '^' || peek() === '**') {
+      take();
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+
+  const unary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -unary();
+    }
+    if (peek() === '+') {
+      take();
+      return unary();
+    }
+    return power();
+  };
+
+  const call = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+    if (token === '(') {
+      const value = expr();
+      take(')');
+      return value;
+    }
+    if (/^\.?\d/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (peek() === '(') {
+      // Own entries only, so `constructor(1)` or `__proto__` cannot reach Object.prototype
+      const fn = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+      if (!fn) throw new Error(`Unknown function "${token}"`);
+      take('(');
+      const args = [expr()];
+      while (peek() === ',') {
+        take();
+        args.push(expr());
+      }
+      take(')');
+      return fn(...args);
+    }
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    throw new Error(`Unknown symbol "${token}"`);
+  };
+
+  const value = expr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  return value;
+};
+
+export const calculatorTool: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  title: 'tools.calculator',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, cbrt, abs, exp, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, round, floor, ceil, min, max, pow.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "sqrt(2) * (3 + 4)^2"' },
+    },
+    required: ['expression'],
+  },
+  execute: ({ expression }) => {
+    const value = evaluateExpression(String(expression));
+    if (!isFinite(value)) throw new Error('Result is not a finite number');
+    return { expression, value };
+  },
+};
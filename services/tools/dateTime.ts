@@ -0,0 +1,30 @@
+import { ToolDefinition } from "./types";
+
+export const dateTimeTool: ToolDefinition<{ timeZone?: string; offsetDays?: number }> = {
+  name: 'get_datetime',
+  title: 'tools.dateTime',
+  description: "Returns the current date and time, optionally in a given IANA time zone and shifted by a number of days.",
+  parameters: {
+    type: 'object',
+    properties: {
+      timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Moscow". Defaults to the user\'s zone.' },
+      offsetDays: { type: 'number', description: 'Days to add (negative for the past). Defaults to 0.' },
+    },
+  },
+  execute: ({ timeZone, offsetDays = 0 }) => {
+    const date = new Date(Date.now() + Number(offsetDays) * 86_400_000);
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    // Throws RangeError for unknown zones, which surfaces as a tool error
+    const format = new Intl.DateTimeFormat('en-GB', {
+      timeZone: zone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    });
+    return {
+      iso: date.toISOString(),
+      unix: Math.floor(date.getTime() / 1000),
+      timeZone: zone,
+      local: format.format(date),
+    };
+  },
+};
@@ -0,0 +1,77 @@
+import { ToolStep } from "../../types";
+import { ToolCall, ToolDeclaration } from "../chatProvider";
+import { t } from "../i18n";
+import { attachmentsTool } from "./attachments";
+import { calculatorTool } from "./calculator";
+import { dateTimeTool } from "./dateTime";
+import { ToolContext, ToolDefinition } from "./types";
+import { unitConversionTool } from "./unitConversion";
+
+export type { ToolContext, ToolDefinition } from "./types";
+
+export const TOOLS: ToolDefinition<any>[] = [calculatorTool, dateTimeTool, unitConversionTool, attachmentsTool];
+
+const STORAGE_KEY = 'nikiviti.tools';
+
+const storage = typeof localStorage !== 'undefined' ? localStorage : null;
+
+// Only denied tool names are stored, so tools added later are allowed by default
+const load = (): string[] => {
+  try {
+    const stored = storage?.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Solaris Tool Error:", error);
+    return [];
+  }
+};
+
+let denied: string[] = load();
+const listeners = new Set<() => void>();
+
+export const getDeniedTools = (): string[] => denied;
+
+export const isToolAllowed = (name: string) => !denied.includes(name);
+
+export const setToolAllowed = (name: string, allowed: boolean) => {
+  denied = allowed ? denied.filter(n => n !== name) : [...denied.filter(n => n !== name), name];
+  storage?.setItem(STORAGE_KEY, JSON.stringify(denied));
+  listeners.forEach(listener => listener());
+};
+
+/** Subscribes to allow/deny changes; compatible with React's `useSyncExternalStore`. */
+export const subscribeTools = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Declarations of the allowed tools, ready for `ChatRequest.tools`. */
+export const getToolDeclarations = (): ToolDeclaration[] =>
+  TOOLS.filter(tool => isToolAllowed(tool.name)).map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+export const getToolTitle = (name: string) => {
+  const tool = TOOLS.find(tool => tool.name === name);
+  return tool ? t(tool.title) : name;
+};
+
+/**
+ * Runs one tool call and reports the outcome as a finished `ToolStep`. Never throws: unknown,
+ * denied and failing tools become `denied`/`error` steps whose result is sent back to the model.
+ */
+export const runTool = async (call: ToolCall, context: ToolContext): Promise<ToolStep> => {
+  const step: ToolStep = { id: call.id, name: call.name, args: call.args, status: 'running' };
+  const tool = TOOLS.find(candidate => candidate.name === call.name);
+
+  if (!tool || !isToolAllowed(call.name)) {
+    return { ...step, status: 'denied', result: { error: `Tool "${call.name}" is not available` } };
+  }
+
+  try {
+    return { ...step, status: 'done', result: await tool.execute(call.args, context) };
+  } catch (error) {
+    console.error("Solaris Tool Error:", error);
+    return { ...step, status: 'error', result: { error: error instanceof Error ? error.message : String(error) } };
+  }
+};
@@ -0,0 +1,20 @@
+import { Attachment, Message } from "../../types";
+import { MessageKey } from "../i18n";
+
+/** What a tool may look at while it runs. Tools never get write access to the conversation. */
+export interface ToolContext {
+  /** Active branch up to, but not including, the prompt being answered. */
+  history: Message[];
+  /** Files attached to the prompt being answered. */
+  attachments: Attachment[];
+}
+
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  name: string;
+  /** Catalog key of the short label for the settings panel and tool steps. */
+  title: MessageKey;
+  description: string;
+  /** JSON schema of `Args`, sent to the model as the function declaration. */
+  parameters: Record<string, unknown>;
+  execute(args: Args, context: ToolContext): unknown | Promise<unknown>;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits, unitConversionTool } from './unitConversion';
+
+const context = { history: [], attachments: [] };
+
+describe('convertUnits', () => {
+  it.each<[number, string, string, number]>([
+    [1, 'mi', 'km', 1.609344],
+    [12, 'in', 'ft', 1],
+    [1, 'lb', 'g', 453.59237],
+    [1, 'gal', 'l', 3.78541],
+    [1, 'ha', 'm2', 10_000],
+    [36, 'km/h', 'm/s', 10],
+    [2, 'h', 'min', 120],
+    [1, 'GiB', 'MB', 1073.741824],
+    [100, 'C', 'F', 212],
+    [32, 'f', 'c', 0],
+    [0, 'k', 'c', -273.15],
+    [5, 'm', 'm', 5],
+  ])('converts %s %s to %s', (value, from, to, result) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(result, 9);
+  });
+
+  it.each<[string, string]>([
+    ['kg', 'm'],
+    ['c', 'kg'],
+    ['parsec', 'm'],
+    ['constructor', 'constructor'],
+    ['toString', 'm'],
+  ])('refuses to convert %s to %s', (from, to) => {
+    expect(() => convertUnits(1, from, to)).toThrow(`Cannot convert "${from}" to "${to}"`);
+  });
+
+  it.each([NaN, Infinity, -Infinity])('rejects %s', (value) => {
+    expect(() => convertUnits(value, 'm', 'km')).toThrow('Value must be a finite number');
+    expect(() => convertUnits(value, 'c', 'f')).toThrow('Value must be a finite number');
+  });
+});
+
+describe('unitConversionTool', () => {
+  it('converts numeric strings the model sends', () => {
+    expect(unitConversionTool.execute({ value: '3' as unknown as number, from: 'ft', to: 'in' }, context))
+      .toEqual({ value: '3', from: 'ft', to: 'in', result: expect.closeTo(36) });
+  });
+
+  it.each(['abc', '1e400', undefined])('rejects the value %s', (value) => {
+    expect(() => unitConversionTool.execute({ value: value as unknown as number, from: 'm', to: 'km' }, context))
+      .toThrow('Value must be a finite number');
+  });
+});
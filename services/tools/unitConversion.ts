@@ -0,0 +1,47 @@
+import { ToolDefinition } from "./types";
+
+// Factors convert one unit into the category's base unit (metre, kilogram, litre, ...)
+const UNITS: Record<string, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852 },
+  mass: { mg: 1e-6, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237 },
+  volume: { ml: 0.001, l: 1, m3: 1000, tsp: 0.00492892, tbsp: 0.0147868, cup: 0.24, floz: 0.0295735, pt: 0.473176, qt: 0.946353, gal: 3.78541 },
+  area: { mm2: 1e-6, cm2: 1e-4, m2: 1, ha: 1e4, km2: 1e6, ft2: 0.09290304, acre: 4046.8564224, mi2: 2589988.110336 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 0.514444 },
+  time: { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400, wk: 604800 },
+  data: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4 },
+};
+
+const TEMPERATURE = ['c', 'f', 'k'];
+
+const toCelsius = (value: number, unit: string) => (unit === 'f' ? (value - 32) * 5 / 9 : unit === 'k' ? value - 273.15 : value);
+const fromCelsius = (value: number, unit: string) => (unit === 'f' ? value * 9 / 5 + 32 : unit === 'k' ? value + 273.15 : value);
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  if (!Number.isFinite(value)) throw new Error(`Value must be a finite number, got ${value}`);
+  const a = from.toLowerCase();
+  const b = to.toLowerCase();
+  if (TEMPERATURE.includes(a) && TEMPERATURE.includes(b)) return fromCelsius(toCelsius(value, a), b);
+
+  // Own entries only: `in` would take inherited names such as "constructor" for units
+  const category = Object.values(UNITS).find(units => Object.hasOwn(units, a) && Object.hasOwn(units, b));
+  if (!category) throw new Error(`Cannot convert "${from}" to "${to}"`);
+  return value * category[a] / category[b];
+};
+
+const SUPPORTED = [...Object.entries(UNITS).map(([name, units]) => `${name}: ${Object.keys(units).join(', ')}`), `temperature: ${TEMPERATURE.join(', ')}`];
+
+export const unitConversionTool: ToolDefinition<{ value: number; from: string; to: string }> = {
+  name: 'convert_units',
+  title: 'tools.unitConversion',
+  description: `Converts a value between units of the same kind. Supported units — ${SUPPORTED.join('; ')}.`,
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number' },
+      from: { type: 'string', description: 'Source unit symbol, e.g. "mi"' },
+      to: { type: 'string', description: 'Target unit symbol, e.g. "km"' },
+    },
+    required: ['value', 'from', 'to'],
+  },
+  execute: ({ value, from, to }) => ({ value, from, to, result: convertUnits(Number(value), String(from), String(to)) }),
+};
@@ -0,0 +1,22 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom lays nothing out, so there is nothing to observe or scroll
+class NoopResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= NoopResizeObserver as unknown as typeof ResizeObserver;
+// Tests of storage alone run in Node, where there is no DOM at all
+if (typeof Element !== 'undefined') Element.prototype.scrollIntoView ??= () => {};
+
+beforeEach(() => {
+  // Every test starts without stored conversations, personas or knowledge
+  globalThis.indexedDB = new IDBFactory();
+  globalThis.localStorage?.clear();
+});
+
+afterEach(cleanup);
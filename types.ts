@@ -4,28 +4,222 @@ export enum Role {
   MODEL = 'model',
 }
 
-export type ModelId = 'standard' | 'pro' | 'eco';
+/** Persona id. The built-in personas are 'standard', 'pro' and 'eco'; user-defined ones get generated ids. */
+export type ModelId = string;
 
-export interface ModelInfo {
+export const PROVIDER_IDS = ['gemini', 'openai', 'mock'] as const;
+
+export type ProviderId = typeof PROVIDER_IDS[number];
+
+export type AccentColor = 'emerald' | 'teal' | 'cyan' | 'violet' | 'rose' | 'amber';
+
+export interface Persona {
   id: ModelId;
   name: string;
   description: string;
-  features: string[];
-  geminiModel: string;
+  systemInstruction: string;
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Reasoning token budget; undefined turns thinking off. */
+  thinkingBudget?: number;
+  accentColor: AccentColor;
+  /** Short label on the header badge; defaults to the first letter of the name. */
+  badge?: string;
+  /** Tokens of history (summary included) sent with each turn. 0 means the persona is stateless. */
+  contextBudget: number;
+  /** Prepended to every prompt, e.g. to frame image requests. */
+  promptPrefix?: string;
+  /** The persona answers with generated images rather than text. */
+  imageOutput?: boolean;
+  /** The persona may call the local tools (calculator, units, ...) through function calling. */
+  toolsEnabled?: boolean;
+  /** Shipped with the app: can be edited and reset, but not deleted. */
+  builtIn?: boolean;
+}
+
+/** A reusable prompt, offered in the composer's slash-command menu. */
+export interface PromptTemplate {
+  id: string;
+  /** Typed after the slash, e.g. `review` for `/review`. */
+  command: string;
+  description: string;
+  /** Prompt text; each `{{name}}` is a variable filled in before sending. */
+  text: string;
+  /** Persona the channel switches to before sending; unset keeps the current one. */
+  persona?: ModelId;
+}
+
+/** Per-send reasoning effort; each maps to a budget in `THINKING_BUDGETS`. */
+export type ThinkingPreset = 'off' | 'low' | 'high' | 'dynamic';
+
+export type ToolStepStatus = 'running' | 'done' | 'denied' | 'error';
+
+/** One tool call made while producing a reply, with its result. */
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolStepStatus;
+  result?: unknown;
+}
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+export interface Attachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  /** Size of the stored payload in bytes, after any downscaling. */
+  size: number;
+  /** Base64 data URL, for images and PDFs. */
+  dataUrl?: string;
+  /** File contents, for text and source files. */
+  text?: string;
+  /** Model message whose generated image this is, when the user picked "edit this image". */
+  sourceMessageId?: string;
+}
+
+/** How a generated image was requested; kept on the model message for the gallery. */
+export interface ArtDetails {
+  prompt: string;
+  /** Id of an `ART_STYLES` preset. */
+  style?: string;
+  aspectRatio?: string;
+}
+
+/** Tokens billed for one reply, summed over its tool rounds. */
+export interface TokenUsage {
+  input: number;
+  output: number;
+  /** Reasoning tokens, billed as output but not part of the visible text. */
+  thoughts?: number;
+  total: number;
+}
+
+/** Price of a model in US dollars per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked?: boolean;
+}
+
+/** What the provider reported about a reply, plus the timing measured while it streamed. */
+export interface ReplyMetadata {
+  provider: ProviderId;
+  /** Model id the request was sent to. */
+  model: string;
+  /** Exact model version that answered, when the provider reports it. */
+  modelVersion?: string;
+  usage?: TokenUsage;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** From sending the request to the first text or image, in milliseconds. */
+  firstChunkMs?: number;
+  /** From sending the request to the end of the reply, tool rounds and retries included. */
+  latencyMs: number;
 }
 
 export interface Message {
   id: string;
+  /** Previous message on the same branch; `null` for the conversation root. */
+  parentId: string | null;
   role: Role;
   text: string;
   imageUrl?: string;
-  inputImageUrl?: string;
+  /** Set on replies of image-output personas. */
+  art?: ArtDetails;
+  /** Files the user attached to the message. */
+  attachments?: Attachment[];
+  /**
+   * Persona that generated a model reply; the model it was sent to is in `metadata`. Missing on
+   * replies from before personas were recorded.
+   */
+  persona?: ModelId;
   timestamp: Date;
+  isStreaming?: boolean;
+  toolSteps?: ToolStep[];
+  /** Summary of the model's thoughts before it answered, kept apart from `text`. */
+  reasoning?: string;
+  /** Knowledge-base passages the reply was given, numbered as the model cites them. */
+  citations?: Citation[];
+  /** Cached token count of the message, filled in after it is created. */
+  tokenCount?: number;
+  /** Usage and response details of a model reply. */
+  metadata?: ReplyMetadata;
 }
 
-export interface ChatState {
+/** A passage of a knowledge-base document, ranked and sent to the model on its own. */
+export interface KnowledgeChunk {
+  id: string;
+  text: string;
+  /** Nearest Markdown heading above the passage. */
+  heading?: string;
+  /** 1-based line range in the document. */
+  startLine: number;
+  endLine: number;
+  /** Vector from the document's `embeddingModel`, when embeddings are on. */
+  embedding?: number[];
+}
+
+/** A file added to the local knowledge base. */
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  size: number;
+  addedAt: Date;
+  chunks: KnowledgeChunk[];
+  /** Model the chunk embeddings were made with; absent when the document is ranked by BM25 only. */
+  embeddingModel?: string;
+}
+
+/** Knowledge-base passage sent with a prompt, kept on the reply so it can be cited and opened. */
+export interface Citation {
+  /** Number the model cites the passage by, as "[n]". */
+  index: number;
+  documentId: string;
+  documentName: string;
+  heading?: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/** Running summary of turns that no longer fit the context budget. */
+export interface ConversationSummary {
+  text: string;
+  /** Id of the newest message folded into the summary. */
+  throughMessageId: string;
+  tokenCount: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  selectedModel: ModelId;
+  /** Every message of every branch, in creation order. */
   messages: Message[];
+  /** Last message of the branch currently shown and sent to the model. */
+  activeLeafId: string;
+  summary?: ConversationSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ChatState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
   isLoading: boolean;
   error: string | null;
-  selectedModel: ModelId;
+  /** Prompt whose reply failed, offered for a manual resend. */
+  failedTurn: { conversationId: string; userMessageId: string } | null;
 }
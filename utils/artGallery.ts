@@ -0,0 +1,48 @@
+import { Conversation, Message, Role } from '../types';
+
+export interface GalleryItem {
+  message: Message;
+  conversation: Conversation;
+  /** The user's description, without persona prefix or style suffix. */
+  prompt: string;
+}
+
+const toItem = (conversation: Conversation, message: Message): GalleryItem => {
+  const parent = conversation.messages.find(m => m.id === message.parentId);
+  return {
+    message,
+    conversation,
+    prompt: message.art?.prompt ?? (parent?.role === Role.USER ? parent.text : ''),
+  };
+};
+
+/** Every generated image across all conversations, newest first. */
+export const collectGallery = (conversations: Conversation[]): GalleryItem[] =>
+  conversations
+    .flatMap(conversation =>
+      conversation.messages
+        .filter(m => m.role === Role.MODEL && m.imageUrl && !m.isStreaming)
+        .map(m => toItem(conversation, m)))
+    .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime());
+
+/**
+ * Images `item` was derived from through "edit this image", oldest first and ending with `item`.
+ * Follows the source attachment of each prompt back to the image it was taken from.
+ */
+export const getLineage = (item: GalleryItem): GalleryItem[] => {
+  const { conversation } = item;
+  const lineage = [item];
+  const seen = new Set([item.message.id]);
+
+  let current = item.message;
+  for (;;) {
+    const prompt = conversation.messages.find(m => m.id === current.parentId);
+    const sourceId = prompt?.attachments?.find(a => a.sourceMessageId)?.sourceMessageId;
+    const source = sourceId && !seen.has(sourceId) ? conversation.messages.find(m => m.id === sourceId) : undefined;
+    if (!source) break;
+    seen.add(source.id);
+    lineage.unshift(toItem(conversation, source));
+    current = source;
+  }
+  return lineage;
+};
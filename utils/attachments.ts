@@ -0,0 +1,119 @@
+import { Attachment, AttachmentKind } from '../types';
+import { t } from '../services/i18n';
+import { dataUrlBytes, urlBytes, urlMimeType } from '../services/blobStore';
+
+/** Upper bound on the stored size of one attachment, per kind, in bytes. */
+export const ATTACHMENT_LIMITS: Record<AttachmentKind, number> = {
+  image: 4 * 1024 * 1024,
+  pdf: 15 * 1024 * 1024,
+  text: 512 * 1024,
+};
+
+export const MAX_ATTACHMENTS = 10;
+
+// Longest side of an uploaded image; larger photos are scaled down before sending
+const MAX_IMAGE_SIDE = 2048;
+const JPEG_QUALITY = 0.85;
+
+// Source and text files that browsers often report with an empty or generic MIME type
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'ini', 'xml', 'html', 'css', 'scss', 'log', 'env',
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'rb', 'php', 'swift', 'sh', 'bash', 'sql',
+];
+
+/** `accept` value for file inputs offering every supported kind. */
+export const ACCEPTED_FILES = ['image/*', 'application/pdf', 'text/*', ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+/** `accept` value for file inputs that take text and source files only. */
+export const ACCEPTED_TEXT_FILES = ['text/*', ...TEXT_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const getAttachmentKind = (file: File): AttachmentKind | null => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extensionOf(file.name))) return 'text';
+  return null;
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const readAs = (file: File, as: 'dataUrl' | 'text') =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    if (as === 'text') reader.readAsText(file);
+    else reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded'));
+    image.src = src;
+  });
+
+/**
+ * Scales an image down to `MAX_IMAGE_SIDE` and re-encodes it as JPEG when that makes it smaller.
+ * PNGs stay PNG so transparency survives; GIFs and SVGs are left alone.
+ */
+const compressImage = async (dataUrl: string, mimeType: string): Promise<string> => {
+  if (mimeType === 'image/gif' || mimeType === 'image/svg+xml') return dataUrl;
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.width, image.height));
+  if (scale === 1 && dataUrlBytes(dataUrl) <= ATTACHMENT_LIMITS.image / 4) return dataUrl;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const output = mimeType === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return output.length < dataUrl.length ? output : dataUrl;
+};
+
+export const createAttachmentId = () => `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Reads a dropped, pasted or picked file into an `Attachment`, enforcing the per-kind size limits. */
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const kind = getAttachmentKind(file);
+  if (!kind) throw new Error(t('attachments.unsupported', { name: file.name }));
+
+  const name = file.name || (kind === 'image' ? 'image.png' : 'file');
+  const tooLarge = () => new Error(t('attachments.tooLarge', { name, limit: formatBytes(ATTACHMENT_LIMITS[kind]) }));
+
+  if (kind === 'text') {
+    if (file.size > ATTACHMENT_LIMITS.text) throw tooLarge();
+    const text = await readAs(file, 'text');
+    return { id: createAttachmentId(), kind, name, mimeType: file.type || 'text/plain', size: file.size, text };
+  }
+
+  let dataUrl = await readAs(file, 'dataUrl');
+  if (kind === 'image') dataUrl = await compressImage(dataUrl, file.type);
+
+  const size = dataUrlBytes(dataUrl);
+  if (size > ATTACHMENT_LIMITS[kind]) throw tooLarge();
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? file.type;
+  return { id: createAttachmentId(), kind, name, mimeType, size, dataUrl };
+};
+
+/** Wraps a bare image URL in an `Attachment`: a data URL stored by older builds, or a blob ref of a generated image. */
+export const imageAttachment = (dataUrl: string, name = 'image'): Attachment => ({
+  id: createAttachmentId(),
+  kind: 'image',
+  name,
+  mimeType: urlMimeType(dataUrl) ?? 'image/png',
+  size: urlBytes(dataUrl),
+  dataUrl,
+});
+
+/** Message text with its text attachments appended as fenced blocks, as the model sees it. */
+export const withTextAttachments = (text: string, attachments: Attachment[] = []) => {
+  const files = attachments.filter(a => a.kind === 'text' && a.text !== undefined);
+  if (!files.length) return text;
+  const blocks = files.map(a => `${t('model.attachedFile', { name: a.name })}\n\`\`\`${extensionOf(a.name)}\n${a.text}\n\`\`\``);
+  return [text, ...blocks].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createBm25Index } from './bm25';
+
+const PASSAGES = [
+  { id: 'proxy', text: 'The proxy holds the key and is started by npm run server.' },
+  { id: 'voice', text: 'Hold the microphone button to dictate into the input.' },
+  { id: 'search', text: 'Search looks through every message in every channel.' },
+];
+
+describe('createBm25Index', () => {
+  it('ranks the passage with the rarer query words first', () => {
+    const index = createBm25Index(PASSAGES);
+    expect(index.search('start the proxy server', 10).map(match => match.id)).toEqual(['proxy']);
+  });
+
+  it('matches nothing for a query made only of stopwords', () => {
+    const index = createBm25Index(PASSAGES);
+    expect(index.search('by the to and', 10)).toEqual([]);
+    expect(index.search('как это и что', 10)).toEqual([]);
+  });
+
+  it('gives a full match full coverage whatever the number of passages', () => {
+    const single = createBm25Index([PASSAGES[0]]).search('proxy', 10);
+    const several = createBm25Index(PASSAGES).search('proxy', 10);
+    expect(single[0].coverage).toBe(1);
+    expect(several[0].coverage).toBe(1);
+    // The score, unlike the coverage, depends on the set
+    expect(single[0].score).toBeLessThan(several[0].score);
+  });
+
+  it('covers only the share of the query a passage contains', () => {
+    const [match] = createBm25Index(PASSAGES).search('microphone volume', 10);
+    expect(match.id).toBe('voice');
+    expect(match.coverage).toBeGreaterThan(0);
+    expect(match.coverage).toBeLessThan(1);
+  });
+});
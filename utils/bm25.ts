@@ -0,0 +1,80 @@
+import { words } from './search';
+
+// Standard Okapi BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common to say what a text is about, in the two interface languages. They are left out
+// of the index and of queries, so a match on them alone is no match
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+  'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+  'а', 'в', 'во', 'вы', 'да', 'для', 'до', 'же', 'за', 'и', 'из', 'или', 'к', 'как', 'ко', 'ли', 'мне', 'на',
+  'не', 'но', 'о', 'об', 'от', 'по', 'с', 'со', 'так', 'то', 'ты', 'у', 'что', 'это', 'я',
+]);
+
+const terms = (text: string) => words(text).filter(word => !STOPWORDS.has(word));
+
+export interface ScoredId {
+  id: string;
+  score: number;
+}
+
+export interface Bm25Match extends ScoredId {
+  /**
+   * Share of the query the item matches, from 0 to 1: the IDF of the query terms it contains over
+   * that of all of them. Unlike the score it does not grow or shrink with the size of the set, so
+   * it can be held to a fixed threshold.
+   */
+  coverage: number;
+}
+
+/**
+ * BM25 ranking over a fixed set of texts. Term statistics are computed once up front;
+ * build a new index when the set changes.
+ */
+export const createBm25Index = (items: { id: string; text: string }[]) => {
+  const frequencies = items.map(item => {
+    const counts = new Map<string, number>();
+    for (const word of terms(item.text)) counts.set(word, (counts.get(word) ?? 0) + 1);
+    return { id: item.id, counts, length: [...counts.values()].reduce((sum, n) => sum + n, 0) };
+  });
+  const averageLength = frequencies.reduce((sum, f) => sum + f.length, 0) / (frequencies.length || 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const { counts } of frequencies) {
+    for (const word of counts.keys()) documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+  }
+
+  const idf = (word: string) => {
+    const n = documentFrequency.get(word) ?? 0;
+    return Math.log(1 + (frequencies.length - n + 0.5) / (n + 0.5));
+  };
+
+  return {
+    /**
+     * The `limit` best matches for `query`, best first; items sharing no word with it are left out,
+     * and a query of stopwords alone matches nothing.
+     */
+    search: (query: string, limit: number): Bm25Match[] => {
+      const queryTerms = [...new Set(terms(query))];
+      const queryWeight = queryTerms.reduce((sum, term) => sum + idf(term), 0);
+      const scored: Bm25Match[] = [];
+      for (const { id, counts, length } of frequencies) {
+        let score = 0;
+        let matched = 0;
+        for (const term of queryTerms) {
+          const tf = counts.get(term);
+          if (!tf) continue;
+          score += idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / (averageLength || 1)));
+          matched += idf(term);
+        }
+        if (score > 0) scored.push({ id, score, coverage: matched / queryWeight });
+      }
+      return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+};
+
+export type Bm25Index = ReturnType<typeof createBm25Index>;
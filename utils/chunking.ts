@@ -0,0 +1,113 @@
+/** A passage of a document, with the 1-based line range it came from. */
+export interface TextChunk {
+  text: string;
+  /** Nearest Markdown heading above the passage. */
+  heading?: string;
+  startLine: number;
+  endLine: number;
+}
+
+// Around a screenful of prose: small enough to rank precisely, big enough to stand on its own
+const MAX_CHUNK_CHARS = 1200;
+
+interface Block {
+  lines: string[];
+  startLine: number;
+  endLine: number;
+  heading?: string;
+  isHeading: boolean;
+}
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+
+const sizeOf = (lines: string[]) => lines.reduce((sum, line) => sum + line.length + 1, 0);
+
+/** Paragraphs separated by blank lines; fenced code stays in one block even across blank lines. */
+const toBlocks = (lines: string[], markdown: boolean): Block[] => {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  let heading: string | undefined;
+  let inFence = false;
+
+  lines.forEach((line, i) => {
+    if (markdown && /^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const headingMatch = markdown && !inFence ? line.match(HEADING) : null;
+    if (headingMatch) {
+      heading = headingMatch[1];
+      blocks.push({ lines: [line], startLine: i + 1, endLine: i + 1, heading, isHeading: true });
+      current = null;
+      return;
+    }
+    if (!line.trim() && !inFence) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { lines: [], startLine: i + 1, endLine: i + 1, heading, isHeading: false };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+    current.endLine = i + 1;
+  });
+  return blocks;
+};
+
+/** Cuts a block longer than `maxChars` at line boundaries; a single overlong line, e.g. minified code, is cut as is. */
+const splitBlock = (block: Block, maxChars: number): Block[] => {
+  if (sizeOf(block.lines) <= maxChars) return [block];
+  const pieces: Block[] = [];
+  let piece: Block | null = null;
+  let size = 0;
+  block.lines.forEach((line, i) => {
+    const lineNumber = block.startLine + i;
+    const parts = line.length > maxChars ? line.match(new RegExp(`[^]{1,${maxChars}}`, 'g'))! : [line];
+    for (const part of parts) {
+      if (piece && size + part.length > maxChars) {
+        pieces.push(piece);
+        piece = null;
+      }
+      if (!piece) {
+        piece = { ...block, lines: [], startLine: lineNumber, endLine: lineNumber, isHeading: false };
+        size = 0;
+      }
+      piece.lines.push(part);
+      piece.endLine = lineNumber;
+      size += part.length + 1;
+    }
+  });
+  if (piece) pieces.push(piece);
+  return pieces;
+};
+
+/**
+ * Splits a document into passages for retrieval. Consecutive paragraphs are packed up to
+ * `maxChars`, and in Markdown every heading starts a new passage so sections are not mixed.
+ */
+export const chunkText = (text: string, { markdown = false, maxChars = MAX_CHUNK_CHARS } = {}): TextChunk[] => {
+  const blocks = toBlocks(text.replace(/\r\n?/g, '\n').split('\n'), markdown).flatMap(block => splitBlock(block, maxChars));
+  const chunks: TextChunk[] = [];
+  let current: { blocks: Block[]; size: number } | null = null;
+
+  const flush = () => {
+    if (!current?.blocks.length) return;
+    const first = current.blocks[0];
+    const last = current.blocks[current.blocks.length - 1];
+    chunks.push({
+      text: current.blocks.map(block => block.lines.join('\n')).join('\n\n'),
+      heading: first.heading,
+      startLine: first.startLine,
+      endLine: last.endLine,
+    });
+    current = null;
+  };
+
+  for (const block of blocks) {
+    const size = sizeOf(block.lines);
+    if (current && (block.isHeading || current.size + size > maxChars)) flush();
+    if (!current) current = { blocks: [], size: 0 };
+    current.blocks.push(block);
+    current.size += size;
+  }
+  flush();
+  return chunks;
+};
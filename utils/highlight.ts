@@ -0,0 +1,171 @@
+/**
+ * Lightweight, dependency-free syntax highlighter. It only classifies tokens
+ * (comments, strings, keywords, ...); the renderer decides how each class looks.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'function' | 'type' | 'tag' | 'attr';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  literals?: string[];
+  lineComment?: string[];
+  blockComment?: [string, string];
+  strings: string[];
+}
+
+const C_LIKE_COMMENTS = { lineComment: ['//'], blockComment: ['/*', '*/'] as [string, string] };
+
+const JS_KEYWORDS = ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'yield'];
+const TS_KEYWORDS = [...JS_KEYWORDS, 'abstract', 'as', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace', 'private', 'protected', 'public', 'readonly', 'satisfies', 'type'];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: { keywords: JS_KEYWORDS, literals: ['true', 'false', 'null', 'undefined', 'NaN'], ...C_LIKE_COMMENTS, strings: ['"', "'", '`'] },
+  typescript: { keywords: TS_KEYWORDS, literals: ['true', 'false', 'null', 'undefined', 'NaN'], ...C_LIKE_COMMENTS, strings: ['"', "'", '`'] },
+  python: {
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'try', 'while', 'with', 'yield'],
+    literals: ['True', 'False', 'None'],
+    lineComment: ['#'],
+    strings: ['"""', "'''", '"', "'"],
+  },
+  go: {
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'],
+    literals: ['true', 'false', 'nil', 'iota'],
+    ...C_LIKE_COMMENTS,
+    strings: ['"', '`', "'"],
+  },
+  rust: {
+    keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'],
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    ...C_LIKE_COMMENTS,
+    strings: ['"'],
+  },
+  c: {
+    keywords: ['auto', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'enum', 'extern', 'final', 'for', 'goto', 'if', 'import', 'include', 'inline', 'interface', 'namespace', 'new', 'override', 'package', 'private', 'protected', 'public', 'return', 'sizeof', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'throws', 'try', 'typedef', 'union', 'using', 'var', 'virtual', 'void', 'volatile', 'while'],
+    literals: ['true', 'false', 'null', 'NULL', 'nullptr'],
+    ...C_LIKE_COMMENTS,
+    strings: ['"', "'"],
+  },
+  bash: {
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'in', 'function', 'return', 'export', 'local', 'echo', 'cd', 'sudo'],
+    lineComment: ['#'],
+    strings: ['"', "'"],
+  },
+  sql: {
+    keywords: ['select', 'from', 'where', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit', 'offset', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table', 'index', 'drop', 'alter', 'and', 'or', 'not', 'as', 'distinct', 'union', 'with', 'case', 'when', 'then', 'else', 'end', 'primary', 'key', 'references'],
+    literals: ['null', 'true', 'false'],
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    strings: ["'", '"'],
+  },
+  json: { keywords: [], literals: ['true', 'false', 'null'], strings: ['"'] },
+  css: { keywords: ['@media', '@import', '@keyframes', '!important'], blockComment: ['/*', '*/'], strings: ['"', "'"] },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  golang: 'go',
+  rs: 'rust',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cs: 'c', csharp: 'c', java: 'c', kotlin: 'c', swift: 'c', php: 'c',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  postgres: 'sql', mysql: 'sql', sqlite: 'sql',
+  scss: 'css', less: 'css',
+};
+
+const MARKUP = new Set(['html', 'xml', 'svg', 'vue']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const resolveLanguage = (lang: string): string | null => {
+  const key = lang.toLowerCase();
+  if (MARKUP.has(key)) return 'html';
+  if (LANGUAGES[key]) return key;
+  return ALIASES[key] ?? null;
+};
+
+const highlightMarkup = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /(<!--[\s\S]*?-->)|(<\/?[\w:-]+)|([\w:-]+)(=)("[^"]*"|'[^']*')|(\/?>)/g;
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    if (match.index! > last) tokens.push({ type: 'plain', text: code.slice(last, match.index) });
+    const [, comment, tag, attr, eq, value, close] = match;
+    if (comment) tokens.push({ type: 'comment', text: comment });
+    else if (tag) tokens.push({ type: 'tag', text: tag });
+    else if (attr) tokens.push({ type: 'attr', text: attr }, { type: 'plain', text: eq }, { type: 'string', text: value });
+    else tokens.push({ type: 'tag', text: close });
+    last = match.index! + match[0].length;
+  }
+  if (last < code.length) tokens.push({ type: 'plain', text: code.slice(last) });
+  return tokens;
+};
+
+const patternCache = new Map<string, RegExp>();
+
+const buildPattern = (name: string, spec: LanguageSpec): RegExp => {
+  const cached = patternCache.get(name);
+  if (cached) return cached;
+
+  const comments: string[] = [];
+  for (const marker of spec.lineComment || []) comments.push(`${escapeRegExp(marker)}[^\\n]*`);
+  if (spec.blockComment) comments.push(`${escapeRegExp(spec.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(spec.blockComment[1])}|$)`);
+
+  const strings = spec.strings.map(quote => {
+    const q = escapeRegExp(quote);
+    // Triple quotes and backticks may span lines; ordinary quotes stop at the end of the line
+    const body = quote.length > 1 || quote === '`' ? '[\\s\\S]' : '[^\\n]';
+    return `${q}(?:\\\\[\\s\\S]|(?!${q})${body})*(?:${q}|$)`;
+  });
+
+  const pattern = new RegExp(
+    [
+      comments.length ? `(${comments.join('|')})` : '(?!)',
+      `(${strings.join('|')})`,
+      '(\\b(?:0x[\\da-fA-F]+|\\d+(?:\\.\\d+)?(?:e[+-]?\\d+)?)\\b)',
+      '([@!]?[A-Za-z_$][\\w$]*)',
+    ].join('|'),
+    'g'
+  );
+  patternCache.set(name, pattern);
+  return pattern;
+};
+
+export const highlight = (code: string, lang: string): Token[] => {
+  const name = resolveLanguage(lang);
+  if (!name) return [{ type: 'plain', text: code }];
+  if (name === 'html') return highlightMarkup(code);
+
+  const spec = LANGUAGES[name];
+  const caseInsensitive = name === 'sql';
+  const keywords = new Set(caseInsensitive ? spec.keywords.map(k => k.toLowerCase()) : spec.keywords);
+  const literals = new Set(spec.literals || []);
+  const pattern = buildPattern(name, spec);
+
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of code.matchAll(pattern)) {
+    const [text, comment, string, number, word] = match;
+    if (match.index! > last) tokens.push({ type: 'plain', text: code.slice(last, match.index) });
+    last = match.index! + text.length;
+
+    if (comment) tokens.push({ type: 'comment', text });
+    else if (string) tokens.push({ type: 'string', text });
+    else if (number) tokens.push({ type: 'number', text });
+    else if (word) {
+      const key = caseInsensitive ? word.toLowerCase() : word;
+      if (keywords.has(key)) tokens.push({ type: 'keyword', text });
+      else if (literals.has(word)) tokens.push({ type: 'literal', text });
+      else if (code[last] === '(') tokens.push({ type: 'function', text });
+      else if (/^[A-Z]/.test(word)) tokens.push({ type: 'type', text });
+      else tokens.push({ type: 'plain', text });
+    }
+  }
+  if (last < code.length) tokens.push({ type: 'plain', text: code.slice(last) });
+  return tokens;
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { isSafeUrl, parseInline, parseMarkdown } from './markdown';
+
+describe('isSafeUrl', () => {
+  it.each([
+    ['https://example.com', true],
+    ['http://example.com/a?b=c', true],
+    ['mailto:someone@example.com', true],
+    ['javascript:alert(1)', false],
+    ['JavaScript:alert(1)', false],
+    ['  javascript:alert(1)', false],
+    ['data:text/html;base64,PHNjcmlwdD4=', false],
+    ['vbscript:msgbox', false],
+    ['//evil.example', false],
+    ['/relative/path', false],
+  ])('%s → %s', (url, safe) => {
+    expect(isSafeUrl(url)).toBe(safe);
+  });
+});
+
+describe('parseInline', () => {
+  it('keeps links to web and mail addresses', () => {
+    expect(parseInline('see [docs](https://example.com)')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+  });
+
+  it.each(['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'JAVASCRIPT:void(0)'])(
+    'turns a link to %s into its text',
+    (href) => {
+      // A ")" inside the URL ends it early; what is left over stays text as well
+      const nodes = parseInline(`[click me](${href})`);
+      expect(nodes.every(node => node.type === 'text')).toBe(true);
+      expect(nodes[0]).toMatchObject({ type: 'text', text: expect.stringMatching(/^click me/) });
+    },
+  );
+
+  it('links bare URLs without their trailing punctuation', () => {
+    expect(parseInline('Go to https://example.com/a.')).toEqual([
+      { type: 'text', text: 'Go to ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('keeps raw HTML as text', () => {
+    const html = '<img src=x onerror="alert(1)"><script>alert(2)</script>';
+    expect(parseInline(html)).toEqual([{ type: 'text', text: html }]);
+  });
+
+  it('nests emphasis inside strong text', () => {
+    expect(parseInline('**bold _and italic_ ~~gone~~**')).toEqual([{
+      type: 'strong',
+      children: [
+        { type: 'text', text: 'bold ' },
+        { type: 'em', children: [{ type: 'text', text: 'and italic' }] },
+        { type: 'text', text: ' ' },
+        { type: 'del', children: [{ type: 'text', text: 'gone' }] },
+      ],
+    }]);
+  });
+
+  it('does not parse markup inside code spans', () => {
+    expect(parseInline('`**not bold** [x](javascript:y)`')).toEqual([{ type: 'code', text: '**not bold** [x](javascript:y)' }]);
+  });
+
+  it('leaves snake_case and lone markers alone', () => {
+    expect(parseInline('snake_case_name * 2')).toEqual([{ type: 'text', text: 'snake_case_name * 2' }]);
+  });
+
+  it('handles long runs of unmatched markers in linear time', () => {
+    const hostile = ['*_'.repeat(50_000), '**a __b '.repeat(20_000), '[a'.repeat(50_000), '`a ~~b '.repeat(20_000)];
+    const started = performance.now();
+    for (const text of hostile) {
+      expect(parseInline(text).map(node => ('text' in node ? node.text : '')).join('').length).toBeGreaterThan(0);
+    }
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reads a fenced block verbatim with its language', () => {
+    expect(parseMarkdown('```TS\nconst a = **1**;\n<b>x</b>\n```\nafter')).toEqual([
+      { type: 'code', lang: 'ts', code: 'const a = **1**;\n<b>x</b>' },
+      { type: 'paragraph', children: [{ type: 'text', text: 'after' }] },
+    ]);
+  });
+
+  it('runs an unterminated fence to the end', () => {
+    expect(parseMarkdown('~~~\nstill streaming')).toEqual([{ type: 'code', lang: '', code: 'still streaming' }]);
+  });
+
+  it('ends a fence only at a marker of the same kind and length', () => {
+    const [block] = parseMarkdown('````md\n```js\ninner\n```\n````');
+    expect(block).toEqual({ type: 'code', lang: 'md', code: '```js\ninner\n```' });
+  });
+
+  it('keeps raw HTML blocks as paragraph text', () => {
+    expect(parseMarkdown('<div onclick="x()">hi</div>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<div onclick="x()">hi</div>' }] },
+    ]);
+  });
+});
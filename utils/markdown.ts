@@ -0,0 +1,217 @@
+/**
+ * Minimal Markdown parser for model replies. It produces a small AST instead of HTML, so
+ * raw HTML in the source is never interpreted: it reaches the DOM as escaped text.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'hr' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+/** Only web and mail links survive; anything else (javascript:, data:, ...) is rendered as plain text. */
+export const isSafeUrl = (url: string) => SAFE_URL.test(url.trim());
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || HR.test(lines[i]) || QUOTE.test(lines[i]) ||
+  LIST_ITEM.test(lines[i]) || isTableStart(lines, i);
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const INLINE = new RegExp([
+  /(`+)([\s\S]*?[^`])\1(?!`)/.source,                       // 1,2: code span
+  /\[([^[\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,      // 3,4: link
+  /(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/.source,        // 5: bare URL
+  /\*\*([\s\S]+?)\*\*/.source,                             // 6: strong
+  /__([\s\S]+?)__/.source,                                 // 7: strong
+  /~~([\s\S]+?)~~/.source,                                 // 8: strikethrough
+  /\*([^*\s](?:[^*]*[^*\s])?)\*/.source,                   // 9: emphasis
+  /(?<![\w])_([^_\s](?:[^_]*[^_\s])?)_(?![\w])/.source,    // 10: emphasis
+].join('|'));
+
+export const parseInline = (source: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = source;
+
+  const pushText = (text: string) => {
+    if (!text) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else nodes.push({ type: 'text', text });
+  };
+
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      pushText(rest);
+      break;
+    }
+    pushText(rest.slice(0, match.index));
+    const [whole, , code, linkText, href, bareUrl, strong1, strong2, del, em1, em2] = match;
+
+    if (code !== undefined) nodes.push({ type: 'code', text: code.trim() || code });
+    else if (href !== undefined) {
+      if (isSafeUrl(href)) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+      else pushText(linkText);
+    }
+    else if (bareUrl !== undefined) nodes.push({ type: 'link', href: bareUrl, children: [{ type: 'text', text: bareUrl }] });
+    else if (strong1 !== undefined || strong2 !== undefined) nodes.push({ type: 'strong', children: parseInline(strong1 ?? strong2) });
+    else if (del !== undefined) nodes.push({ type: 'del', children: parseInline(del) });
+    else nodes.push({ type: 'em', children: parseInline(em1 ?? em2) });
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+};
+
+const parseLines = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const [, marker, lang] = fence;
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      // An unterminated fence runs to the end, which keeps half-streamed code blocks rendering as code
+      while (i < lines.length && !new RegExp(`^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i].replace(new RegExp(`^\\s{0,${indent}}`), ''));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: lang.toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseLines(quoted) });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || indentOf(lines[i]) !== baseIndent || /\d/.test(item[2]) !== ordered) break;
+
+        const contentIndent = baseIndent + item[2].length + 1;
+        const itemLines = [item[3]];
+        i++;
+        while (i < lines.length) {
+          const next = lines[i];
+          if (!next.trim()) {
+            // A blank line ends the item unless the following line is indented into it
+            if (i + 1 < lines.length && lines[i + 1].trim() && indentOf(lines[i + 1]) > baseIndent) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) > baseIndent) {
+            itemLines.push(next.replace(new RegExp(`^\\s{0,${contentIndent}}`), ''));
+            i++;
+            continue;
+          }
+          if (startsBlock(lines, i)) break;
+          itemLines.push(next.trim());
+          i++;
+        }
+        items.push(parseLines(itemLines));
+
+        // Skip the blank separator between loose items of the same list
+        if (i + 1 < lines.length && !lines[i]?.trim() && lines[i + 1].match(LIST_ITEM) && indentOf(lines[i + 1]) === baseIndent) i++;
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: MarkdownInline[][][] = [];
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, col) => parseInline(cells[col] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => parseLines(source.replace(/\r\n?/g, '\n').split('\n'));
@@ -0,0 +1,56 @@
+import { Conversation, Message, Role } from '../types';
+
+/**
+ * Conversations store every message ever generated as a tree linked by `parentId`.
+ * Edits and regenerations add siblings; `activeLeafId` selects which branch is shown and sent.
+ */
+
+export const getChildren = (messages: Message[], parentId: string | null): Message[] =>
+  messages.filter(m => (m.parentId ?? null) === parentId);
+
+export const getSiblings = (messages: Message[], message: Message): Message[] =>
+  getChildren(messages, message.parentId ?? null);
+
+/** Follows the most recent child from `id` down to a leaf. */
+export const findLatestLeaf = (messages: Message[], id: string): string => {
+  let current = id;
+  // A malformed stored tree may link back on itself; stop where it would revisit a message
+  const visited = new Set([current]);
+  for (;;) {
+    const children = getChildren(messages, current);
+    const next = children[children.length - 1]?.id;
+    if (next === undefined || visited.has(next)) return current;
+    visited.add(next);
+    current = next;
+  }
+};
+
+/** Messages from the root to `leafId`, oldest first. */
+export const getPathTo = (messages: Message[], leafId: string): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+export const getActivePath = (conversation: Conversation): Message[] => {
+  const { messages, activeLeafId } = conversation;
+  if (!messages.length) return [];
+  const leaf = activeLeafId && messages.some(m => m.id === activeLeafId) ? activeLeafId : messages[messages.length - 1].id;
+  return getPathTo(messages, leaf);
+};
+
+/**
+ * Replies waiting for a pick: the answers under the active leaf when it is a prompt, as left by a
+ * compare prompt or by a failed regeneration.
+ */
+export const getPendingReplies = (conversation: Conversation): Message[] => {
+  const leaf = conversation.messages.find(m => m.id === conversation.activeLeafId);
+  return leaf?.role === Role.USER ? getChildren(conversation.messages, leaf.id) : [];
+};
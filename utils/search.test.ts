@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { makeSnippet, splitMatches, termPattern, tokenize, words } from './search';
+
+describe('words and tokenize', () => {
+  it('lower-cases, folds ё and splits on anything but letters and digits', () => {
+    expect(words('Ёжик, ЁЖИК и 2 ежа!')).toEqual(['ежик', 'ежик', 'и', '2', 'ежа']);
+    expect(tokenize('Ёжик, ЁЖИК и 2 ежа!')).toEqual(['ежик', 'и', '2', 'ежа']);
+    expect(tokenize('snake_case e-mail')).toEqual(['snake', 'case', 'e', 'mail']);
+  });
+});
+
+describe('termPattern and splitMatches', () => {
+  it('marks words that start with a term, longest term first', () => {
+    const pattern = termPattern(['кот', 'котен']);
+    expect(splitMatches('Котёнок и кот, но не скот', pattern)).toEqual(['', 'Котён', 'ок и ', 'кот', ', но не скот']);
+  });
+
+  it('escapes regex characters in terms', () => {
+    expect(splitMatches('a+b and ab', termPattern(['a+b']))).toEqual(['', 'a+b', ' and ab']);
+  });
+
+  it('leaves text whole without terms', () => {
+    expect(termPattern([])).toBeNull();
+    expect(splitMatches('text', null)).toEqual(['text']);
+  });
+});
+
+describe('makeSnippet', () => {
+  it('cuts a single line around the first match', () => {
+    const text = `${'lead '.repeat(40)}\nneedle\n${'tail '.repeat(40)}`;
+    const snippet = makeSnippet(text, termPattern(['needle']), 20);
+    expect(snippet).toMatch(/^….{20}needle.{14}…$/);
+    expect(snippet).not.toContain('\n');
+  });
+
+  it('keeps short text as it is and starts long text without a match at the beginning', () => {
+    expect(makeSnippet('  short   text ', termPattern(['absent']))).toBe('short text');
+    expect(makeSnippet('x'.repeat(300), null, 10)).toBe(`${'x'.repeat(20)}…`);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Text helpers shared by the search index and the highlighters. Matching ignores case and
+ * treats "ё" as "е", and a query term matches any word it is the beginning of.
+ */
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export const normalizeText = (text: string) => text.toLowerCase().replace(/ё/g, 'е');
+
+/** Normalized words of `text` in order, repeats included. */
+export const words = (text: string): string[] => normalizeText(text).match(WORD) ?? [];
+
+/** Distinct normalized words of `text`, in order of first appearance. */
+export const tokenize = (text: string): string[] => [...new Set(words(text))];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Regex matching the start of any word beginning with one of `terms`; null when there is nothing to match. */
+export const termPattern = (terms: string[]): RegExp | null => {
+  if (!terms.length) return null;
+  // Longest first, so "кот" does not cut "котёнок" short when both are searched
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => escapeRegExp(term).replace(/е/g, '[её]'));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+};
+
+/** `text` cut into alternating plain and matched pieces; odd indexes are matches. */
+export const splitMatches = (text: string, pattern: RegExp | null): string[] => {
+  if (!pattern) return [text];
+  const parts: string[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    parts.push(text.slice(last, match.index), match[0]);
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts;
+};
+
+/** A single-line excerpt of `text` around the first match, with ellipses where it was cut. */
+export const makeSnippet = (text: string, pattern: RegExp | null, radius = 80): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const at = pattern ? flat.search(pattern) : -1;
+  if (at < 0 && flat.length <= radius * 2) return flat;
+  const start = Math.max(0, at < 0 ? 0 : at - radius);
+  const end = Math.min(flat.length, start + radius * 2);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+};
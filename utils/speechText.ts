@@ -0,0 +1,45 @@
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from './markdown';
+import { t } from '../services/i18n';
+
+// Inline code up to this length is read out (identifiers, short commands); longer spans are summarized
+const MAX_SPOKEN_CODE = 24;
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map(node => {
+    if (node.type === 'text') return node.text;
+    if (node.type === 'code') return node.text.length <= MAX_SPOKEN_CODE ? node.text : t('speech.inlineCode');
+    return inlineText(node.children);
+  }).join('');
+
+// Sentences end with a period so the synthesizer pauses between blocks
+const sentence = (text: string) => {
+  const trimmed = text.trim();
+  return !trimmed || /[.!?:;…]$/.test(trimmed) ? trimmed : `${trimmed}.`;
+};
+
+const blockText = (block: MarkdownBlock): string[] => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return [sentence(inlineText(block.children))];
+    case 'code': {
+      const count = block.code.split('\n').length;
+      return [block.lang ? t('speech.codeLang', { lang: block.lang, count }) : t('speech.code', { count })];
+    }
+    case 'blockquote':
+      return block.children.flatMap(blockText);
+    case 'list':
+      return block.items.flatMap(item => item.flatMap(blockText));
+    case 'table':
+      return [t('speech.table', { count: block.rows.length })];
+    case 'hr':
+      return [];
+  }
+};
+
+/**
+ * Turns a Markdown reply into text worth listening to: markup is dropped, and code blocks and
+ * tables are announced with a one-line summary instead of being spelled out.
+ */
+export const toSpeechText = (markdown: string): string =>
+  parseMarkdown(markdown).flatMap(blockText).filter(Boolean).join(' ');
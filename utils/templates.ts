@@ -0,0 +1,58 @@
+import { Persona, PromptTemplate } from "../types";
+
+/** Commands the composer handles itself; templates cannot take these names. */
+export const BUILTIN_COMMANDS = ['model', 'clear', 'export', 'retry', 'templates'] as const;
+
+export type BuiltinCommand = typeof BUILTIN_COMMANDS[number];
+
+/** One row of the slash-command menu. */
+export type SlashItem =
+  | { kind: 'command'; command: BuiltinCommand }
+  | { kind: 'persona'; persona: Persona }
+  | { kind: 'template'; template: PromptTemplate };
+
+const VARIABLE = /\{\{\s*([\p{L}\p{N}_-]+)\s*\}\}/gu;
+
+export const COMMAND_NAME = /^[\p{L}\p{N}_-]+$/u;
+
+/** Variable names in `text`, each once, in order of first use. */
+export const templateVariables = (text: string): string[] =>
+  [...new Set(Array.from(text.matchAll(VARIABLE), match => match[1]))];
+
+/** Substitutes every `{{name}}`; variables without a value are left as they are. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE, (match, name: string) => values[name] ?? match);
+
+/** Splits `/name argument` input; anything that does not start with a slash is a plain prompt. */
+export const parseSlashCommand = (input: string): { name: string; argument: string } | null => {
+  const match = input.match(/^\/(\S*)(?:\s+([^]*))?$/);
+  return match ? { name: match[1].toLowerCase(), argument: (match[2] ?? '').trim() } : null;
+};
+
+export const isBuiltinCommand = (name: string): name is BuiltinCommand => (BUILTIN_COMMANDS as readonly string[]).includes(name);
+
+/** Looks a persona up by id or name, ignoring case, for `/model <persona>`. */
+export const findPersona = (personas: Persona[], query: string): Persona | undefined => {
+  const wanted = query.trim().toLowerCase();
+  return personas.find(p => p.id.toLowerCase() === wanted) ?? personas.find(p => p.name.toLowerCase() === wanted);
+};
+
+/**
+ * Menu rows for what is typed so far: commands and templates starting with the typed name
+ * while it is being typed, then personas once `/model ` has a space after it.
+ */
+export const getSlashItems = (input: string, templates: PromptTemplate[], personas: Persona[]): SlashItem[] => {
+  const parsed = parseSlashCommand(input);
+  if (!parsed) return [];
+  if (/\s/.test(input)) {
+    if (parsed.name !== 'model') return [];
+    const prefix = parsed.argument.toLowerCase();
+    return personas
+      .filter(p => p.id.toLowerCase().startsWith(prefix) || p.name.toLowerCase().startsWith(prefix))
+      .map(persona => ({ kind: 'persona', persona }));
+  }
+  return [
+    ...BUILTIN_COMMANDS.filter(command => command.startsWith(parsed.name)).map(command => ({ kind: 'command', command }) as const),
+    ...templates.filter(template => template.command.toLowerCase().startsWith(parsed.name)).map(template => ({ kind: 'template', template }) as const),
+  ];
+};
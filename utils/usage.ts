@@ -0,0 +1,51 @@
+import { Conversation, Message, ModelPrice, Role, TokenUsage } from '../types';
+
+/** Sum of two usage reports; either may be missing. */
+export const addUsage = (a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined => {
+  if (!a || !b) return a ?? b;
+  const thoughts = a.thoughts || b.thoughts ? (a.thoughts ?? 0) + (b.thoughts ?? 0) : undefined;
+  return { input: a.input + b.input, output: a.output + b.output, thoughts, total: a.total + b.total };
+};
+
+/** Estimated price of `usage` in US dollars; reasoning tokens are billed at the output rate. */
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined) =>
+  price ? (usage.input * price.input + (usage.output + (usage.thoughts ?? 0)) * price.output) / 1_000_000 : undefined;
+
+export interface UsageRow {
+  /** Conversation id or ISO day, depending on the grouping. */
+  key: string;
+  model: string;
+  usage: TokenUsage;
+  replies: number;
+}
+
+const repliesWithUsage = (conversation: Conversation): (Message & { metadata: { usage: TokenUsage } })[] =>
+  conversation.messages.filter((m): m is Message & { metadata: { usage: TokenUsage } } =>
+    m.role === Role.MODEL && !!m.metadata?.usage);
+
+/** Local calendar day of `date` as YYYY-MM-DD, which also sorts chronologically. */
+const dayOf = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Token totals of every reply with reported usage, across all branches, grouped by conversation
+ * or by day and then by the model that answered. Rows come newest group first.
+ */
+export const summarizeUsage = (conversations: Conversation[], groupBy: 'conversation' | 'day'): UsageRow[] => {
+  const rows = new Map<string, UsageRow & { order: string }>();
+  for (const conversation of conversations) {
+    for (const message of repliesWithUsage(conversation)) {
+      const key = groupBy === 'conversation' ? conversation.id : dayOf(message.timestamp);
+      const order = groupBy === 'conversation' ? conversation.updatedAt.toISOString() : key;
+      const { model } = message.metadata;
+      const id = `${key}\n${model}`;
+      const row = rows.get(id) ?? { key, model, usage: { input: 0, output: 0, total: 0 }, replies: 0, order };
+      row.usage = addUsage(row.usage, message.metadata.usage)!;
+      row.replies++;
+      rows.set(id, row);
+    }
+  }
+  return [...rows.values()]
+    .sort((a, b) => b.order.localeCompare(a.order) || a.key.localeCompare(b.key) || a.model.localeCompare(b.model))
+    .map(({ order, ...row }) => row);
+};
@@ -1,18 +1,75 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createFileFixtureStore } from './server/fixtureFiles';
 
-export default defineConfig(({ mode }) => {
+/**
+ * Lets the browser read and write the fixture directory while CHAT_FIXTURES is set:
+ * GET /__fixtures lists every fixture, POST /__fixtures saves one (see services/fixtures.ts).
+ */
+const fixturesPlugin = (dir: string): Plugin => ({
+  name: 'nikiviti-fixtures',
+  apply: 'serve',
+  configureServer(server) {
+    const store = createFileFixtureStore(dir);
+    server.middlewares.use('/__fixtures', async (req, res) => {
+      try {
+        if (req.method === 'GET') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(await store.list()));
+          return;
+        }
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const fixture = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        // The key becomes a file name
+        if (!/^[0-9a-f]{16}$/.test(fixture?.key) || !['generate', 'stream', 'embed'].includes(fixture.kind)) {
+          res.statusCode = 400;
+          res.end();
+          return;
+        }
+        await store.save(fixture);
+        res.statusCode = 204;
+        res.end();
+      } catch (err) {
+        console.error("Solaris Fixture Error:", err);
+        res.statusCode = 500;
+        res.end();
+      }
+    });
+  },
+});
+
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // In proxy mode the key stays with server/main.ts and is left out of the bundle
+    const apiKey = env.GEMINI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: env.CHAT_FIXTURES ? [react(), fixturesPlugin(env.CHAT_FIXTURES_DIR || 'fixtures')] : [react()],
+      // The CLI and proxy builds run in Node and read the environment at startup instead
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL),
+        'process.env.CHAT_PROVIDER': JSON.stringify(env.CHAT_PROVIDER),
+        'process.env.CHAT_MODEL': JSON.stringify(env.CHAT_MODEL),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        // Never compiled in: the page talks to OpenAI-compatible servers without a key; the CLI reads it from the shell
+        'process.env.OPENAI_API_KEY': 'undefined',
+        // Record/replay; replay needs no key or network at all
+        'process.env.CHAT_FIXTURES': JSON.stringify(env.CHAT_FIXTURES),
+        'process.env.CHAT_REPLAY_LATENCY_MS': JSON.stringify(env.CHAT_REPLAY_LATENCY_MS),
+        'process.env.CHAT_REPLAY_CHUNK_MS': JSON.stringify(env.CHAT_REPLAY_CHUNK_MS),
+        'process.env.CHAT_REPLAY_FAILURES': JSON.stringify(env.CHAT_REPLAY_FAILURES)
       },
       resolve: {
         alias: {